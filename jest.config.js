@@ -9,6 +9,8 @@ module.exports = {
     '^@llm/(.*)$': '<rootDir>/src/llm/$1',
     '^@services/(.*)$': '<rootDir>/src/services/$1',
     '^@interfaces/(.*)$': '<rootDir>/src/interfaces/$1',
+    '^@utils/(.*)$': '<rootDir>/src/utils/$1',
+    '^@http/(.*)$': '<rootDir>/src/http/$1',
   },
   transform: {
     '^.+\\.tsx?$': 'ts-jest',
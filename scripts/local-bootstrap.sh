@@ -3,6 +3,7 @@
 # Fixed names (single-table design):
 #   - DynamoDB: politopics (PK, SK; GSIs: ArticleByDate, MonthDateIndex)
 #   - S3: politopics-error-logs  (logs for success/error)
+#   - SQS: politopics-meetings (+ politopics-meetings-dlq) for PIPELINE_MODE=queue
 # Safe to re-run.
 
 set -euo pipefail
@@ -76,4 +77,17 @@ aws --endpoint-url "$ENDPOINT" s3api put-bucket-versioning \
   --bucket politopics-error-logs \
   --versioning-configuration Status=Enabled
 
+# --- SQS for meeting fan-out (queue + dead-letter queue) ---
+echo "Creating SQS queues 'politopics-meetings' / 'politopics-meetings-dlq'..."
+DLQ_URL="$(aws --endpoint-url "$ENDPOINT" sqs create-queue \
+  --queue-name politopics-meetings-dlq --query QueueUrl --output text)"
+DLQ_ARN="$(aws --endpoint-url "$ENDPOINT" sqs get-queue-attributes \
+  --queue-url "$DLQ_URL" --attribute-names QueueArn --query Attributes.QueueArn --output text)"
+QUEUE_URL="$(aws --endpoint-url "$ENDPOINT" sqs create-queue \
+  --queue-name politopics-meetings --query QueueUrl --output text)"
+aws --endpoint-url "$ENDPOINT" sqs set-queue-attributes \
+  --queue-url "$QUEUE_URL" \
+  --attributes "{\"VisibilityTimeout\":\"960\",\"RedrivePolicy\":\"{\\\"deadLetterTargetArn\\\":\\\"$DLQ_ARN\\\",\\\"maxReceiveCount\\\":\\\"3\\\"}\"}"
+
+echo "MEETING_QUEUE_URL=$QUEUE_URL"
 echo "Done."
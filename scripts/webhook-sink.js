@@ -0,0 +1,41 @@
+// Local stand-in for a Slack / generic webhook: prints every POSTed body and
+// appends it to out/webhook-sink.jsonl.
+//
+//   node scripts/webhook-sink.js [port]        (default 8787, or WEBHOOK_SINK_PORT)
+//   NOTIFY_WEBHOOK_URL=http://localhost:8787/ npm run dev
+//
+// Set WEBHOOK_SINK_STATUS=500 to exercise the notifier's failure path.
+const http = require('http');
+const path = require('path');
+const fse = require('fs-extra');
+
+const port = Number(process.argv[2] || process.env.WEBHOOK_SINK_PORT || 8787);
+const status = Number(process.env.WEBHOOK_SINK_STATUS || 200);
+const outFile = path.join(__dirname, '..', process.env.OUT_DIR || 'out', 'webhook-sink.jsonl');
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', async () => {
+    let parsed;
+    try { parsed = JSON.parse(body); } catch { parsed = body; }
+    const entry = { receivedAt: new Date().toISOString(), method: req.method, path: req.url, body: parsed };
+
+    console.log(`📨 ${req.method} ${req.url}`);
+    console.log(typeof parsed === 'object' && parsed && parsed.text ? parsed.text : JSON.stringify(parsed, null, 2));
+    try {
+      await fse.ensureDir(path.dirname(outFile));
+      await fse.appendFile(outFile, JSON.stringify(entry) + '\n');
+    } catch (e) {
+      console.error('Failed to append to', outFile, e);
+    }
+
+    res.writeHead(status, { 'content-type': 'text/plain' });
+    res.end(status < 400 ? 'ok' : 'error');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook sink listening on http://localhost:${port}/ (responding ${status}, logging to ${outFile})`);
+});
@@ -0,0 +1,158 @@
+// API keys for the HTTP API in the single table.
+//
+// Item shape
+// ----------
+//   PK = "APIKEY#<keyId>", SK = "META"
+//   name, scopes, quota {rpm, rpd}, status (active | revoked), secretHash, timestamps
+//   GSI1PK = "APIKEY", GSI1SK = createdAt  (ArticleByDate is overloaded to list keys)
+//
+// The key handed to clients is "<keyId>.<secret>". Only sha256(secret) is stored;
+// secrets are 32 random bytes, so a plain hash is sufficient (no password stretching).
+
+import crypto from "node:crypto";
+import {
+  PutCommand,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand,
+} from "@aws-sdk/lib-dynamodb";
+
+import type { Cfg } from "./storeData";
+
+export type ApiScope = "run:trigger" | "articles:read" | "admin";
+export const API_SCOPES: ApiScope[] = ["run:trigger", "articles:read", "admin"];
+
+export interface ApiKeyQuota {
+  rpm?: number; // requests per minute (0 / unset = unlimited)
+  rpd?: number; // requests per UTC day
+}
+
+export interface ApiKeyRecord {
+  keyId: string;
+  name: string;
+  scopes: ApiScope[];
+  quota?: ApiKeyQuota;
+  status: "active" | "revoked";
+  secretHash: string;
+  createdAt: string;
+  updatedAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+}
+
+/** Record without the secret hash, safe to return from admin routes. */
+export type ApiKeyInfo = Omit<ApiKeyRecord, "secretHash">;
+
+const keyPK = (keyId: string) => `APIKEY#${keyId}`;
+const keySK = "META";
+
+const nowIso = () => new Date().toISOString();
+const newSecret = () => crypto.randomBytes(32).toString("base64url");
+export const hashSecret = (secret: string) => crypto.createHash("sha256").update(secret, "utf8").digest("hex");
+
+const toRecord = ({ PK: _pk, SK: _sk, type: _type, GSI1PK: _g1p, GSI1SK: _g1s, ...rec }: Record<string, any>) =>
+  rec as ApiKeyRecord;
+
+export const toApiKeyInfo = ({ secretHash: _hash, ...info }: ApiKeyRecord): ApiKeyInfo => info;
+
+/** Split "<keyId>.<secret>"; undefined when the shape is wrong. */
+export function parsePresentedKey(presented: string): { keyId: string; secret: string } | undefined {
+  const dot = presented.indexOf(".");
+  if (dot <= 0 || dot === presented.length - 1) return undefined;
+  return { keyId: presented.slice(0, dot), secret: presented.slice(dot + 1) };
+}
+
+/** Constant-time comparison of the presented secret with the stored hash. */
+export function verifySecret(secret: string, secretHash: string): boolean {
+  const a = Buffer.from(hashSecret(secret), "hex");
+  const b = Buffer.from(secretHash, "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export async function createApiKey(
+  cfg: Cfg,
+  input: { name: string; scopes: ApiScope[]; quota?: ApiKeyQuota }
+): Promise<{ key: string; record: ApiKeyInfo }> {
+  const keyId = crypto.randomBytes(9).toString("base64url");
+  const secret = newSecret();
+  const now = nowIso();
+  const record: ApiKeyRecord = {
+    keyId,
+    name: input.name,
+    scopes: [...new Set(input.scopes)],
+    quota: input.quota,
+    status: "active",
+    secretHash: hashSecret(secret),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await cfg.doc.send(new PutCommand({
+    TableName: cfg.table_name,
+    Item: { PK: keyPK(keyId), SK: keySK, type: "APIKEY", GSI1PK: "APIKEY", GSI1SK: now, ...record },
+    ConditionExpression: "attribute_not_exists(PK)",
+  }));
+  return { key: `${keyId}.${secret}`, record: toApiKeyInfo(record) };
+}
+
+export async function getApiKey(cfg: Cfg, keyId: string): Promise<ApiKeyRecord | undefined> {
+  const res = await cfg.doc.send(new GetCommand({
+    TableName: cfg.table_name,
+    Key: { PK: keyPK(keyId), SK: keySK },
+  }));
+  return res.Item ? toRecord(res.Item) : undefined;
+}
+
+/** Newest keys first (via the overloaded ArticleByDate index). */
+export async function listApiKeys(cfg: Cfg, opts: { limit?: number; startKey?: Record<string, any> } = {}) {
+  const res = await cfg.doc.send(new QueryCommand({
+    TableName: cfg.table_name,
+    IndexName: "ArticleByDate",
+    KeyConditionExpression: "GSI1PK = :pk",
+    ExpressionAttributeValues: { ":pk": "APIKEY" },
+    ScanIndexForward: false,
+    Limit: opts.limit ?? 20,
+    ExclusiveStartKey: opts.startKey,
+  }));
+  return { keys: (res.Items ?? []).map((i) => toApiKeyInfo(toRecord(i))), lastEvaluatedKey: res.LastEvaluatedKey };
+}
+
+/** Issue a new secret for an active key; the old secret stops working immediately. */
+export async function rotateApiKey(cfg: Cfg, keyId: string): Promise<{ key: string; record: ApiKeyInfo } | undefined> {
+  const secret = newSecret();
+  const now = nowIso();
+  try {
+    const res = await cfg.doc.send(new UpdateCommand({
+      TableName: cfg.table_name,
+      Key: { PK: keyPK(keyId), SK: keySK },
+      UpdateExpression: "SET secretHash = :h, rotatedAt = :now, updatedAt = :now",
+      ConditionExpression: "attribute_exists(PK) AND #status = :active",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: { ":h": hashSecret(secret), ":now": now, ":active": "active" },
+      ReturnValues: "ALL_NEW",
+    }));
+    return { key: `${keyId}.${secret}`, record: toApiKeyInfo(toRecord(res.Attributes ?? {})) };
+  } catch (e) {
+    if ((e as Error)?.name === "ConditionalCheckFailedException") return undefined;
+    throw e;
+  }
+}
+
+/** Revoke a key (kept for audit). Returns undefined when the key does not exist. */
+export async function revokeApiKey(cfg: Cfg, keyId: string): Promise<ApiKeyInfo | undefined> {
+  const now = nowIso();
+  try {
+    const res = await cfg.doc.send(new UpdateCommand({
+      TableName: cfg.table_name,
+      Key: { PK: keyPK(keyId), SK: keySK },
+      UpdateExpression: "SET #status = :revoked, revokedAt = if_not_exists(revokedAt, :now), updatedAt = :now",
+      ConditionExpression: "attribute_exists(PK)",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: { ":revoked": "revoked", ":now": now },
+      ReturnValues: "ALL_NEW",
+    }));
+    return toApiKeyInfo(toRecord(res.Attributes ?? {}));
+  } catch (e) {
+    if ((e as Error)?.name === "ConditionalCheckFailedException") return undefined;
+    throw e;
+  }
+}
@@ -0,0 +1,26 @@
+import { decodeCursor, encodeCursor, InvalidCursorError } from "@DynamoDBHandler/cursor";
+
+const token = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+describe("cursor", () => {
+  test("round-trips LastEvaluatedKey as an opaque url-safe token", () => {
+    const key = { PK: "CATEGORY#経済", SK: "Y#2025#M#05#D#2025-05-28T00:00:00.000Z#A#M1" };
+    const cursor = encodeCursor(key, "/categories/経済")!;
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, "/categories/経済")).toEqual(key);
+    expect(encodeCursor(undefined, "/articles")).toBeUndefined();
+    expect(decodeCursor("", "/articles")).toBeUndefined();
+  });
+
+  test("rejects cursors issued by another listing", () => {
+    const cursor = encodeCursor({ PK: "CATEGORY#経済", SK: "x" }, "/categories/経済")!;
+    expect(() => decodeCursor(cursor, "/categories/外交")).toThrow("Cursor belongs to another listing");
+    expect(() => decodeCursor(token({ PK: "CATEGORY#経済", SK: "x" }), "/categories/経済")).toThrow(InvalidCursorError);
+  });
+
+  test("rejects tampered or non-key payloads", () => {
+    expect(() => decodeCursor("%%%", "/articles")).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(token([1]), "/articles")).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(token({ l: "/articles", k: { PK: { S: "x" } } }), "/articles")).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,39 @@
+// Opaque pagination cursors for DynamoDB queries.
+// The LastEvaluatedKey is serialized as base64url JSON so clients never depend on key layout.
+// Each cursor names the listing that issued it (route + filters); a cursor presented to
+// another listing would not match its key schema or key condition, so it is rejected here
+// instead of failing in DynamoDB.
+
+export class InvalidCursorError extends Error {
+  constructor(message = "Invalid cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+type Key = Record<string, string | number>;
+
+export function encodeCursor(lastEvaluatedKey: Record<string, any> | undefined, listing: string): string | undefined {
+  if (!lastEvaluatedKey) return undefined;
+  return Buffer.from(JSON.stringify({ l: listing, k: lastEvaluatedKey }), "utf8").toString("base64url");
+}
+
+/** Decode a cursor from a client; it must come from `listing` and hold only flat string/number keys. */
+export function decodeCursor(cursor: string | null | undefined, listing: string): Key | undefined {
+  if (cursor == null || cursor === "") return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new InvalidCursorError();
+  const { l, k } = parsed as { l?: unknown; k?: unknown };
+  if (l !== listing) throw new InvalidCursorError("Cursor belongs to another listing");
+  if (!k || typeof k !== "object" || Array.isArray(k)) throw new InvalidCursorError();
+  const entries = Object.entries(k as Record<string, unknown>);
+  if (!entries.length || !entries.every(([, v]) => typeof v === "string" || typeof v === "number")) {
+    throw new InvalidCursorError();
+  }
+  return k as Key;
+}
@@ -0,0 +1,134 @@
+import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+import {
+  claimRunForResume, clearChunkCheckpoints, closeRun, createRun, failRun, listRecentFailures, listRuns, runCounts, setMeetingStatus, type MeetingState,
+} from "@DynamoDBHandler/runState";
+
+function fakeDoc() {
+  const sent: any[] = [];
+  const doc = {
+    send: jest.fn(async (cmd: any) => {
+      sent.push(cmd.input);
+      return cmd.input.IndexName
+        ? { Items: [{ PK: "RUN#r1", SK: "META", type: "RUN", GSI1PK: "RUN", GSI1SK: "t", runId: "r1", status: "completed" }] }
+        : {};
+    }),
+  } as unknown as DynamoDBDocumentClient;
+  return { cfg: { doc, table_name: "politopics" }, sent };
+}
+
+const state = (issueID: string, status: MeetingState["status"]): MeetingState =>
+  ({ issueID, date: "2025-05-28", status, updatedAt: "t" });
+
+describe("runState", () => {
+  test("runCounts treats in-flight meetings as pending", () => {
+    expect(runCounts([state("a", "stored"), state("b", "failed"), state("c", "chunked"), state("d", "pending"), state("e", "review")], 2))
+      .toEqual({ total: 7, groups: 3, stored: 1, failed: 1, review: 1, skipped: 2, pending: 2 });
+  });
+
+  test("run records are indexed on GSI1 and listed newest first", async () => {
+    const { cfg, sent } = fakeDoc();
+    await createRun(cfg, { runId: "r1", startedAt: "2025-05-28T00:00:00.000Z", eventSource: "apigw", filters: {}, status: "queued" });
+    expect(sent[0].Item).toMatchObject({ PK: "RUN#r1", SK: "META", GSI1PK: "RUN", GSI1SK: "2025-05-28T00:00:00.000Z", status: "queued" });
+
+    const { runs } = await listRuns(cfg, { status: "completed", limit: 5 });
+    expect(sent[1]).toMatchObject({
+      IndexName: "ArticleByDate",
+      ExpressionAttributeValues: { ":pk": "RUN", ":status": "completed" },
+      ScanIndexForward: false,
+      Limit: 5,
+    });
+    expect(runs).toEqual([{ runId: "r1", status: "completed" }]);
+  });
+
+  test("runs with failures are listed within a date range", async () => {
+    const { cfg, sent } = fakeDoc();
+    await listRuns(cfg, { since: "2025-05-19", until: "2025-05-25", hasFailures: true });
+    expect(sent[0].KeyConditionExpression).toBe("GSI1PK = :pk AND GSI1SK BETWEEN :since AND :until");
+    expect(sent[0].FilterExpression).toBe("(#status = :failed OR counts.failed > :zero)");
+    expect(sent[0].ExpressionAttributeValues).toMatchObject({ ":since": "2025-05-19", ":failed": "failed", ":zero": 0 });
+    // the whole `until` day is included
+    expect("2025-05-25T23:59:59.999Z" < sent[0].ExpressionAttributeValues[":until"]).toBe(true);
+    expect("2025-05-26T00:00:00.000Z" < sent[0].ExpressionAttributeValues[":until"]).toBe(false);
+  });
+
+  test("finished meetings are indexed by outcome; resumed ones drop the index and the old error", async () => {
+    const { cfg, sent } = fakeDoc();
+    await setMeetingStatus(cfg, "r1", "M1", "failed", { stage: "storeData", error: { message: "ddb down" } });
+    const failed = sent[0];
+    const set = (i: any) => Object.fromEntries(Object.entries(i.ExpressionAttributeNames as Record<string, string>)
+      .filter(([k]) => k.startsWith("#k")).map(([k, name]) => [name, i.ExpressionAttributeValues[`:v${k.slice(2)}`]]));
+    expect(set(failed)).toMatchObject({ status: "failed", runId: "r1", stage: "storeData", GSI1PK: "RUN_MEETING#failed" });
+    expect(set(failed).GSI1SK).toBe(set(failed).updatedAt);
+    expect(failed.UpdateExpression).not.toContain("REMOVE");
+
+    await setMeetingStatus(cfg, "r1", "M1", "chunked");
+    expect(sent[1].UpdateExpression).toMatch(/ REMOVE #r0, #r1, #r2, #r3$/);
+    expect(Object.values(sent[1].ExpressionAttributeNames)).toEqual(expect.arrayContaining(["GSI1PK", "GSI1SK", "error", "stage"]));
+
+    const { results } = await listRecentFailures(cfg, { since: "2025-05-19" });
+    expect(sent[2]).toMatchObject({ IndexName: "ArticleByDate", ExpressionAttributeValues: { ":pk": "RUN_MEETING#failed" } });
+    expect(results[0]).not.toHaveProperty("GSI1PK");
+  });
+
+  test("resume claims the run only while it is unchanged since it was read", async () => {
+    const { cfg, sent } = fakeDoc();
+    const run = { runId: "r1", status: "running" as const, updatedAt: "2025-05-28T00:00:00.000Z" };
+    await expect(claimRunForResume(cfg, run)).resolves.toBe(true);
+    expect(sent[0].ConditionExpression).toBe("#status = :seenStatus AND updatedAt = :seenUpdatedAt");
+    expect(sent[0].ExpressionAttributeValues).toMatchObject({
+      ":queued": "queued", ":seenStatus": "running", ":seenUpdatedAt": "2025-05-28T00:00:00.000Z",
+    });
+
+    const lost = Object.assign(new Error("The conditional request failed"), { name: "ConditionalCheckFailedException" });
+    (cfg.doc.send as jest.Mock).mockRejectedValueOnce(lost);
+    await expect(claimRunForResume(cfg, run)).resolves.toBe(false);
+  });
+
+  test("only the first consumer to close a run gets true", async () => {
+    const { cfg, sent } = fakeDoc();
+    await expect(closeRun(cfg, "r1", { finishedAt: "2025-05-28T01:00:00.000Z" })).resolves.toBe(true);
+    expect(sent[0].ConditionExpression).toBe("#status <> :completed");
+    expect(Object.values(sent[0].ExpressionAttributeValues)).toEqual(expect.arrayContaining(["completed", "2025-05-28T01:00:00.000Z"]));
+
+    const lost = Object.assign(new Error("The conditional request failed"), { name: "ConditionalCheckFailedException" });
+    (cfg.doc.send as jest.Mock).mockRejectedValueOnce(lost);
+    await expect(closeRun(cfg, "r1", { finishedAt: "2025-05-28T01:00:00.000Z" })).resolves.toBe(false);
+  });
+
+  test("a run that failed before it was recorded still gets a listable record", async () => {
+    const { cfg, sent } = fakeDoc();
+    await failRun(cfg, { runId: "r2", startedAt: "2025-05-28T00:00:00.000Z", eventSource: "aws.events", error: { message: "boom" } });
+    expect(sent[0].Key).toEqual({ PK: "RUN#r2", SK: "META" });
+    expect(sent[0].UpdateExpression).toContain("GSI1PK = if_not_exists(GSI1PK, :type)");
+    expect(sent[0].ExpressionAttributeValues).toMatchObject({ ":failed": "failed", ":type": "RUN", ":error": { message: "boom" } });
+  });
+
+  test("a requeued meeting starts over: reduce result and chunk checkpoints are dropped", async () => {
+    const { cfg, sent } = fakeDoc();
+    await setMeetingStatus(cfg, "r1", "M1", "review", { articleKey: "runs/r1/review-M1.json" });
+    expect(Object.values(sent[0].ExpressionAttributeValues))
+      .toEqual(expect.arrayContaining(["review", "runs/r1/review-M1.json", "RUN_MEETING#review"]));
+
+    await setMeetingStatus(cfg, "r1", "M1", "pending", { requeues: 1 });
+    expect(Object.values(sent[1].ExpressionAttributeNames)).toEqual(expect.arrayContaining(["requeues", "reduce", "GSI1PK"]));
+
+    const chunks = [0, 1].map((i) => ({ PK: "RUN#r1", SK: `CHUNK#M1#00${i}` }));
+    const deleted: any[] = [];
+    const prefixes: string[] = [];
+    const doc = {
+      send: jest.fn(async (cmd: any) => {
+        if (cmd.input.KeyConditionExpression) {
+          prefixes.push(cmd.input.ExpressionAttributeValues[":sk"]);
+          return { Items: chunks };
+        }
+        deleted.push(cmd.input.Key);
+        return {};
+      }),
+    } as unknown as DynamoDBDocumentClient;
+    await expect(clearChunkCheckpoints({ doc, table_name: "politopics" }, "r1", "M1")).resolves.toBe(2);
+    expect(deleted).toEqual(chunks);
+    // Chunk items have their own prefix, so meeting listings ("MEETING#") never read them
+    expect(prefixes).toEqual(["CHUNK#M1#"]);
+  });
+});
@@ -0,0 +1,464 @@
+// Run checkpoints and run history in the single table.
+//
+// Item shapes
+// -----------
+// - Run record (one per run):
+//     PK = "RUN#<runId>", SK = "META"
+//     status, filters, options, counts, usage, summary, error, timestamps
+//     payloadKey: S3 key of the invocation payload when it is too large to keep inline
+//     GSI1PK = "RUN", GSI1SK = startedAt  (ArticleByDate is overloaded to list recent runs)
+//
+// - Per-meeting state / result (one per meeting in the run):
+//     PK = "RUN#<runId>", SK = "MEETING#<issueID>"
+//     status: pending -> chunked -> reduced -> stored  (or failed / review)
+//       retrying: a queue delivery failed and SQS will deliver the meeting again
+//     reduce: ReduceLLMResult once the reduce tree has finished
+//     usage: LLM usage summary once stored
+//     error / stage: why and where the meeting failed (or its last delivery, while retrying)
+//     attempts: SQS receive count of the last delivery that failed
+//     quality: quality gate result; articleKey: S3 key of an article held for review
+//     requeues: times the quality gate sent the meeting back to pending
+//     GSI1PK = "RUN_MEETING#stored" | "RUN_MEETING#failed" | "RUN_MEETING#review", GSI1SK = finishedAt
+//       (set once the meeting is finished, so failures and reviews can be listed across runs by date)
+//
+// - Per-chunk result (written as each chunk LLM call succeeds):
+//     PK = "RUN#<runId>", SK = "CHUNK#<issueID>#<000>"
+//     (own prefix, so listing a run's meetings by "MEETING#" never reads chunk items)
+//     orders: dialog orders of the chunk (to detect re-chunking on resume)
+//     validation: schema validation outcome of the chunk output
+//
+// A resumed run reloads these to skip finished meetings and finished chunks.
+
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  DeleteCommand,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand,
+} from "@aws-sdk/lib-dynamodb";
+
+import type { UsageSummary } from "@llm/usage";
+import type { ObjectValidation } from "@llm/repair";
+import type { ArticleQuality } from "@LLMSummarize/quality";
+
+import type { Cfg } from "./storeData";
+
+export type RunStatus = "queued" | "running" | "incomplete" | "completed" | "failed";
+export const RUN_STATUSES: RunStatus[] = ["queued", "running", "incomplete", "completed", "failed"];
+export type MeetingStatus = "pending" | "chunked" | "reduced" | "retrying" | "stored" | "failed" | "review";
+
+/** Statuses a meeting finishes in (indexed for listing across runs). */
+export type FinishedMeetingStatus = "stored" | "failed" | "review";
+
+export interface RunRecord {
+  runId: string;
+  status: RunStatus;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  eventSource: string;
+  filters: Record<string, unknown>;
+  options?: Record<string, unknown>;
+  counts?: RunCounts;
+  usage?: UsageSummary;  // LLM usage summed over the run's stored meetings
+  summary?: RunSummary;
+  payloadKey?: string;   // full payload of the first invocation, when too large for the item
+  error?: { message: string; name?: string; stack?: string };
+}
+
+/** What the first invocation of a run fetched and decided (the rest lives in the meeting items). */
+export interface RunSummary {
+  mode: string;
+  source: string;
+  fetched: number;
+  archived: number;
+  numberOfRecords: number;
+  enqueued?: number;
+  concurrency: number;
+  skippedIds?: string[];  // unchanged since last stored (dropped when offloaded to payloadKey)
+  warnings: number;       // validation warnings
+  quarantined?: Array<{ index: number; issueID?: string; reasons: string[] }>;
+  quarantinedKey?: string; // S3 key of the quarantined raw records
+  archiveFailures?: number;
+}
+
+export interface RunCounts {
+  total: number;    // meetings selected + skipped
+  groups: number;   // meetings processed so far (stored + failed + review)
+  stored: number;
+  failed: number;
+  review: number;   // held by the quality gate
+  skipped: number;  // unchanged since last stored
+  pending: number;  // not finished yet (pending / chunked / reduced / retrying)
+}
+
+export interface MeetingState {
+  issueID: string;
+  date: string;
+  status: MeetingStatus;
+  updatedAt: string;
+  articleId?: string;
+  reduce?: unknown;
+  usage?: UsageSummary;  // LLM usage of the invocation that stored the meeting
+  nonJsonOutputs?: number;
+  stage?: string;        // where a failed meeting stopped (loadMeetingRecord, processMeeting, storeData, enqueue)
+  error?: { message: string; name?: string; stack?: string };
+  attempts?: number;     // SQS receive count of the last failed delivery
+  quality?: ArticleQuality;
+  articleKey?: string;   // held article (review), written with putRunPayload
+  requeues?: number;
+}
+
+/** A finished meeting as listed across runs. */
+export type MeetingResult = MeetingState & { runId: string };
+
+/** Inclusive date range on ISO timestamps; `since` / `until` may be dates or full timestamps. */
+export type DateRange = { since?: string; until?: string };
+
+export interface ChunkCheckpoint<T = unknown> {
+  index: number;
+  orders: number[];
+  result: T;
+  validation?: ObjectValidation;
+}
+
+// ==========================
+// Key helpers
+// ==========================
+const runPK = (runId: string) => `RUN#${runId}`;
+const runSK = "META";
+const meetingSK = (issueID: string) => `MEETING#${issueID}`;
+const chunkPrefix = (issueID: string) => `CHUNK#${issueID}#`;
+const chunkSK = (issueID: string, index: number) => `${chunkPrefix(issueID)}${String(index).padStart(3, "0")}`;
+const meetingResultPK = (status: FinishedMeetingStatus) => `RUN_MEETING#${status}`;
+
+const nowIso = () => new Date().toISOString();
+
+/** Query every item under one PK with an SK prefix (follows LastEvaluatedKey). */
+async function queryAll(doc: DynamoDBDocumentClient, TableName: string, pk: string, skPrefix: string) {
+  const items: Record<string, any>[] = [];
+  let startKey: Record<string, any> | undefined;
+  do {
+    const res = await doc.send(new QueryCommand({
+      TableName,
+      KeyConditionExpression: "PK = :pk AND begins_with(SK, :sk)",
+      ExpressionAttributeValues: { ":pk": pk, ":sk": skPrefix },
+      ExclusiveStartKey: startKey,
+    }));
+    items.push(...(res.Items ?? []));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/** GSI1SK bounds for a date range; `until` covers every timestamp it prefixes. */
+const rangeValues = ({ since, until }: DateRange) => ({ ":since": since ?? "0000", ":until": `${until ?? "9999"}\uffff` });
+
+// ==========================
+// Run record
+// ==========================
+export async function createRun(cfg: Cfg, run: Omit<RunRecord, "updatedAt" | "status"> & { status?: RunStatus }) {
+  const item = { ...run, status: run.status ?? "running", updatedAt: nowIso() };
+  await cfg.doc.send(new PutCommand({
+    TableName: cfg.table_name,
+    Item: { PK: runPK(run.runId), SK: runSK, type: "RUN", GSI1PK: "RUN", GSI1SK: run.startedAt, ...item },
+  }));
+  return item as RunRecord;
+}
+
+const stripKeys = ({ PK: _pk, SK: _sk, type: _type, GSI1PK: _g1p, GSI1SK: _g1s, ...rest }: Record<string, any>) => rest;
+const toRunRecord = (item: Record<string, any>) => stripKeys(item) as RunRecord;
+const toMeetingState = (item: Record<string, any>) => stripKeys(item) as MeetingState;
+
+export async function getRun(cfg: Cfg, runId: string): Promise<RunRecord | undefined> {
+  const res = await cfg.doc.send(new GetCommand({
+    TableName: cfg.table_name,
+    Key: { PK: runPK(runId), SK: runSK },
+  }));
+  if (!res.Item) return undefined;
+  return toRunRecord(res.Item);
+}
+
+/**
+ * Most recent runs first (via the overloaded ArticleByDate index), optionally
+ * restricted to a startedAt range, a status, or runs with failures (failed as a
+ * whole or with failed meetings). Filters apply after `limit`, like any DynamoDB filter.
+ */
+export async function listRuns(
+  cfg: Cfg,
+  opts: DateRange & { limit?: number; startKey?: Record<string, any>; status?: RunStatus; hasFailures?: boolean } = {}
+) {
+  const filters: string[] = [];
+  const values: Record<string, unknown> = { ":pk": "RUN", ...rangeValues(opts) };
+  if (opts.status) {
+    filters.push("#status = :status");
+    values[":status"] = opts.status;
+  }
+  if (opts.hasFailures) {
+    filters.push("(#status = :failed OR counts.failed > :zero)");
+    Object.assign(values, { ":failed": "failed", ":zero": 0 });
+  }
+  const res = await cfg.doc.send(new QueryCommand({
+    TableName: cfg.table_name,
+    IndexName: "ArticleByDate",
+    KeyConditionExpression: "GSI1PK = :pk AND GSI1SK BETWEEN :since AND :until",
+    ...(filters.length
+      ? { FilterExpression: filters.join(" AND "), ExpressionAttributeNames: { "#status": "status" } }
+      : {}),
+    ExpressionAttributeValues: values,
+    ScanIndexForward: false,
+    Limit: opts.limit ?? 20,
+    ExclusiveStartKey: opts.startKey,
+  }));
+  return { runs: (res.Items ?? []).map(toRunRecord), lastEvaluatedKey: res.LastEvaluatedKey };
+}
+
+/** Patch top-level attributes of the run record (status, counts, finishedAt, ...). */
+export async function updateRun(cfg: Cfg, runId: string, patch: Partial<Omit<RunRecord, "runId">>) {
+  const fields = { ...patch, updatedAt: nowIso() };
+  const entries = Object.entries(fields).filter(([, v]) => v !== undefined);
+  await cfg.doc.send(new UpdateCommand({
+    TableName: cfg.table_name,
+    Key: { PK: runPK(runId), SK: runSK },
+    UpdateExpression: "SET " + entries.map((_, i) => `#k${i} = :v${i}`).join(", "),
+    ExpressionAttributeNames: Object.fromEntries(entries.map(([k], i) => [`#k${i}`, k])),
+    ExpressionAttributeValues: Object.fromEntries(entries.map(([, v], i) => [`:v${i}`, v])),
+  }));
+}
+
+/**
+ * Mark a run completed unless it already is. Queue consumers finishing at the
+ * same time may all try; only the one that returns true closed the run.
+ */
+export async function closeRun(cfg: Cfg, runId: string, patch: Pick<RunRecord, "finishedAt" | "counts" | "usage">) {
+  const fields = { ...patch, status: "completed", updatedAt: nowIso() };
+  const entries = Object.entries(fields).filter(([, v]) => v !== undefined);
+  try {
+    await cfg.doc.send(new UpdateCommand({
+      TableName: cfg.table_name,
+      Key: { PK: runPK(runId), SK: runSK },
+      UpdateExpression: "SET " + entries.map((_, i) => `#k${i} = :v${i}`).join(", "),
+      ConditionExpression: "#status <> :completed",
+      ExpressionAttributeNames: { ...Object.fromEntries(entries.map(([k], i) => [`#k${i}`, k])), "#status": "status" },
+      ExpressionAttributeValues: { ...Object.fromEntries(entries.map(([, v], i) => [`:v${i}`, v])), ":completed": "completed" },
+    }));
+    return true;
+  } catch (e) {
+    if ((e as Error)?.name === "ConditionalCheckFailedException") return false;
+    throw e;
+  }
+}
+
+/**
+ * Queue a run for resume in one conditional write: it only succeeds while the
+ * record still has the status / updatedAt the caller judged resumable, so of two
+ * concurrent resume requests only one wins. Returns false when the record changed.
+ */
+export async function claimRunForResume(cfg: Cfg, run: Pick<RunRecord, "runId" | "status" | "updatedAt">) {
+  try {
+    await cfg.doc.send(new UpdateCommand({
+      TableName: cfg.table_name,
+      Key: { PK: runPK(run.runId), SK: runSK },
+      UpdateExpression: "SET #status = :queued, updatedAt = :now",
+      ConditionExpression: "#status = :seenStatus AND updatedAt = :seenUpdatedAt",
+      ExpressionAttributeNames: { "#status": "status" },
+      ExpressionAttributeValues: {
+        ":queued": "queued", ":now": nowIso(), ":seenStatus": run.status, ":seenUpdatedAt": run.updatedAt,
+      },
+    }));
+    return true;
+  } catch (e) {
+    if ((e as Error)?.name === "ConditionalCheckFailedException") return false;
+    throw e;
+  }
+}
+
+/**
+ * Mark a run failed as a whole. Also works when the run failed before its
+ * record was created: the missing attributes and index keys are filled in so
+ * the run still shows up in listRuns.
+ */
+export async function failRun(
+  cfg: Cfg,
+  run: { runId: string; startedAt: string; eventSource: string; error: NonNullable<RunRecord["error"]> }
+) {
+  const now = nowIso();
+  await cfg.doc.send(new UpdateCommand({
+    TableName: cfg.table_name,
+    Key: { PK: runPK(run.runId), SK: runSK },
+    UpdateExpression: [
+      "SET #status = :failed, finishedAt = :now, updatedAt = :now, #error = :error",
+      "runId = if_not_exists(runId, :runId)",
+      "startedAt = if_not_exists(startedAt, :startedAt)",
+      "eventSource = if_not_exists(eventSource, :eventSource)",
+      "filters = if_not_exists(filters, :filters)",
+      "#type = if_not_exists(#type, :type)",
+      "GSI1PK = if_not_exists(GSI1PK, :type)",
+      "GSI1SK = if_not_exists(GSI1SK, :startedAt)",
+    ].join(", "),
+    ExpressionAttributeNames: { "#status": "status", "#error": "error", "#type": "type" },
+    ExpressionAttributeValues: {
+      ":failed": "failed",
+      ":now": now,
+      ":error": run.error,
+      ":runId": run.runId,
+      ":startedAt": run.startedAt,
+      ":eventSource": run.eventSource,
+      ":filters": {},
+      ":type": "RUN",
+    },
+  }));
+}
+
+// ==========================
+// Per-meeting state
+// ==========================
+export async function putMeetingState(cfg: Cfg, runId: string, state: Omit<MeetingState, "updatedAt">) {
+  await cfg.doc.send(new PutCommand({
+    TableName: cfg.table_name,
+    Item: {
+      PK: runPK(runId),
+      SK: meetingSK(state.issueID),
+      type: "RUN_MEETING",
+      runId,
+      ...state,
+      updatedAt: nowIso(),
+    },
+  }));
+}
+
+/** Register meetings as pending, keeping any state already recorded (resume-safe). */
+export async function ensureMeetingsPending(cfg: Cfg, runId: string, meetings: Array<{ issueID: string; date: string }>) {
+  const existing = new Set((await listMeetingStates(cfg, runId)).map((m) => m.issueID));
+  for (const m of meetings) {
+    if (existing.has(m.issueID)) continue;
+    await putMeetingState(cfg, runId, { issueID: m.issueID, date: m.date, status: "pending" });
+  }
+}
+
+/**
+ * Move a meeting to `status`. Finished meetings (stored / failed / review) are
+ * indexed by outcome and finish time; a meeting picked up again loses that index
+ * entry and any earlier failure. Back at pending it also loses its reduce result.
+ * A retrying meeting keeps its error until the next delivery picks it up.
+ */
+export async function setMeetingStatus(
+  cfg: Cfg,
+  runId: string,
+  issueID: string,
+  status: MeetingStatus,
+  extra: Partial<Pick<MeetingState, "articleId" | "reduce" | "usage" | "nonJsonOutputs" | "stage" | "error" | "attempts" | "quality" | "articleKey" | "requeues">> = {}
+) {
+  const updatedAt = nowIso();
+  const finished = status === "stored" || status === "failed" || status === "review";
+  const fields: Record<string, unknown> = {
+    status, updatedAt, runId, ...extra,
+    ...(finished ? { GSI1PK: meetingResultPK(status), GSI1SK: updatedAt } : {}),
+  };
+  const entries = Object.entries(fields).filter(([, v]) => v !== undefined);
+  const removed = [
+    ...(finished ? [] : ["GSI1PK", "GSI1SK"]),
+    ...(status === "failed" || status === "retrying" ? [] : ["error", "stage"]),
+    ...(status === "pending" ? ["reduce"] : []),
+  ].filter((k) => !(k in fields));
+  await cfg.doc.send(new UpdateCommand({
+    TableName: cfg.table_name,
+    Key: { PK: runPK(runId), SK: meetingSK(issueID) },
+    UpdateExpression: "SET " + entries.map((_, i) => `#k${i} = :v${i}`).join(", ") +
+      (removed.length ? " REMOVE " + removed.map((_, i) => `#r${i}`).join(", ") : ""),
+    ExpressionAttributeNames: {
+      ...Object.fromEntries(entries.map(([k], i) => [`#k${i}`, k])),
+      ...Object.fromEntries(removed.map((k, i) => [`#r${i}`, k])),
+    },
+    ExpressionAttributeValues: Object.fromEntries(entries.map(([, v], i) => [`:v${i}`, v])),
+  }));
+}
+
+export async function getMeetingState(cfg: Cfg, runId: string, issueID: string): Promise<MeetingState | undefined> {
+  const res = await cfg.doc.send(new GetCommand({
+    TableName: cfg.table_name,
+    Key: { PK: runPK(runId), SK: meetingSK(issueID) },
+  }));
+  if (!res.Item) return undefined;
+  return toMeetingState(res.Item);
+}
+
+/** Counts derived from meeting states; in-flight meetings count as pending. */
+export function runCounts(states: MeetingState[], skipped = 0): RunCounts {
+  const stored = states.filter((m) => m.status === "stored").length;
+  const failed = states.filter((m) => m.status === "failed").length;
+  const review = states.filter((m) => m.status === "review").length;
+  return {
+    total: states.length + skipped,
+    groups: stored + failed + review,
+    stored,
+    failed,
+    review,
+    skipped,
+    pending: states.length - stored - failed - review,
+  };
+}
+
+/** All meeting states of a run (chunk items excluded). */
+export async function listMeetingStates(cfg: Cfg, runId: string): Promise<MeetingState[]> {
+  const items = await queryAll(cfg.doc, cfg.table_name, runPK(runId), "MEETING#");
+  return items.map(toMeetingState);
+}
+
+/** Finished meetings across runs, most recent first, optionally within a finish-time range. */
+export async function listMeetingResults(
+  cfg: Cfg,
+  status: FinishedMeetingStatus,
+  opts: DateRange & { limit?: number; startKey?: Record<string, any> } = {}
+) {
+  const res = await cfg.doc.send(new QueryCommand({
+    TableName: cfg.table_name,
+    IndexName: "ArticleByDate",
+    KeyConditionExpression: "GSI1PK = :pk AND GSI1SK BETWEEN :since AND :until",
+    ExpressionAttributeValues: { ":pk": meetingResultPK(status), ...rangeValues(opts) },
+    ScanIndexForward: false,
+    Limit: opts.limit ?? 50,
+    ExclusiveStartKey: opts.startKey,
+  }));
+  return { results: (res.Items ?? []).map((i) => toMeetingState(i) as MeetingResult), lastEvaluatedKey: res.LastEvaluatedKey };
+}
+
+/** Failed meetings across runs, most recent first ("what failed last week?"). */
+export const listRecentFailures = (cfg: Cfg, opts: Parameters<typeof listMeetingResults>[2] = {}) =>
+  listMeetingResults(cfg, "failed", opts);
+
+/** Meetings held by the quality gate across runs, most recent first. */
+export const listRecentReviews = (cfg: Cfg, opts: Parameters<typeof listMeetingResults>[2] = {}) =>
+  listMeetingResults(cfg, "review", opts);
+
+// ==========================
+// Chunk checkpoints
+// ==========================
+export async function saveChunkCheckpoint<T>(cfg: Cfg, runId: string, issueID: string, chunk: ChunkCheckpoint<T>) {
+  await cfg.doc.send(new PutCommand({
+    TableName: cfg.table_name,
+    Item: {
+      PK: runPK(runId),
+      SK: chunkSK(issueID, chunk.index),
+      type: "RUN_CHUNK",
+      issueID,
+      ...chunk,
+      updatedAt: nowIso(),
+    },
+  }));
+}
+
+export async function loadChunkCheckpoints<T>(cfg: Cfg, runId: string, issueID: string): Promise<ChunkCheckpoint<T>[]> {
+  const items = await queryAll(cfg.doc, cfg.table_name, runPK(runId), chunkPrefix(issueID));
+  return items.map((i) => ({ index: i.index, orders: i.orders ?? [], result: i.result as T, validation: i.validation }));
+}
+
+/** Drop a meeting's chunk checkpoints so its next attempt summarizes from scratch. */
+export async function clearChunkCheckpoints(cfg: Cfg, runId: string, issueID: string) {
+  const items = await queryAll(cfg.doc, cfg.table_name, runPK(runId), chunkPrefix(issueID));
+  for (const i of items) {
+    await cfg.doc.send(new DeleteCommand({ TableName: cfg.table_name, Key: { PK: i.PK, SK: i.SK } }));
+  }
+  return items.length;
+}
@@ -0,0 +1,43 @@
+import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+import storeData, { type Article } from "@DynamoDBHandler/storeData";
+
+function fakeDoc() {
+  const sent: any[] = [];
+  const doc = {
+    send: jest.fn(async (cmd: any) => {
+      sent.push(cmd.input);
+      return {};
+    }),
+  } as unknown as DynamoDBDocumentClient;
+  return { cfg: { doc, table_name: "politopics" }, sent };
+}
+
+const article = {
+  id: "M1", title: "t", date: "2025-05-28", month: "2025-05", imageKind: "会議録", session: 217,
+  nameOfHouse: "衆議院", nameOfMeeting: "本会議", categories: [], description: "",
+  summary: {}, soft_summary: {}, middle_summary: [], dialogs: [], participants: [], keywords: [], terms: [],
+} as Article;
+
+describe("storeData", () => {
+  test("keeps diagnostics off the main item and stores their compact summary", async () => {
+    const { cfg, sent } = fakeDoc();
+    const diagnostics = {
+      key: "runs/r1/diagnostics-M1.json", nonJsonOutputs: 1, invalidOutputs: 0, totalTokens: 1200,
+      grounding: { checked: 2, flagged: 1, ungrounded: ["summary"] },
+    };
+    await storeData(cfg, {
+      ...article,
+      raw_outputs: [{ phase: "chunk", text: "x".repeat(100_000) }],
+      validation: { chunks: [], reduce: [] },
+      usage: { total: { calls: 3 } },
+      quality: { score: 0.9, verdict: "store", checks: {}, issues: [] },
+      grounding: { summaries: [], flagged: 1 },
+      diagnostics,
+    } as Article);
+
+    const item = sent[0].Item;
+    expect(item).toMatchObject({ PK: "A#M1", SK: "META", title: "t", diagnostics });
+    for (const field of ["raw_outputs", "validation", "usage", "quality", "grounding"]) expect(item).not.toHaveProperty(field);
+  });
+});
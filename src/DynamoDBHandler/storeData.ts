@@ -5,6 +5,8 @@
 // - Main item (one per article):
 //     PK = "A#<id>", SK = "META"
 //     Holds heavy attributes (dialogs, summaries, etc.).
+//     Diagnostics (DIAGNOSTIC_FIELDS) stay off it: on long meetings they can push the
+//     item past the 400 KB limit. Callers keep them elsewhere and store a compact summary.
 //
 // - Thin index items (for fast listing by facets):
 //     PK in { CATEGORY#<category>, PERSON#<name>, KEYWORD#<kw>,
@@ -35,6 +37,8 @@ import {
   GetCommand,
 } from "@aws-sdk/lib-dynamodb";
 
+import { tracer } from "@utils/tracing";
+
 // ---- Minimal self-contained types (replace with your project types if available) ----
 export type Summary = unknown;
 export type SoftSummary = unknown;
@@ -145,25 +149,38 @@ async function batchPutAll(
   table: string,
   items: any[]
 ) {
-  let i = 0;
-  while (i < items.length) {
-    const slice = items.slice(i, i + 25).map((Item) => ({ PutRequest: { Item } }));
-    const res = await doc.send(
-      new BatchWriteCommand({ RequestItems: { [table]: slice } })
-    );
-
-    const unp = res.UnprocessedItems?.[table] ?? [];
-    if (unp.length > 0) {
-      // naive backoff + requeue unprocessed items into the current window
-      await new Promise((r) => setTimeout(r, 200));
-      const retryItems = unp.map((u) => u.PutRequest!.Item);
-      items.splice(i, 0, ...retryItems);
-    } else {
-      i += 25;
+  await tracer.withSpan("dynamodb.batchPutAll", { table, items: items.length }, async (span) => {
+    let i = 0;
+    let requests = 0;
+    let unprocessed = 0;
+    while (i < items.length) {
+      const slice = items.slice(i, i + 25).map((Item) => ({ PutRequest: { Item } }));
+      const res = await doc.send(
+        new BatchWriteCommand({ RequestItems: { [table]: slice } })
+      );
+      requests++;
+
+      const unp = res.UnprocessedItems?.[table] ?? [];
+      if (unp.length > 0) {
+        // naive backoff + requeue unprocessed items into the current window
+        unprocessed += unp.length;
+        await new Promise((r) => setTimeout(r, 200));
+        const retryItems = unp.map((u) => u.PutRequest!.Item);
+        items.splice(i, 0, ...retryItems);
+      } else {
+        i += 25;
+      }
     }
-  }
+    span.setAttributes({ requests, unprocessed });
+  });
 }
 
+/** Per-article diagnostics never written to the main item (see the header). */
+export const DIAGNOSTIC_FIELDS = ["raw_outputs", "validation", "usage", "quality", "grounding"] as const;
+
+const withoutDiagnostics = (article: Article) =>
+  Object.fromEntries(Object.entries(article).filter(([k]) => !(DIAGNOSTIC_FIELDS as readonly string[]).includes(k)));
+
 // ==========================
 // Store: main item + thin index items
 // ==========================
@@ -186,7 +203,7 @@ export default async function storeData(
 
   // ---- Main item (heavy fields kept here)
   const mainItem = {
-    ...article,            // keep original fields (will be overridden below)
+    ...withoutDiagnostics(article), // keep original fields (will be overridden below)
     date: iso,             // enforce ISO UTC
     month: monthNorm,      // align month with normalized date
     PK: artPK(article.id),
@@ -323,9 +340,9 @@ export async function getArticleById(cfg: Cfg, id: string) {
 // ==========================
 // Query helpers (per facet)
 // ==========================
-type QueryOpts = { limit?: number; startKey?: any };
+export type QueryOpts = { limit?: number; startKey?: any };
 
-const qByPk = (cfg: Cfg, pk: string, opts?: QueryOpts) =>
+export const qByPk = (cfg: Cfg, pk: string, opts?: QueryOpts) =>
   cfg.doc.send(
     new QueryCommand({
       TableName: cfg.table_name,
@@ -336,3 +353,46 @@ const qByPk = (cfg: Cfg, pk: string, opts?: QueryOpts) =>
       ExclusiveStartKey: opts?.startKey,
     })
   );
+
+export type Facet = "category" | "person" | "keyword" | "session" | "house" | "meeting";
+
+const facetKeys: Record<Facet, (v: string) => string> = {
+  category: catKey,
+  person: personKey,
+  keyword: kwKey,
+  session: sessionKey,
+  house: houseKey,
+  meeting: meetingKey,
+};
+
+/** Thin index items of one facet value (newest first). */
+export const queryFacet = (cfg: Cfg, facet: Facet, value: string, opts?: QueryOpts) =>
+  qByPk(cfg, facetKeys[facet](value), opts);
+
+/** Articles of one month via MonthDateIndex (newest first). `month` is "YYYY-MM". */
+export const queryByMonth = (cfg: Cfg, month: string, opts?: QueryOpts) =>
+  cfg.doc.send(
+    new QueryCommand({
+      TableName: cfg.table_name,
+      IndexName: "MonthDateIndex",
+      KeyConditionExpression: "GSI2PK = :pk",
+      ExpressionAttributeValues: { ":pk": `Y#${yOf(month)}#M#${mOf(month)}` },
+      ScanIndexForward: false,
+      Limit: opts?.limit ?? 20,
+      ExclusiveStartKey: opts?.startKey,
+    })
+  );
+
+/** Latest articles across all months via ArticleByDate. */
+export const queryRecentArticles = (cfg: Cfg, opts?: QueryOpts) =>
+  cfg.doc.send(
+    new QueryCommand({
+      TableName: cfg.table_name,
+      IndexName: "ArticleByDate",
+      KeyConditionExpression: "GSI1PK = :pk",
+      ExpressionAttributeValues: { ":pk": "ARTICLE" },
+      ScanIndexForward: false,
+      Limit: opts?.limit ?? 20,
+      ExclusiveStartKey: opts?.startKey,
+    })
+  );
@@ -0,0 +1,118 @@
+import type { LLMClient, Message } from "@llm/LLMClient";
+import type { RawMeetingRecord } from "@interfaces/Raw";
+import { processMeeting, type ChunkCheckpointEntry, type ChunkLLMResult, type MeetingCheckpoint, type ReduceLLMResult } from "@LLMSummarize/pipeline";
+import { chunkSchema } from "@LLMSummarize/schema";
+import { createLogger } from "@utils/logger";
+import { InMemoryMetrics } from "@utils/metrics";
+
+function meeting(): RawMeetingRecord {
+  const speech = (order: number) => ({
+    speechID: `M1_${order}`, speechOrder: order, speaker: `議員${order}`, speakerYomi: null,
+    speakerGroup: null, speakerPosition: null, speakerRole: null, speech: "あ".repeat(200),
+    startPage: 0, createTime: "2025-05-28 10:00:00", updateTime: "2025-05-28 10:00:00", speechURL: "",
+  });
+  return {
+    issueID: "M1", imageKind: "会議録", searchObject: 0, session: 217, nameOfHouse: "衆議院",
+    nameOfMeeting: "本会議", issue: "第1号", date: "2025-05-28", closing: null,
+    speechRecord: [speech(1), speech(2), speech(3)],
+  } as unknown as RawMeetingRecord;
+}
+
+/** Fake LLM: answers chunk / reduce prompts deterministically and counts calls. */
+function fakeLlm() {
+  const calls = { chunk: 0, reduce: 0 };
+  const llm: LLMClient = {
+    name: "fake",
+    async generate() { return { text: "" }; },
+    async *stream() { /* unused */ },
+    async generateObject<T>(_messages: Message[], schema: object) {
+      if (schema === chunkSchema) {
+        calls.chunk++;
+        const result: ChunkLLMResult = {
+          categories: ["経済"],
+          middle_summary: { based_on_orders: [], summary: `chunk ${calls.chunk}` },
+        };
+        return { object: result as T };
+      }
+      calls.reduce++;
+      const result: ReduceLLMResult = {
+        title: "title", categories: ["経済"],
+        summary: { based_on_orders: [1], summary: "s" },
+        soft_summary: { based_on_orders: [1], summary: "s" },
+      };
+      return { object: result as T };
+    },
+  };
+  return { llm, calls };
+}
+
+function memoryCheckpoint() {
+  const chunks = new Map<number, ChunkCheckpointEntry>();
+  let reduce: ReduceLLMResult | undefined;
+  const checkpoint: MeetingCheckpoint = {
+    loadChunks: async () => [...chunks.values()],
+    saveChunk: async (entry) => { chunks.set(entry.index, entry); },
+    loadReduce: async () => reduce,
+    saveReduce: async (r) => { reduce = r; },
+  };
+  return { checkpoint, chunks, clearReduce: () => { reduce = undefined; } };
+}
+
+const base = { instruction: "i", output_format: "o", charThreshold: 250 };
+
+describe("processMeeting checkpoints", () => {
+  test("resumes from saved chunks and reduce without new LLM calls", async () => {
+    const store = memoryCheckpoint();
+    const first = fakeLlm();
+    const a = await processMeeting({ ...base, raw: meeting(), llm: first.llm, checkpoint: store.checkpoint });
+    expect(first.calls).toEqual({ chunk: 3, reduce: 1 });
+    expect(store.chunks.size).toBe(3);
+
+    const second = fakeLlm();
+    const b = await processMeeting({ ...base, raw: meeting(), llm: second.llm, checkpoint: store.checkpoint });
+    expect(second.calls).toEqual({ chunk: 0, reduce: 0 });
+    expect(b.middle_summary).toEqual(a.middle_summary);
+    expect(b.title).toBe(a.title);
+
+    // Usage only covers calls made by each attempt
+    expect(Object.keys(a.usage.byPhase)).toEqual(["chunk", "reduce:1"]);
+    expect(a.usage.total.calls).toBe(4);
+    expect(b.usage.total.calls).toBe(0);
+
+    // Validation status is recorded per chunk and carried through the checkpoint
+    expect(a.validation?.chunks.map((c) => c.status)).toEqual(["valid", "valid", "valid"]);
+    expect(b.validation?.chunks[0]).toEqual({ index: 0, status: "valid", attempts: 1, resumed: true });
+  });
+
+  test("recomputes chunks whose dialog orders changed (re-chunked)", async () => {
+    const store = memoryCheckpoint();
+    await processMeeting({ ...base, raw: meeting(), llm: fakeLlm().llm, checkpoint: store.checkpoint });
+    store.chunks.set(1, { ...store.chunks.get(1)!, orders: [99] });
+    store.clearReduce();
+
+    const again = fakeLlm();
+    const metrics = new InMemoryMetrics();
+    await processMeeting({ ...base, raw: meeting(), llm: again.llm, checkpoint: store.checkpoint, metrics });
+    expect(again.calls).toEqual({ chunk: 1, reduce: 1 });
+    expect(metrics.sum("Chunks")).toBe(3);
+    expect(metrics.sum("ChunksResumed")).toBe(2);
+    expect(metrics.sum("NonJsonChunks")).toBe(0);
+  });
+
+  test("checkpoint failures do not fail the meeting", async () => {
+    const failing: MeetingCheckpoint = {
+      loadChunks: async () => { throw new Error("ddb down"); },
+      saveChunk: async () => { throw new Error("ddb down"); },
+      saveReduce: async () => { throw new Error("ddb down"); },
+    };
+    const lines: string[] = [];
+    const logger = createLogger({ level: "warn", sink: (line) => lines.push(line), context: { runId: "R1" } });
+    const { llm, calls } = fakeLlm();
+    const article = await processMeeting({ ...base, raw: meeting(), llm, checkpoint: failing, logger });
+    expect(article.id).toBe("M1");
+    expect(calls).toEqual({ chunk: 3, reduce: 1 });
+    const warnings = lines.map((l) => JSON.parse(l));
+    expect(warnings.length).toBeGreaterThan(0);
+    expect(warnings.every((w) => w.level === "warn" && w.runId === "R1" && w.meetingId === "M1")).toBe(true);
+  });
+});
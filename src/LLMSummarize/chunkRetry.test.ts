@@ -0,0 +1,110 @@
+import type { LLMClient, Message } from "@llm/LLMClient";
+import type { RawMeetingRecord } from "@interfaces/Raw";
+import { processMeeting, type ChunkCheckpointEntry, type ChunkLLMResult, type ReduceLLMResult } from "@LLMSummarize/pipeline";
+import { chunkSchema } from "@LLMSummarize/schema";
+import { createLogger } from "@utils/logger";
+import { InMemoryMetrics } from "@utils/metrics";
+
+function meeting(): RawMeetingRecord {
+  const speech = (order: number) => ({
+    speechID: `M1_${order}`, speechOrder: order, speaker: `議員${order}`, speakerYomi: null,
+    speakerGroup: null, speakerPosition: null, speakerRole: null, speech: "あ".repeat(200),
+    startPage: 0, createTime: "2025-05-28 10:00:00", updateTime: "2025-05-28 10:00:00", speechURL: "",
+  });
+  return {
+    issueID: "M1", imageKind: "会議録", searchObject: 0, session: 217, nameOfHouse: "衆議院",
+    nameOfMeeting: "本会議", issue: "第1号", date: "2025-05-28", closing: null,
+    speechRecord: [speech(1), speech(2)],
+  } as unknown as RawMeetingRecord;
+}
+
+type ChunkCall = { speakers: number[]; temperature?: number; model?: string };
+
+/**
+ * Fake LLM whose chunk answers are decided by `answer` (true = valid JSON,
+ * false = non-JSON text); reduce prompts always succeed.
+ */
+function scriptedLlm(name: string, answer: (call: ChunkCall, n: number) => boolean) {
+  const calls: ChunkCall[] = [];
+  const llm: LLMClient = {
+    name,
+    async generate() { return { text: "" }; },
+    async *stream() { /* unused */ },
+    async generateObject<T>(messages: Message[], schema: object, options?: any) {
+      if (schema === chunkSchema) {
+        const text = JSON.stringify(messages);
+        const call: ChunkCall = {
+          speakers: [1, 2].filter((o) => text.includes(`議員${o}`)),
+          temperature: options?.temperature,
+          model: options?.model,
+        };
+        calls.push(call);
+        if (!answer(call, calls.length)) return { object: {} as T, raw: { nonJsonText: "ごめんなさい" } };
+        const result: ChunkLLMResult = {
+          categories: ["経済"],
+          middle_summary: { based_on_orders: call.speakers, summary: `${name} ${call.speakers.join(",")}` },
+        };
+        return { object: result as T };
+      }
+      const result: ReduceLLMResult = {
+        title: "title", categories: ["経済"],
+        summary: { based_on_orders: [1], summary: "s" },
+        soft_summary: { based_on_orders: [1], summary: "s" },
+      };
+      return { object: result as T };
+    },
+  };
+  return { llm, calls };
+}
+
+// One chunk holding both speeches; half the threshold fits one speech per piece
+const base = { raw: meeting(), instruction: "i", output_format: "o", charThreshold: 500 };
+const quiet = createLogger({ level: "error", sink: () => undefined });
+
+describe("processMeeting chunk retries", () => {
+  test("retries a non-JSON chunk at the retry temperature", async () => {
+    const { llm, calls } = scriptedLlm("main", (_c, n) => n > 1);
+    const article = await processMeeting({ ...base, llm, logger: quiet, chunkRetry: { temperature: 0 } });
+    expect(calls.map((c) => c.temperature)).toEqual([0.2, 0]);
+    expect(article.validation?.chunks[0]).toMatchObject({ status: "valid", attempts: 2, recovery: "retry" });
+    expect(article.usage.byPhase["chunk:retry"].calls).toBe(1);
+    expect(article.partial).toBeUndefined();
+  });
+
+  test("re-splits the chunk at half the threshold and merges the pieces", async () => {
+    const { llm, calls } = scriptedLlm("main", (c) => c.speakers.length === 1);
+    const article = await processMeeting({ ...base, llm, logger: quiet, chunkRetry: { split: true } });
+    expect(calls.map((c) => c.speakers)).toEqual([[1, 2], [1, 2], [1], [2]]);
+    expect(article.validation?.chunks[0]).toMatchObject({ recovery: "split", attempts: 4 });
+    expect(article.middle_summary[0]).toEqual({ based_on_orders: [1, 2], summary: "main 1\n\nmain 2" });
+  });
+
+  test("sends pieces that are still unusable to the fallback model", async () => {
+    const main = scriptedLlm("main", () => false);
+    const fallback = scriptedLlm("fallback", () => true);
+    const article = await processMeeting({
+      ...base, llm: main.llm, logger: quiet,
+      chunkRetry: { split: false, fallback: { llm: fallback.llm, model: "backup-model" } },
+    });
+    expect(main.calls).toHaveLength(2);
+    expect(fallback.calls).toEqual([{ speakers: [1, 2], temperature: 0, model: "backup-model" }]);
+    expect(article.validation?.chunks[0].recovery).toBe("fallback");
+    expect(article.usage.byModel["backup-model"].calls).toBe(1);
+  });
+
+  test("marks the article partial when every step fails", async () => {
+    const { llm } = scriptedLlm("main", () => false);
+    const saved: ChunkCheckpointEntry[] = [];
+    const metrics = new InMemoryMetrics();
+    const article = await processMeeting({
+      ...base, llm, logger: quiet, metrics,
+      checkpoint: { saveChunk: async (e) => { saved.push(e); } },
+    });
+    expect(article.partial).toBe(true);
+    expect(article.failedOrders).toEqual([1, 2]);
+    expect(article.validation?.chunks[0]).toMatchObject({ status: "non_json", recovery: "failed" });
+    expect(saved).toEqual([]);
+    expect(metrics.sum("PartialArticles")).toBe(1);
+    expect(metrics.sum("ChunksFailed")).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import type { LLMClient } from "@llm/LLMClient";
+import type { RawMeetingRecord } from "@interfaces/Raw";
+import { estimateMeeting, estimateMeetings, planReduceTree } from "@LLMSummarize/estimate";
+
+function meeting(issueID: string, speeches: number, chars = 200): RawMeetingRecord {
+  const speech = (order: number) => ({
+    speechID: `${issueID}_${order}`, speechOrder: order, speaker: `議員${order}`, speakerYomi: null,
+    speakerGroup: null, speakerPosition: null, speakerRole: null, speech: "あ".repeat(chars),
+    startPage: 0, createTime: "2025-05-28 10:00:00", updateTime: "2025-05-28 10:00:00", speechURL: "",
+  });
+  return {
+    issueID, imageKind: "会議録", searchObject: 0, session: 217, nameOfHouse: "衆議院",
+    nameOfMeeting: "本会議", issue: "第1号", date: "2025-05-28", closing: null,
+    speechRecord: Array.from({ length: speeches }, (_, i) => speech(i + 1)),
+  } as unknown as RawMeetingRecord;
+}
+
+/** LLM that must never be asked to generate; countTokens is optional. */
+function countingLlm(countTokens?: () => Promise<number>): LLMClient {
+  const fail = async () => { throw new Error("dry run must not call the LLM"); };
+  return {
+    name: "fake",
+    generate: fail,
+    async *stream() { await fail(); },
+    generateObject: fail,
+    ...(countTokens ? { countTokens } : {}),
+  };
+}
+
+const opts = { instruction: "指示", output_format: "形式", charThreshold: 500, reduceGroupSize: 2, charsPerToken: 1 };
+
+describe("dry-run estimate", () => {
+  test("plans the reduce tree like processMeeting", () => {
+    expect(planReduceTree(0, 8)).toEqual({ calls: 0, depth: 0, groups: [] });
+    expect(planReduceTree(3, 8)).toMatchObject({ calls: 1, depth: 1 });
+    // 5 -> [2,2,1] -> 3 -> [2,1] -> 2 -> final
+    expect(planReduceTree(5, 2)).toEqual({ calls: 6, depth: 3, groups: [[2, 2, 1], [2, 1], [2]] });
+  });
+
+  test("counts chunks, reduce calls and heuristic tokens without calling the LLM", async () => {
+    // 6 speeches x 200 chars with a 500-char threshold -> 3 chunks of 2
+    const est = await estimateMeeting(meeting("M1", 6), { ...opts, llm: countingLlm() });
+    expect(est).toMatchObject({
+      issueID: "M1", dialogs: 6, chars: 1200, chunks: 3, oversizedChunks: 0,
+      reduceCalls: 3, reduceDepth: 2, llmCalls: 6, tokenSource: "heuristic",
+    });
+    expect(est.inputTokens).toBeGreaterThan(1200);
+    expect(est.outputTokens).toBe(3 * 120 + 3 * 1500);
+  });
+
+  test("uses countTokens when available and sums totals", async () => {
+    const countTokens = jest.fn(async () => 1000);
+    const { meetings, total } = await estimateMeetings(
+      [meeting("M1", 1), meeting("M2", 1, 900)],
+      { ...opts, llm: countingLlm(countTokens) }
+    );
+    expect(meetings.map(m => m.tokenSource)).toEqual(["countTokens", "countTokens"]);
+    expect(meetings[1].oversizedChunks).toBe(1);
+    // per meeting: 1 chunk prompt + 1 reduce overhead (reduce input adds one middle summary)
+    expect(meetings[0].inputTokens).toBe(1000 + 1000 + 500);
+    expect(total).toMatchObject({ meetings: 2, chunks: 2, reduceCalls: 2, llmCalls: 4, maxReduceDepth: 1 });
+    expect(total.totalTokens).toBe(total.inputTokens + total.outputTokens);
+  });
+});
@@ -0,0 +1,166 @@
+// Dry-run cost estimate: the same dialog building and packing as processMeeting,
+// but only counting what the LLM calls would be.
+//
+// - Chunk input tokens come from the real chunk prompts (llm.countTokens when the
+//   client has it, otherwise chars / charsPerToken).
+// - Chunk outputs and reduce prompts depend on LLM output, so they are estimated:
+//   each chunk answers ~chunkOutputRatio of its dialog tokens, each middle summary
+//   is ~middleSummaryTokens, each reduce call answers ~reduceOutputTokens.
+
+import type { RawMeetingRecord } from "@interfaces/Raw";
+import type { LLMClient, Message } from "@llm/LLMClient";
+
+import { buildDialogs, buildMeta, buildChunkMessages, buildReduceMessages } from "./pipeline";
+import { buildOrderLen, packIndexSetsByGreedy, materializeChunks } from "./packing";
+
+export interface EstimateOptions {
+  instruction: string;
+  output_format: string;
+  charThreshold?: number;
+  reduceGroupSize?: number;      // default REDUCE_GROUP_SIZE or 8 (same as processMeeting)
+  llm?: LLMClient;               // countTokens is used when available
+  charsPerToken?: number;        // heuristic fallback, default ESTIMATE_CHARS_PER_TOKEN or 1.5
+  chunkOutputRatio?: number;     // default 0.3
+  middleSummaryTokens?: number;  // default 500
+  reduceOutputTokens?: number;   // default 1500
+}
+
+export interface ReducePlan {
+  calls: number;   // reduce LLM calls
+  depth: number;   // layers of the reduce tree (0 when there is nothing to reduce)
+  groups: number[][]; // group sizes per layer, bottom-up
+}
+
+export interface MeetingEstimate {
+  issueID: string;
+  date: string;
+  nameOfMeeting: string;
+  dialogs: number;
+  chars: number;
+  chunks: number;
+  oversizedChunks: number;
+  reduceCalls: number;
+  reduceDepth: number;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokenSource: "countTokens" | "heuristic";
+}
+
+export interface EstimateTotals {
+  meetings: number;
+  chunks: number;
+  reduceCalls: number;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  maxReduceDepth: number;
+}
+
+/** Shape of the reduce tree processMeeting builds for n middle summaries. */
+export function planReduceTree(n: number, groupSize: number): ReducePlan {
+  const size = Math.max(1, Math.floor(groupSize));
+  if (n <= 0) return { calls: 0, depth: 0, groups: [] };
+
+  const groups: number[][] = [];
+  let layer = n;
+  while (layer > size) {
+    const sizes: number[] = [];
+    for (let left = layer; left > 0; left -= size) sizes.push(Math.min(size, left));
+    groups.push(sizes);
+    layer = sizes.length;
+  }
+  groups.push([layer]); // final reduce
+  return { calls: groups.reduce((acc, g) => acc + g.length, 0), depth: groups.length, groups };
+}
+
+const charsOf = (messages: Message[]) => messages.reduce((acc, m) => acc + m.content.length, 0);
+
+/** Estimate one meeting without calling the LLM (except countTokens). */
+export async function estimateMeeting(raw: RawMeetingRecord, opts: EstimateOptions): Promise<MeetingEstimate> {
+  const charThreshold = opts.charThreshold ?? 10_000;
+  const groupSize = opts.reduceGroupSize ?? Number(process.env.REDUCE_GROUP_SIZE ?? 8);
+  const charsPerToken = opts.charsPerToken ?? Number(process.env.ESTIMATE_CHARS_PER_TOKEN ?? 1.5);
+  const chunkOutputRatio = opts.chunkOutputRatio ?? 0.3;
+  const middleSummaryTokens = opts.middleSummaryTokens ?? 500;
+  const reduceOutputTokens = opts.reduceOutputTokens ?? 1500;
+
+  const meta = buildMeta(raw);
+  const dialogs = buildDialogs(raw);
+  const packs = packIndexSetsByGreedy(buildOrderLen(dialogs), charThreshold);
+  const chunks = materializeChunks(packs, dialogs);
+
+  let tokenSource: MeetingEstimate["tokenSource"] = opts.llm?.countTokens ? "countTokens" : "heuristic";
+  const heuristic = (chars: number) => Math.ceil(chars / charsPerToken);
+  const count = async (messages: Message[]) => {
+    if (tokenSource === "countTokens") {
+      try { return await opts.llm!.countTokens!(messages); }
+      catch { tokenSource = "heuristic"; } // fall back for the rest of the meeting
+    }
+    return heuristic(charsOf(messages));
+  };
+
+  // Chunk calls: real prompts
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (let i = 0; i < chunks.length; i++) {
+    const messages = buildChunkMessages({
+      instruction: opts.instruction, output_format: opts.output_format, meta,
+      chunkDialogs: chunks[i], chunkIndex: i, chunkCount: chunks.length,
+    });
+    inputTokens += await count(messages);
+    outputTokens += Math.ceil(heuristic(packs[i].totalLen) * chunkOutputRatio);
+  }
+
+  // Reduce calls: prompt overhead (counted once) + estimated middle summaries per group
+  const plan = planReduceTree(chunks.length, groupSize);
+  if (plan.calls) {
+    const overhead = await count(buildReduceMessages({
+      instruction: opts.instruction, output_format: opts.output_format, meta, middle_summaries: [],
+    }));
+    for (const layer of plan.groups) {
+      for (const size of layer) inputTokens += overhead + size * middleSummaryTokens;
+    }
+    outputTokens += plan.calls * reduceOutputTokens;
+  }
+
+  return {
+    issueID: raw.issueID,
+    date: raw.date,
+    nameOfMeeting: raw.nameOfMeeting,
+    dialogs: dialogs.length,
+    chars: packs.reduce((acc, p) => acc + p.totalLen, 0),
+    chunks: chunks.length,
+    oversizedChunks: packs.filter((p) => p.oversized).length,
+    reduceCalls: plan.calls,
+    reduceDepth: plan.depth,
+    llmCalls: chunks.length + plan.calls,
+    inputTokens,
+    outputTokens,
+    tokenSource,
+  };
+}
+
+/** Estimate meetings one by one (countTokens calls are rate limited by the client). */
+export async function estimateMeetings(
+  meetings: RawMeetingRecord[],
+  opts: EstimateOptions
+): Promise<{ meetings: MeetingEstimate[]; total: EstimateTotals }> {
+  const estimates: MeetingEstimate[] = [];
+  for (const m of meetings) estimates.push(await estimateMeeting(m, opts));
+
+  const sum = (k: "chunks" | "reduceCalls" | "llmCalls" | "inputTokens" | "outputTokens") =>
+    estimates.reduce((acc, e) => acc + e[k], 0);
+  const total: EstimateTotals = {
+    meetings: estimates.length,
+    chunks: sum("chunks"),
+    reduceCalls: sum("reduceCalls"),
+    llmCalls: sum("llmCalls"),
+    inputTokens: sum("inputTokens"),
+    outputTokens: sum("outputTokens"),
+    totalTokens: sum("inputTokens") + sum("outputTokens"),
+    maxReduceDepth: Math.max(0, ...estimates.map((e) => e.reduceDepth)),
+  };
+  return { meetings: estimates, total };
+}
@@ -0,0 +1,76 @@
+import type { Dialog } from "@interfaces/Article";
+import { groundingTokens, normalizeForGrounding, summarizeGrounding, verifyGrounding } from "@LLMSummarize/grounding";
+
+const dialog = (order: number, original_text: string, speaker = `議員${order}`): Dialog => ({
+  order, speaker, speaker_group: "立憲民主党", speaker_position: "", speaker_role: "",
+  original_text, summary: "", soft_language: "", response_to: [],
+});
+
+const dialogs = [
+  dialog(1, "令和七年度の防衛費は八兆七千億円、前年度比で一〇％増えております。NATO基準に沿った数字です。"),
+  dialog(2, "財務省としては、補正予算で二・五兆円を計上いたしました。", "加藤勝信"),
+];
+
+describe("grounding", () => {
+  test("normalizes kanji numerals, full-width digits and separators", () => {
+    expect(normalizeForGrounding("令和七年度、八兆七千億円、二〇二五年、１２，３４５人、二・五％"))
+      .toBe("令和7年度、8兆7000億円、2025年、12345人、2.5%");
+    expect(groundingTokens("防衛省とNATO、「反撃能力」の2.5兆円と3点")).toEqual({
+      numbers: ["2.5"],
+      names: ["NATO", "反撃能力", "防衛省"],
+    });
+  });
+
+  test("kanji numerals inside ordinary words stay words", () => {
+    expect(normalizeForGrounding("千葉県の百貨店で十分に議論")).toBe("千葉県の百貨店で十分に議論");
+    expect(normalizeForGrounding("一部の千人と二割")).toBe("一部の1000人と2割");
+
+    const report = verifyGrounding({
+      dialogs,
+      summary: { based_on_orders: [1], summary: "千葉県の百貨店で十分に議論した。" },
+      soft_summary: { based_on_orders: [1], summary: "" },
+      middle_summary: [],
+    });
+    expect(report.summaries[0]).toMatchObject({ ungroundedNumbers: [], ungroundedNames: [] });
+  });
+
+  test("summaries citing dialogs that contain their numbers and names are grounded", () => {
+    const report = verifyGrounding({
+      dialogs,
+      summary: { based_on_orders: [1, 2], summary: "防衛費は8兆7000億円（10%増）、NATO基準。財務省の加藤勝信氏は補正予算2.5兆円を説明。" },
+      soft_summary: { based_on_orders: [1], summary: "防衛のお金が増えました。" },
+      middle_summary: [],
+    });
+    expect(report).toEqual({
+      summaries: [
+        { target: "summary", basedOnOrders: [1, 2], unknownOrders: [], ungroundedNumbers: [], ungroundedNames: [], grounded: true },
+        { target: "soft_summary", basedOnOrders: [1], unknownOrders: [], ungroundedNumbers: [], ungroundedNames: [], grounded: true },
+      ],
+      flagged: 0,
+    });
+  });
+
+  test("flags unknown orders and numbers / names missing from the cited dialogs", () => {
+    const report = verifyGrounding({
+      dialogs,
+      summary: { based_on_orders: [1, 9], summary: "防衛費は8兆7000億円。" },
+      soft_summary: { based_on_orders: [], summary: "防衛費が増えた。" },
+      middle_summary: [
+        // order 2 mentions 財務省 and 2.5兆円, but only order 1 is cited
+        { based_on_orders: [1], summary: "財務省は補正予算2.5兆円を計上、ウクライナ支援にも触れた。" },
+        { based_on_orders: [2], summary: "" },
+      ],
+    });
+    expect(report.flagged).toBe(3);
+    expect(report.summaries.map((s) => s.target)).toEqual(["summary", "soft_summary", "middle_summary[0]"]);
+    expect(report.summaries[0]).toMatchObject({ unknownOrders: [9], ungroundedNumbers: [], grounded: false });
+    expect(report.summaries[1].grounded).toBe(false);
+    expect(report.summaries[2]).toMatchObject({
+      ungroundedNumbers: ["2.5"],
+      ungroundedNames: ["ウクライナ", "財務省"],
+    });
+    expect(summarizeGrounding(report)).toEqual({
+      checked: 3, flagged: 3, ungrounded: ["summary", "soft_summary", "middle_summary[0]"],
+    });
+  });
+});
@@ -0,0 +1,136 @@
+// Grounding check of the generated summaries against the dialogs they cite.
+//
+// For summary, soft_summary and every middle summary:
+// - `based_on_orders` must reference dialogs of the meeting
+// - numbers (2+ digits) and proper-noun-like tokens (katakana words, Latin
+//   words with capitals, 「」 quotes, names ending in 党 / 省 / 庁 / 法案) must
+//   occur in the cited dialogs' original_text or speaker fields
+// The report is informational (editorial review); nothing is dropped or rewritten.
+
+import type { Article, Dialog } from "@interfaces/Article";
+
+export interface SummaryGrounding {
+  target: string;               // "summary", "soft_summary" or "middle_summary[<i>]"
+  basedOnOrders: number[];
+  unknownOrders: number[];      // cited orders that are not dialogs of the meeting
+  ungroundedNumbers: string[];  // numbers not found in the cited dialogs
+  ungroundedNames: string[];    // proper-noun-like tokens not found in the cited dialogs
+  grounded: boolean;
+}
+
+export interface GroundingReport {
+  summaries: SummaryGrounding[];
+  flagged: number;              // summaries that are not grounded
+}
+
+/** What the stored article keeps of a GroundingReport (the full one goes to its diagnostics report). */
+export interface GroundingSummary {
+  checked: number;
+  flagged: number;
+  ungrounded: string[];         // targets of the summaries that are not grounded
+}
+
+const KANJI_DIGITS: Record<string, number> = {
+  "〇": 0, "零": 0, "一": 1, "二": 2, "三": 3, "四": 4, "五": 5, "六": 6, "七": 7, "八": 8, "九": 9,
+};
+const KANJI_UNITS: Record<string, number> = { "十": 10, "百": 100, "千": 1000 };
+
+/** "二〇二五" -> "2025", "三千五百" -> "3500" (万 / 億 / 兆 stay as they are). */
+function kanjiNumber(run: string): string {
+  if (![...run].some((c) => c in KANJI_UNITS)) return [...run].map((c) => KANJI_DIGITS[c]).join("");
+  let total = 0;
+  let digit = 0;
+  for (const c of run) {
+    if (c in KANJI_UNITS) {
+      total += (digit || 1) * KANJI_UNITS[c];
+      digit = 0;
+    } else {
+      digit = KANJI_DIGITS[c];
+    }
+  }
+  return String(total + digit);
+}
+
+// A kanji numeral run only counts as a number next to digits, 万 / 億 / 兆, a decimal
+// "・" or a counter; elsewhere it is part of a word (十分, 千葉, 百貨店, 一部)
+const NUMERIC_BEFORE = /[\d万億兆・.]/;
+const NUMERIC_AFTER = /[\d万億兆・.円人年月日件%割倍回歳名]/;
+
+/**
+ * Comparable form of summary and source text: NFKC (full-width digits / letters),
+ * kanji numerals in a numeric context as digits, no thousands separators, "・" as
+ * the decimal point between digits (as the minutes write it).
+ */
+export function normalizeForGrounding(text: string): string {
+  return (text ?? "")
+    .normalize("NFKC")
+    .replace(/[〇零一二三四五六七八九十百千]+/g, (run: string, offset: number, all: string) =>
+      NUMERIC_BEFORE.test(all[offset - 1] ?? "") || NUMERIC_AFTER.test(all[offset + run.length] ?? "")
+        ? kanjiNumber(run)
+        : run)
+    .replace(/(\d),(?=\d{3})/g, "$1")
+    .replace(/(\d)・(?=\d)/g, "$1.");
+}
+
+const NUMBER = /\d+(?:\.\d+)?/g;
+const NAME_PATTERNS = [
+  /[ァ-ヺ][ァ-ヺー]{2,}/g,                    // katakana words (3+ chars)
+  /[A-Za-z][A-Za-z0-9&-]*[A-Z][A-Za-z0-9&-]*|[A-Z][A-Za-z0-9&-]+/g,  // Latin words with a capital
+  /(?<=「)[^「」]{1,30}(?=」)/g,              // quoted terms
+  /[一-龠々ヶ]{1,12}(?:党|省|庁|法案)/g,      // parties, ministries, agencies, bills
+];
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/** Numbers (2+ digits) and proper-noun-like tokens of a normalized summary. */
+export function groundingTokens(normalized: string) {
+  return {
+    numbers: unique((normalized.match(NUMBER) ?? []).filter((n) => n.replace(".", "").length >= 2)),
+    names: unique(NAME_PATTERNS.flatMap((p) => normalized.match(p) ?? [])),
+  };
+}
+
+const sourceText = (d: Dialog) =>
+  [d.original_text, d.speaker, d.speaker_group, d.speaker_position, d.speaker_role].filter(Boolean).join("\n");
+
+/** Check every summary of the article against the dialogs it cites. */
+export function verifyGrounding(article: Pick<Article, "dialogs" | "summary" | "soft_summary" | "middle_summary">): GroundingReport {
+  const byOrder = new Map<number, string>();
+  for (const d of article.dialogs ?? []) byOrder.set(d.order, normalizeForGrounding(sourceText(d)));
+
+  const targets: Array<[string, { based_on_orders: number[]; summary: string } | undefined]> = [
+    ["summary", article.summary],
+    ["soft_summary", article.soft_summary],
+    ...(article.middle_summary ?? []).map((m, i) => [`middle_summary[${i}]`, m] as [string, typeof m]),
+  ];
+
+  const summaries = targets
+    .filter(([, s]) => typeof s?.summary === "string" && s.summary.trim())
+    .map(([target, s]): SummaryGrounding => {
+      const basedOnOrders = Array.isArray(s!.based_on_orders) ? s!.based_on_orders : [];
+      const unknownOrders = [...new Set(basedOnOrders.filter((o) => !byOrder.has(o)))];
+      const source = basedOnOrders.map((o) => byOrder.get(o) ?? "").join("\n");
+      const { numbers, names } = groundingTokens(normalizeForGrounding(s!.summary));
+      // A number inside a longer one (12 in 2012) does not count as found
+      const ungroundedNumbers = numbers.filter((n) => !new RegExp(`(?<![\\d.])${n.replace(".", "\\.")}(?![\\d]|\\.\\d)`).test(source));
+      const ungroundedNames = names.filter((n) => !source.includes(n));
+      return {
+        target,
+        basedOnOrders,
+        unknownOrders,
+        ungroundedNumbers,
+        ungroundedNames,
+        grounded: basedOnOrders.length > 0 && !unknownOrders.length && !ungroundedNumbers.length && !ungroundedNames.length,
+      };
+    });
+
+  return { summaries, flagged: summaries.filter((s) => !s.grounded).length };
+}
+
+export function summarizeGrounding(report: GroundingReport): GroundingSummary {
+  return {
+    checked: report.summaries.length,
+    flagged: report.flagged,
+    ungrounded: report.summaries.filter((s) => !s.grounded).map((s) => s.target),
+  };
+}
@@ -5,10 +5,19 @@ import type {
   Article, Dialog, Keyword, MiddleSummary, Participant, SoftSummary, Summary, Term
 } from "@interfaces/Article";
 import type { RawMeetingData, RawMeetingRecord, RawSpeechRecord } from "@interfaces/Raw";
-import type { LLMClient, Message, GenerateOptions } from "@llm/LLMClient";
+import type { LLMClient, Message, GenerateOptions, LLMUsage } from "@llm/LLMClient";
+import { UsageRecorder, type PriceTable, type UsageSummary } from "@llm/usage";
+import { generateValidObject, type ObjectValidation } from "@llm/repair";
+import { validateJsonSchema, type JsonSchema } from "@llm/jsonSchema";
+import { meetingFingerprint } from "@NationalDietAPIHandler/fingerprint";
 import { saveChunkCache, saveReduceCache, writeCombinedMeetingCache } from "@utils/llmCache";
+import { logger as rootLogger, type Logger } from "@utils/logger";
+import { metrics as defaultMetrics, type Metrics } from "@utils/metrics";
+import { tracer } from "@utils/tracing";
 import { chunkSchema, reduceSchema } from "./schema";
 import { buildOrderLen, packIndexSetsByGreedy, materializeChunks, type IndexPack } from "./packing";
+import { normalizeResponseTo, pruneResponseLinks } from "./responseLinks";
+import { verifyGrounding } from "./grounding";
 
 /** Get numeric order; fallback when missing. */
 function getSpeechNumericOrder(s: RawSpeechRecord, idx: number): number {
@@ -38,12 +47,13 @@ function toDialog(s: RawSpeechRecord, order: number): Dialog {
     speaker_role: s.speakerRole ?? "",
     original_text: s.speech ?? "",
     summary: "",
-    soft_language: ""
+    soft_language: "",
+    response_to: []
   };
 }
 
 /** Build dialogs for a meeting. */
-function buildDialogs(raw: RawMeetingRecord): Dialog[] {
+export function buildDialogs(raw: RawMeetingRecord): Dialog[] {
   const speeches = sortSpeeches(raw);
   const dialogs: Dialog[] = [];
   for (let i = 0; i < speeches.length; i++) {
@@ -55,8 +65,9 @@ function buildDialogs(raw: RawMeetingRecord): Dialog[] {
 }
 
 /** Build Article metadata. */
-function buildMeta(raw: RawMeetingRecord): Required<Pick<Article,
+export function buildMeta(raw: RawMeetingRecord): Required<Pick<Article,
   "id"|"date"|"month"|"imageKind"|"session"|"nameOfHouse"|"nameOfMeeting">> {
+  // validateMeetingData already normalizes (and warns about) unknown kinds; this is a safety net.
   const allowed = new Set(["会議録","目次","索引","附録","追録"]);
   const imageKind = allowed.has(raw.imageKind) ? (raw.imageKind as Article["imageKind"]) : "会議録";
   return {
@@ -70,8 +81,8 @@ function buildMeta(raw: RawMeetingRecord): Required<Pick<Article,
   };
 }
 
-/** Apply per-dialog updates (by order). */
-function mergeDialogSummaries(original: Dialog[], updates?: Array<Pick<Dialog,"order"|"summary"|"soft_language">>): Dialog[] {
+/** Apply per-dialog updates (by order); response links are validated once all chunks are merged. */
+function mergeDialogSummaries(original: Dialog[], updates?: ChunkLLMResult["dialogs"]): Dialog[] {
   if (!updates?.length) return original;
   const byOrder = new Map<number, Dialog>(original.map(d => [d.order, d]));
   for (const u of updates) {
@@ -79,12 +90,13 @@ function mergeDialogSummaries(original: Dialog[], updates?: Array<Pick<Dialog,"o
     if (!d) continue;
     if (typeof u.summary === "string") d.summary = u.summary;
     if (typeof u.soft_language === "string") d.soft_language = u.soft_language;
+    if (u.response_to !== undefined) d.response_to = normalizeResponseTo(u.response_to);
   }
   return [...byOrder.values()].sort((a,b)=>a.order-b.order);
 }
 
 /** Build chunk prompt messages (Japanese prompts). */
-function buildChunkMessages(args: {
+export function buildChunkMessages(args: {
   instruction: string;
   output_format: string;
   meta: ReturnType<typeof buildMeta>;
@@ -128,7 +140,7 @@ ${JSON.stringify(chunkDialogs)}
 }
 
 /** Build reduce prompt messages (Japanese prompts). */
-function buildReduceMessages(args: {
+export function buildReduceMessages(args: {
   instruction: string;
   output_format: string;
   meta: ReturnType<typeof buildMeta>;
@@ -197,6 +209,9 @@ function chunkArray<T>(arr: T[], size: number): T[][] {
 /** Minimal raw non-JSON payload surfaced to callers. */
 type RawNonJson = { phase: "chunk" | "reduce"; index?: number; text: string; s3Key?: string; preview?: string };
 
+/** Receives the usage of each LLM call with its phase ("chunk", "reduce:<level>") and, when not the default, model. */
+type UsageSink = (phase: string, usage?: LLMUsage, model?: string) => void;
+
 /** Reduce one group; capture raw text when parse fails (non-throw mode). */
 async function reduceGroupToResult(params: {
   instruction: string;
@@ -206,17 +221,36 @@ async function reduceGroupToResult(params: {
   llm: LLMClient;
   llmOptions?: GenerateOptions;
   rawOutputsSink?: RawNonJson[];
+  validationsSink?: ObjectValidation[];
+  level?: number;
+  usageSink?: UsageSink;
 }): Promise<ReduceLLMResult> {
-  const { instruction, output_format, meta, group, llm, llmOptions, rawOutputsSink } = params;
+  const { instruction, output_format, meta, group, llm, llmOptions, rawOutputsSink, validationsSink, level = 1, usageSink } = params;
   const messages = buildReduceMessages({ instruction, output_format, meta, middle_summaries: group });
-
-  const { object, raw } = await llm.generateObject<ReduceLLMResult>(
-    messages,
-    reduceSchema,
-    { temperature: 0.2, ...(llmOptions ?? {}), ...( { onParseError: "return_raw" } as any) }
+  const log = (llmOptions?.logger ?? rootLogger).child({ meetingId: meta.id, phase: `reduce:${level}` });
+
+  const { object, raw, validation } = await tracer.withSpan(
+    "reduce",
+    { meetingId: meta.id, level, groupSize: group.length },
+    async (span) => {
+      const res = await generateValidObject<ReduceLLMResult>(
+        llm,
+        messages,
+        reduceSchema,
+        {
+          temperature: 0.2, ...(llmOptions ?? {}), logger: log, ...( { onParseError: "return_raw" } as any),
+          onUsage: (usage, attempt) => usageSink?.(attempt === 1 ? `reduce:${level}` : `reduce:${level}:repair`, usage),
+        }
+      );
+      span.setAttributes({ nonJson: !!(res.raw as any)?.nonJsonText, validation: res.validation.status, attempts: res.validation.attempts });
+      return res;
+    }
   );
+  validationsSink?.push(validation);
+  log.debug("Reduce call finished", { groupSize: group.length, validation: validation.status, attempts: validation.attempts });
 
   const non = (raw as any)?.nonJsonText as string | undefined;
+  if (non) log.warn("Reduce LLM call returned non-JSON", { s3Key: (raw as any)?.s3Key, preview: (raw as any)?.preview });
   if (non && rawOutputsSink) rawOutputsSink.push({ phase: "reduce", text: non, s3Key: (raw as any)?.s3Key, preview: (raw as any)?.preview });
 
   return {
@@ -244,8 +278,10 @@ async function reduceMiddleSummaries(params: {
   groupSize?: number;
   concurrency?: number;
   rawOutputsSink?: RawNonJson[];
+  validationsSink?: ObjectValidation[];
+  usageSink?: UsageSink;
 }): Promise<ReduceLLMResult> {
-  const { instruction, output_format, meta, middleSummaries, llm, llmOptions, rawOutputsSink } = params;
+  const { instruction, output_format, meta, middleSummaries, llm, llmOptions, rawOutputsSink, validationsSink, usageSink } = params;
 
   const groupSize = Math.max(1, Number(params.groupSize ?? process.env.REDUCE_GROUP_SIZE ?? 8));
   const concurrency = Math.max(1, Number(params.concurrency ?? process.env.REDUCE_CONCURRENCY ?? 4));
@@ -255,26 +291,29 @@ async function reduceMiddleSummaries(params: {
   }
 
   if (middleSummaries.length <= groupSize) {
-    return reduceGroupToResult({ instruction, output_format, meta, group: middleSummaries, llm, llmOptions, rawOutputsSink });
+    return reduceGroupToResult({ instruction, output_format, meta, group: middleSummaries, llm, llmOptions, rawOutputsSink, validationsSink, usageSink });
   }
 
+  // Levels count from the bottom layer (1) up to the final reduce
+  let level = 1;
   let layer: MiddleSummary[] = middleSummaries.slice();
   while (layer.length > groupSize) {
     const groups = chunkArray(layer, groupSize);
     const partials = await mapWithConcurrency(groups, concurrency, async (group) => {
-      const result = await reduceGroupToResult({ instruction, output_format, meta, group, llm, llmOptions, rawOutputsSink });
+      const result = await reduceGroupToResult({ instruction, output_format, meta, group, llm, llmOptions, rawOutputsSink, validationsSink, level, usageSink });
       return reduceResultToMiddleSummary(result);
     });
     layer = partials;
+    level++;
   }
 
-  return reduceGroupToResult({ instruction, output_format, meta, group: layer, llm, llmOptions, rawOutputsSink });
+  return reduceGroupToResult({ instruction, output_format, meta, group: layer, llm, llmOptions, rawOutputsSink, validationsSink, level, usageSink });
 }
 
 /** Types returned by LLM. */
 export interface ChunkLLMResult {
   categories: string[];
-  dialogs?: Array<Pick<Dialog, "order" | "summary" | "soft_language">>;
+  dialogs?: Array<Pick<Dialog, "order" | "summary" | "soft_language"> & { response_to?: unknown }>;
   middle_summary: MiddleSummary;
   terms?: Term[];
   keywords?: Keyword[];
@@ -290,14 +329,98 @@ export interface ReduceLLMResult {
   keywords?: Keyword[];
 }
 
-/** Process one meeting end-to-end. */
+/** A chunk result as persisted by a checkpoint store. */
+export interface ChunkCheckpointEntry {
+  index: number;
+  orders: number[];  // dialog orders of the chunk; a mismatch means the meeting was re-chunked
+  result: ChunkLLMResult;
+  validation?: ObjectValidation;
+}
+
+/** Schema validation outcome of one chunk output. */
+export type ChunkValidation = NonNullable<Article["validation"]>["chunks"][number];
+
+/** How a chunk call was made: first try, or a recovery step (see ChunkRetryOptions). */
+type ChunkStrategy = "initial" | "retry" | "split" | "fallback";
+
+/**
+ * Recovery for chunks whose output is unusable (non-JSON or without a middle
+ * summary). Defaults: CHUNK_RETRY_TEMPERATURE (0), CHUNK_RETRY_SPLIT (true);
+ * the fallback model is configured by the caller (LLM_FALLBACK_* in the runtime).
+ */
+export interface ChunkRetryOptions {
+  temperature?: number;  // temperature of retry / split / fallback calls
+  split?: boolean;       // re-split the chunk at half the char threshold
+  fallback?: { llm?: LLMClient; model?: string };  // another client and/or model, tried last
+}
+
+export function chunkRetryFromEnv(env: NodeJS.ProcessEnv = process.env): ChunkRetryOptions {
+  const temperature = Number(env.CHUNK_RETRY_TEMPERATURE ?? 0);
+  return {
+    temperature: Number.isFinite(temperature) ? temperature : 0,
+    split: (env.CHUNK_RETRY_SPLIT ?? "true").toLowerCase() !== "false",
+  };
+}
+
+/** A chunk output is usable when it parsed and carries a middle summary. */
+function isUsableChunk(res: { object?: ChunkLLMResult; raw?: unknown }): boolean {
+  if ((res.raw as any)?.nonJsonText) return false;
+  const summary = res.object?.middle_summary?.summary;
+  return typeof summary === "string" && summary.trim().length > 0;
+}
+
+/** Combine the results of a re-split chunk into one chunk result. */
+function mergeChunkResults(parts: ChunkLLMResult[]): ChunkLLMResult {
+  if (parts.length === 1) return parts[0];
+  return {
+    categories: [...new Set(parts.flatMap(p => Array.isArray(p.categories) ? p.categories : []))],
+    dialogs: parts.flatMap(p => p.dialogs ?? []),
+    middle_summary: {
+      based_on_orders: parts.flatMap(p => p.middle_summary?.based_on_orders ?? []),
+      summary: parts.map(p => p.middle_summary?.summary ?? "").filter(Boolean).join("\n\n"),
+    },
+    terms: parts.flatMap(p => p.terms ?? []),
+    keywords: parts.flatMap(p => p.keywords ?? []),
+    participants: parts.flatMap(p => p.participants ?? []),
+    outline: parts.flatMap(p => p.outline ?? []),
+  };
+}
+
+/**
+ * Optional persistence hooks so an interrupted meeting can resume without
+ * repeating LLM calls. Checkpoint failures are logged and otherwise ignored
+ * (a failed load just recomputes).
+ */
+export interface MeetingCheckpoint {
+  loadChunks?(): Promise<ChunkCheckpointEntry[]>;
+  saveChunk?(entry: ChunkCheckpointEntry): Promise<void>;
+  onChunked?(): Promise<void>;
+  loadReduce?(): Promise<ReduceLLMResult | undefined>;
+  saveReduce?(result: ReduceLLMResult): Promise<void>;
+}
+
+function sameOrders(a: number[], b: number[]) {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/**
+ * Process one meeting end-to-end. Usage of every LLM call made here (not of
+ * checkpointed results) is returned on `article.usage`, priced with `priceTable`
+ * (default: LLM_PRICE_TABLE). Chunk / non-JSON counts and the meeting duration
+ * are recorded on `metrics`.
+ */
 export async function processMeeting({
   raw,
   instruction,
   output_format,
   charThreshold = 10_000,
   llm,
-  llmOptions
+  llmOptions,
+  checkpoint,
+  priceTable,
+  logger,
+  metrics = defaultMetrics,
+  chunkRetry
 }: {
   raw: RawMeetingRecord;
   instruction: string;
@@ -305,36 +428,205 @@ export async function processMeeting({
   charThreshold?: number;
   llm: LLMClient;
   llmOptions?: GenerateOptions;
-}): Promise<Article & { raw_outputs?: RawNonJson[] }> {
-  console.debug(`Processing meeting: ${raw.issueID} (${raw.nameOfMeeting})`);
+  checkpoint?: MeetingCheckpoint;
+  priceTable?: PriceTable;
+  logger?: Logger;
+  metrics?: Metrics;
+  chunkRetry?: ChunkRetryOptions;
+}): Promise<Article & { raw_outputs?: RawNonJson[]; usage: UsageSummary }> {
+  const startedAt = Date.now();
+  const log = (logger ?? llmOptions?.logger ?? rootLogger).child({ meetingId: raw.issueID });
   const meta = buildMeta(raw);
   const dialogs = buildDialogs(raw);
 
   const indexTable = buildOrderLen(dialogs);
   const packs: IndexPack[] = packIndexSetsByGreedy(indexTable, charThreshold);
   const chunks: Dialog[][] = materializeChunks(packs, dialogs);
+  log.info("Processing meeting", {
+    nameOfMeeting: raw.nameOfMeeting,
+    dialogs: dialogs.length,
+    chunks: chunks.length,
+    chunkChars: packs.map(p => p.totalLen),
+    oversizedChunks: packs.filter(p => p.oversized).length,
+  });
 
   const chunkConcurrency = Math.max(1, Number(process.env.LLM_CHUNK_CONCURRENCY ?? 4));
   const rawOutputs: RawNonJson[] = [];
 
+  const usageRecorder = new UsageRecorder(priceTable);
+  const model = llmOptions?.model ?? llm.model ?? llm.name;
+  const usageSink: UsageSink = (phase, usage, callModel) => usageRecorder.record(phase, callModel ?? model, usage);
+  const retry: ChunkRetryOptions = { ...chunkRetryFromEnv(), ...(chunkRetry ?? {}) };
+
   type ChunkAggregate = {
     idx: number; categories: string[]; dialogs: Dialog[]; middle: MiddleSummary;
     participants?: Participant[]; terms?: Term[]; keywords?: Keyword[]; outline?: string[];
+    validation: ChunkValidation;
   };
 
-  const chunkResults: ChunkAggregate[] = await mapWithConcurrency(chunks, chunkConcurrency, async (chunk, i) => {
+  const toAggregate = (idx: number, chunk: Dialog[], part: ChunkLLMResult | undefined, validation: ChunkValidation): ChunkAggregate => {
+    const mergedDialogs = mergeDialogSummaries(chunk, part?.dialogs ?? []);
+    return {
+      idx,
+      validation,
+      categories: Array.isArray(part?.categories) ? part.categories : [],
+      dialogs: mergedDialogs,
+      middle: part?.middle_summary ?? { based_on_orders: mergedDialogs.map(d => d.order), summary: "" },
+      participants: part?.participants ?? [],
+      terms: part?.terms ?? [],
+      keywords: part?.keywords ?? [],
+      outline: part?.outline ?? []
+    };
+  };
+
+  // Chunk results persisted by a previous (interrupted) attempt
+  const resumedChunks = new Map<number, ChunkCheckpointEntry>();
+  if (checkpoint?.loadChunks) {
+    try { for (const c of await checkpoint.loadChunks()) resumedChunks.set(c.index, c); }
+    catch (e) { log.warn("Failed to load chunk checkpoints", { phase: "checkpoint", error: e }); }
+  }
+
+  /** One chunk LLM call (with schema repairs); `strategy` tags the span and the usage phase. */
+  const callChunk = async (args: {
+    dialogs: Dialog[]; index: number; chunkCount: number; chars?: number; log: Logger;
+    strategy: ChunkStrategy; temperature?: number; client?: LLMClient; model?: string;
+  }) => {
+    const { dialogs: chunkDialogs, index, strategy, log: chunkLog } = args;
+    const client = args.client ?? llm;
+    const callModel = args.model ?? (args.client ? (client.model ?? client.name) : model);
+    const phase = strategy === "initial" ? "chunk" : `chunk:${strategy}`;
     const messages = buildChunkMessages({
-      instruction, output_format, meta, chunkDialogs: chunk, chunkIndex: i, chunkCount: chunks.length
+      instruction, output_format, meta, chunkDialogs, chunkIndex: index, chunkCount: args.chunkCount
+    });
+    const res = await tracer.withSpan(
+      "chunk",
+      { meetingId: meta.id, chunkIndex: index, dialogs: chunkDialogs.length, chars: args.chars, strategy },
+      async (span) => {
+        const r = await generateValidObject<ChunkLLMResult>(
+          client,
+          messages,
+          chunkSchema,
+          {
+            temperature: 0.2, ...(llmOptions ?? {}),
+            ...(args.temperature !== undefined ? { temperature: args.temperature } : {}),
+            ...(args.model ? { model: args.model } : {}),
+            logger: chunkLog, ...( { onParseError: "return_raw" } as any),
+            onUsage: (u, attempt) => usageSink(attempt === 1 ? phase : `${phase}:repair`, u, callModel),
+          }
+        );
+        span.setAttributes({ nonJson: !!(r.raw as any)?.nonJsonText, validation: r.validation.status, attempts: r.validation.attempts });
+        return r;
+      }
+    );
+    chunkLog.debug("Chunk call finished", {
+      strategy, orders: chunkDialogs.length, usage: res.usage, validation: res.validation.status, attempts: res.validation.attempts,
     });
 
-    const { object: part, raw, usage } = await llm.generateObject<ChunkLLMResult>(
-      messages,
-      chunkSchema,
-      { temperature: 0.2, ...(llmOptions ?? {}), ...( { onParseError: "return_raw" } as any) }
+    const non = (res.raw as any)?.nonJsonText as string | undefined;
+    if (non) {
+      chunkLog.warn("Chunk LLM call returned non-JSON", { strategy, s3Key: (res.raw as any)?.s3Key, preview: (res.raw as any)?.preview });
+      rawOutputs.push({ phase: "chunk", index, text: non, s3Key: (res.raw as any)?.s3Key, preview: (res.raw as any)?.preview });
+    }
+    return res;
+  };
+
+  /**
+   * Summarize one chunk, recovering from unusable output (non-JSON or no middle
+   * summary) in order: retry at `retry.temperature`, re-split at half the
+   * threshold, then the fallback model for whatever is still unusable.
+   * Orders left unsummarized are returned in `failedOrders`.
+   */
+  const summarizeChunk = async (args: { chunk: Dialog[]; index: number; chunkCount: number; chars?: number; log: Logger }) => {
+    const { chunk, index, log: chunkLog } = args;
+    let calls = 0;
+    let last = await callChunk({ ...args, dialogs: chunk, strategy: "initial" });
+    calls += last.validation.attempts;
+    const done = (part: ChunkLLMResult | undefined, validation: ObjectValidation, recovery: ChunkValidation["recovery"], failed: number[]) => ({
+      part,
+      validation: { index, ...validation, attempts: calls, ...(recovery ? { recovery } : {}) } as ChunkValidation,
+      failedOrders: failed,
+      lastRaw: last.raw,
+      lastUsage: last.usage,
+    });
+    if (isUsableChunk(last)) return done(last.object, last.validation, undefined, []);
+
+    chunkLog.warn("Chunk output unusable; retrying", { validation: last.validation.status });
+    last = await callChunk({ ...args, dialogs: chunk, strategy: "retry", temperature: retry.temperature });
+    calls += last.validation.attempts;
+    if (isUsableChunk(last)) return done(last.object, last.validation, "retry", []);
+
+    // Smaller pieces are easier to answer; a single dialog cannot be split further
+    let pieces: Array<{ dialogs: Dialog[]; res?: typeof last }> = [{ dialogs: chunk }];
+    let recovery: ChunkValidation["recovery"] = "retry";
+    if (retry.split && chunk.length > 1) {
+      const half = Math.max(1, Math.floor(charThreshold / 2));
+      const sub = materializeChunks(packIndexSetsByGreedy(buildOrderLen(chunk), half), chunk);
+      if (sub.length > 1) {
+        recovery = "split";
+        pieces = [];
+        for (const dialogsOfPiece of sub) {
+          const res = await callChunk({ ...args, dialogs: dialogsOfPiece, strategy: "split", temperature: retry.temperature });
+          calls += res.validation.attempts;
+          last = res;
+          pieces.push({ dialogs: dialogsOfPiece, res });
+        }
+      }
+    }
+
+    if (retry.fallback) {
+      for (const piece of pieces) {
+        if (piece.res && isUsableChunk(piece.res)) continue;
+        recovery = "fallback";
+        piece.res = await callChunk({
+          ...args, dialogs: piece.dialogs, strategy: "fallback", temperature: retry.temperature,
+          client: retry.fallback.llm, model: retry.fallback.model,
+        });
+        calls += piece.res.validation.attempts;
+        last = piece.res;
+      }
+    }
+
+    const usable = pieces.filter(p => p.res && isUsableChunk(p.res));
+    const failed = pieces.filter(p => !usable.includes(p)).flatMap(p => p.dialogs.map(d => d.order));
+    if (failed.length) chunkLog.error("Chunk failed after retries", { failedOrders: failed, recovery });
+    const statuses = usable.map(p => p.res!.validation);
+    const validation: ObjectValidation = !usable.length
+      ? last.validation
+      : statuses.find(v => v.status === "invalid") ?? statuses.find(v => v.status === "repaired") ?? statuses[0];
+    return done(
+      usable.length ? mergeChunkResults(usable.map(p => p.res!.object)) : undefined,
+      validation,
+      failed.length ? "failed" : recovery,
+      failed,
     );
+  };
+
+  const failedOrders: number[] = [];
+  let chunksResumed = 0;
+  const chunkResults: ChunkAggregate[] = await mapWithConcurrency(chunks, chunkConcurrency, async (chunk, i) => {
+    const orders = chunk.map(d => d.order);
+    const resumed = resumedChunks.get(i);
+    if (resumed && sameOrders(resumed.orders, orders)) {
+      chunksResumed++;
+      // Checkpoints written before validation existed are validated now (no LLM call)
+      const errors = resumed.validation ? [] : validateJsonSchema(resumed.result, chunkSchema as JsonSchema);
+      const validation: ObjectValidation = resumed.validation
+        ?? (errors.length ? { status: "invalid", attempts: 0, errors } : { status: "valid", attempts: 0 });
+      return toAggregate(i, chunk, resumed.result, { index: i, resumed: true, ...validation });
+    }
+
+    const chunkLog = log.child({ chunkIndex: i, phase: "chunk" });
+    const { part, validation, failedOrders: failed, lastRaw, lastUsage } = await summarizeChunk({
+      chunk, index: i, chunkCount: chunks.length, chars: packs[i]?.totalLen, log: chunkLog,
+    });
+    failedOrders.push(...failed);
+    const non = (lastRaw as any)?.nonJsonText as string | undefined;
 
-    const non = (raw as any)?.nonJsonText as string | undefined;
-    if (non) rawOutputs.push({ phase: "chunk", index: i, text: non, s3Key: (raw as any)?.s3Key, preview: (raw as any)?.preview });
+    // Checkpoint only usable results; failed, non-JSON and schema-invalid chunks are retried on resume
+    if (!failed.length && validation.status !== "invalid" && checkpoint?.saveChunk) {
+      try { await checkpoint.saveChunk({ index: i, orders, result: part!, validation }); }
+      catch (e) { chunkLog.warn("Failed to checkpoint chunk", { error: e }); }
+    }
 
     // Local cache for chunk result (best-effort)
     try {
@@ -344,23 +636,13 @@ export async function processMeeting({
         chunkCount: chunks.length,
         basedOnOrders: Array.isArray(part?.middle_summary?.based_on_orders) ? part!.middle_summary!.based_on_orders : undefined,
         result: part,
-        usage,
+        usage: lastUsage,
         nonJsonText: non,
-        nonJsonS3Key: (raw as any)?.s3Key,
+        nonJsonS3Key: (lastRaw as any)?.s3Key,
       });
     } catch { /* best-effort only */ }
 
-    const mergedDialogs = mergeDialogSummaries(chunk, part?.dialogs ?? []);
-    return {
-      idx: i,
-      categories: Array.isArray(part?.categories) ? part.categories : [],
-      dialogs: mergedDialogs,
-      middle: part?.middle_summary ?? { based_on_orders: mergedDialogs.map(d => d.order), summary: "" },
-      participants: part?.participants ?? [],
-      terms: part?.terms ?? [],
-      keywords: part?.keywords ?? [],
-      outline: part?.outline ?? []
-    };
+    return toAggregate(i, chunk, part, validation);
   });
 
   // Aggregate deterministically
@@ -394,19 +676,44 @@ export async function processMeeting({
     }
   }
 
-  // Final reduce (still non-throw, capture raw)
-  const reduced = await reduceMiddleSummaries({
+  // Links to dialogs that do not exist (or are not earlier) are model mistakes
+  const droppedLinks = pruneResponseLinks(allDialogs);
+  if (droppedLinks.length) {
+    log.warn("Dropped invalid response_to links", { dropped: droppedLinks.length, links: droppedLinks.slice(0, 20) });
+    metrics.put("DroppedResponseLinks", droppedLinks.length);
+  }
+
+  if (checkpoint?.onChunked) {
+    try { await checkpoint.onChunked(); }
+    catch (e) { log.warn("Failed to checkpoint chunked state", { phase: "checkpoint", error: e }); }
+  }
+
+  // Final reduce (still non-throw, capture raw); reuse a checkpointed result when resuming
+  let resumedReduce: ReduceLLMResult | undefined;
+  if (checkpoint?.loadReduce) {
+    try { resumedReduce = await checkpoint.loadReduce(); }
+    catch (e) { log.warn("Failed to load reduce checkpoint", { phase: "checkpoint", error: e }); }
+  }
+  const reduceValidations: ObjectValidation[] = [];
+  const reduced = resumedReduce ?? await reduceMiddleSummaries({
     instruction,
     output_format,
     meta,
     middleSummaries: allMiddle,
     llm,
-    llmOptions,
+    llmOptions: { ...(llmOptions ?? {}), logger: log },
     groupSize: Number(process.env.REDUCE_GROUP_SIZE ?? 8),
     concurrency: Number(process.env.REDUCE_CONCURRENCY ?? 4),
-    rawOutputsSink: rawOutputs
+    rawOutputsSink: rawOutputs,
+    validationsSink: reduceValidations,
+    usageSink
   });
 
+  if (!resumedReduce && checkpoint?.saveReduce) {
+    try { await checkpoint.saveReduce(reduced); }
+    catch (e) { log.warn("Failed to checkpoint reduce result", { phase: "checkpoint", error: e }); }
+  }
+
   // Save reduce result + write combined cache (best-effort)
   try { await saveReduceCache({ meetingId: meta.id, result: reduced, rawNonJsons: rawOutputs }); } catch { /* ignore */ }
   try { await writeCombinedMeetingCache({ meetingId: meta.id, chunkCount: chunks.length }); } catch { /* ignore */ }
@@ -429,7 +736,7 @@ export async function processMeeting({
 
   const fallbackTitle = `${meta.nameOfMeeting}（${meta.date}）`;
 
-  const article: Article & { raw_outputs?: RawNonJson[] } = {
+  const article: Article & { raw_outputs?: RawNonJson[]; usage: UsageSummary } = {
     ...meta,
     title: reduced.title || fallbackTitle,
     description: reduced.description ?? "",
@@ -441,9 +748,48 @@ export async function processMeeting({
     keywords: rankedKeywords,
     terms: [...termsMap.entries()].map(([term, definition]) => ({ term, definition })),
     categories: topCategories,
-    raw_outputs: rawOutputs
+    ...meetingFingerprint(raw),
+    raw_outputs: rawOutputs,
+    usage: usageRecorder.summary(),
+    validation: { chunks: chunkResults.map(r => r.validation), reduce: reduceValidations },
+    ...(failedOrders.length ? { partial: true, failedOrders: failedOrders.sort((a, b) => a - b) } : {})
   };
 
+  // Editorial check: do the summaries say only what their cited dialogs say?
+  article.grounding = verifyGrounding(article);
+  if (article.grounding.flagged) {
+    log.warn("Summaries not grounded in cited dialogs", {
+      flagged: article.grounding.flagged,
+      targets: article.grounding.summaries.filter(s => !s.grounded).map(s => s.target),
+    });
+  }
+
+  const nonJsonChunks = rawOutputs.filter(o => o.phase === "chunk").length;
+  metrics.put("MeetingsSummarized", 1);
+  metrics.put("MeetingDuration", Date.now() - startedAt, "Milliseconds");
+  metrics.put("Chunks", chunks.length);
+  metrics.put("ChunksResumed", chunksResumed);
+  metrics.put("NonJsonChunks", nonJsonChunks);
+  metrics.put("NonJsonReduce", rawOutputs.length - nonJsonChunks);
+  const validations = [...chunkResults.filter(r => !r.validation.resumed).map(r => r.validation), ...reduceValidations];
+  metrics.put("SchemaRepairs", validations.reduce((n, v) => n + Math.max(0, v.attempts - 1), 0));
+  metrics.put("SchemaInvalidOutputs", validations.filter(v => v.status === "invalid").length);
+  metrics.put("ChunksRecovered", chunkResults.filter(r => r.validation.recovery && r.validation.recovery !== "failed").length);
+  metrics.put("ChunksFailed", chunkResults.filter(r => r.validation.recovery === "failed").length);
+  metrics.put("UngroundedSummaries", article.grounding.flagged);
+  if (failedOrders.length) {
+    metrics.put("PartialArticles", 1);
+    log.warn("Meeting summarized partially", { failedOrders: article.failedOrders });
+  }
+
+  log.info("Meeting summarized", {
+    chunks: chunks.length,
+    resumedChunks: chunksResumed,
+    reusedReduce: !!resumedReduce,
+    nonJsonOutputs: rawOutputs.length,
+    invalidOutputs: validations.filter(v => v.status === "invalid").length,
+    usage: article.usage.total,
+  });
   return article;
 }
 
@@ -0,0 +1,64 @@
+import type { Article, Dialog } from "@interfaces/Article";
+import { assessQuality, qualityThresholdsFromEnv, type QualityThresholds } from "@LLMSummarize/quality";
+
+const thresholds: QualityThresholds = { review: 0.8, requeue: 0.5, minKeywords: 3 };
+
+const dialog = (order: number, summary = `発言${order}の要約`): Dialog => ({
+  order, speaker: `議員${order}`, speaker_group: "", speaker_position: "", speaker_role: "",
+  original_text: "…", summary, soft_language: "", response_to: [],
+});
+
+function article(over: Partial<Article> = {}): Article {
+  return {
+    id: "M1", title: "予算委員会で物価対策を議論", date: "2025-05-28", month: "2025-05", imageKind: "会議録",
+    session: 217, nameOfHouse: "衆議院", nameOfMeeting: "予算委員会", categories: ["経済"], description: "",
+    summary: { based_on_orders: [1, 2], summary: "要約" },
+    soft_summary: { based_on_orders: [1], summary: "やさしい要約" },
+    middle_summary: [{ based_on_orders: [1, 2], summary: "中間要約" }],
+    dialogs: [dialog(1), dialog(2)],
+    participants: [], terms: [],
+    keywords: [{ keyword: "物価", priority: "high" }, { keyword: "予算", priority: "medium" }, { keyword: "賃金", priority: "low" }],
+    ...over,
+  };
+}
+
+describe("assessQuality", () => {
+  test("stores a complete article", () => {
+    const q = assessQuality(article(), thresholds);
+    expect(q).toEqual({
+      score: 1,
+      verdict: "store",
+      checks: { summaries: 1, title: 1, dialogCoverage: 1, basedOnOrders: 1, keywords: 1, categories: 1 },
+      issues: [],
+    });
+  });
+
+  test("holds an article with the fallback title and half the dialogs unsummarized for review", () => {
+    const q = assessQuality(article({ title: "予算委員会（2025-05-28）", dialogs: [dialog(1), dialog(2, "")] }), thresholds);
+    expect(q.verdict).toBe("review");
+    expect(q.checks).toMatchObject({ title: 0, dialogCoverage: 0.5 });
+    expect(q.issues).toEqual(["title is empty or the fallback title", "1 of 2 dialogs have no summary"]);
+  });
+
+  test("requeues an article with an empty summary or a low score", () => {
+    expect(assessQuality(article({ summary: { based_on_orders: [1], summary: " " } }), thresholds).verdict).toBe("requeue");
+
+    const poor = assessQuality(article({
+      soft_summary: { based_on_orders: [9], summary: "" },
+      middle_summary: [],
+      summary: { based_on_orders: [7, 8], summary: "要約" },
+      keywords: [],
+      categories: [],
+    }), thresholds);
+    expect(poor.score).toBeLessThan(0.5);
+    expect(poor.verdict).toBe("requeue");
+    expect(poor.issues).toContain("based_on_orders reference unknown orders: 7, 8, 9");
+  });
+
+  test("partial articles are held for review; zero thresholds store anything with a summary", () => {
+    expect(assessQuality(article({ partial: true, failedOrders: [2] }), thresholds).verdict).toBe("review");
+    const off = qualityThresholdsFromEnv({ QUALITY_REVIEW_BELOW: "0", QUALITY_REQUEUE_BELOW: "0" });
+    expect(off).toEqual({ review: 0, requeue: 0, minKeywords: 3 });
+    expect(assessQuality(article({ title: "", keywords: [], categories: [] }), off).verdict).toBe("store");
+  });
+});
@@ -0,0 +1,102 @@
+// Quality gate run on a summarized article before it is stored.
+//
+// Each check scores 0..1; the article score is their mean. The verdict is
+//   store    score >= QUALITY_REVIEW_BELOW (default 0.8)
+//   review   below that, or the article is partial / has the fallback title
+//   requeue  score < QUALITY_REQUEUE_BELOW (default 0.5), or summary.summary is empty
+// Setting both thresholds to 0 stores every article that has a summary.
+
+import type { Article } from "@interfaces/Article";
+
+export type QualityVerdict = "store" | "review" | "requeue";
+
+export type QualityCheck =
+  | "summaries"       // summary / soft_summary / middle_summary are non-empty
+  | "title"           // not empty and not the `nameOfMeeting（date）` fallback
+  | "dialogCoverage"  // share of dialogs with a summary
+  | "basedOnOrders"   // share of based_on_orders that reference existing dialog orders
+  | "keywords"        // keyword count relative to minKeywords
+  | "categories";     // at least one category
+
+export interface ArticleQuality {
+  score: number;
+  verdict: QualityVerdict;
+  checks: Record<QualityCheck, number>;
+  issues: string[];   // human-readable reasons for low checks / hard rules
+}
+
+export interface QualityThresholds {
+  review: number;       // scores below this are held for review
+  requeue: number;      // scores below this are summarized again
+  minKeywords: number;  // keyword count that scores 1
+}
+
+export function qualityThresholdsFromEnv(env: NodeJS.ProcessEnv = process.env): QualityThresholds {
+  const num = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return value != null && value !== "" && Number.isFinite(n) ? n : fallback;
+  };
+  return {
+    review: num(env.QUALITY_REVIEW_BELOW, 0.8),
+    requeue: num(env.QUALITY_REQUEUE_BELOW, 0.5),
+    minKeywords: Math.max(1, num(env.QUALITY_MIN_KEYWORDS, 3)),
+  };
+}
+
+const filled = (s: unknown) => typeof s === "string" && s.trim().length > 0;
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/** Score an article and decide whether it may be stored. */
+export function assessQuality(article: Article, thresholds: QualityThresholds = qualityThresholdsFromEnv()): ArticleQuality {
+  const issues: string[] = [];
+  const dialogs = article.dialogs ?? [];
+  const orders = new Set(dialogs.map((d) => d.order));
+
+  const summaryParts = [
+    filled(article.summary?.summary),
+    filled(article.soft_summary?.summary),
+    (article.middle_summary ?? []).some((m) => filled(m.summary)),
+  ];
+  if (!summaryParts[0]) issues.push("summary.summary is empty");
+  if (!summaryParts[1]) issues.push("soft_summary.summary is empty");
+  if (!summaryParts[2]) issues.push("middle_summary is empty");
+
+  const fallbackTitle = `${article.nameOfMeeting}（${article.date}）`;
+  const titleOk = filled(article.title) && article.title !== fallbackTitle;
+  if (!titleOk) issues.push("title is empty or the fallback title");
+
+  const summarized = dialogs.filter((d) => filled(d.summary)).length;
+  const dialogCoverage = dialogs.length ? summarized / dialogs.length : 0;
+  if (dialogCoverage < 1) issues.push(`${dialogs.length - summarized} of ${dialogs.length} dialogs have no summary`);
+
+  const refs = [article.summary, article.soft_summary, ...(article.middle_summary ?? [])]
+    .flatMap((s) => Array.isArray(s?.based_on_orders) ? s.based_on_orders : []);
+  const unknown = refs.filter((o) => !orders.has(o));
+  if (!refs.length) issues.push("no based_on_orders");
+  else if (unknown.length) issues.push(`based_on_orders reference unknown orders: ${[...new Set(unknown)].join(", ")}`);
+
+  const keywordCount = article.keywords?.length ?? 0;
+  if (keywordCount < thresholds.minKeywords) issues.push(`${keywordCount} keywords (expected ${thresholds.minKeywords})`);
+  if (!article.categories?.length) issues.push("no categories");
+  if (article.partial) issues.push(`partial: orders ${(article.failedOrders ?? []).join(", ")} have no summaries`);
+
+  const checks: Record<QualityCheck, number> = {
+    summaries: round(summaryParts.filter(Boolean).length / summaryParts.length),
+    title: titleOk ? 1 : 0,
+    dialogCoverage: round(dialogCoverage),
+    basedOnOrders: refs.length ? round((refs.length - unknown.length) / refs.length) : 0,
+    keywords: round(Math.min(1, keywordCount / thresholds.minKeywords)),
+    categories: article.categories?.length ? 1 : 0,
+  };
+  const values = Object.values(checks);
+  const score = round(values.reduce((a, b) => a + b, 0) / values.length);
+
+  let verdict: QualityVerdict =
+    !summaryParts[0] || score < thresholds.requeue ? "requeue"
+      : score < thresholds.review || !titleOk || article.partial ? "review"
+        : "store";
+  // Both thresholds at 0 turn the score off; only an empty summary still blocks storing
+  if (verdict === "review" && thresholds.review <= 0 && thresholds.requeue <= 0) verdict = "store";
+
+  return { score, verdict, checks, issues };
+}
@@ -0,0 +1,42 @@
+import { Reaction, type Dialog } from "@interfaces/Article";
+
+import { normalizeResponseTo, pruneResponseLinks } from "./responseLinks";
+
+const dialog = (order: number, response_to: Dialog["response_to"] = []): Dialog => ({
+  order, speaker: "", speaker_group: "", speaker_position: "", speaker_role: "",
+  original_text: "", summary: "", soft_language: "", response_to,
+});
+
+describe("response links", () => {
+  test("normalizes reactions and drops malformed or duplicate entries", () => {
+    expect(normalizeResponseTo([
+      { order: 1, reaction: "Question" },
+      { order: 1, reaction: "answer" },
+      { order: "2", reaction: "agree" },
+      { order: 3, reaction: "applause" },
+      { order: 1.5, reaction: "neutral" },
+      null,
+    ])).toEqual([
+      { order: 1, reaction: Reaction.QUESTION },
+      { order: 2, reaction: Reaction.AGREE },
+    ]);
+    expect(normalizeResponseTo(undefined)).toEqual([]);
+  });
+
+  test("keeps only links to earlier dialogs of the meeting", () => {
+    const dialogs = [
+      dialog(1),
+      dialog(2, [{ order: 1, reaction: Reaction.ANSWER }, { order: 2, reaction: Reaction.AGREE }]),
+      dialog(3, [{ order: 9, reaction: Reaction.DISAGREE }, { order: 4, reaction: Reaction.QUESTION }]),
+      dialog(4, [{ order: 2, reaction: Reaction.DISAGREE }]),
+    ];
+    const dropped = pruneResponseLinks(dialogs);
+    expect(dialogs.map((d) => d.response_to)).toEqual([
+      [],
+      [{ order: 1, reaction: "answer" }],
+      [],
+      [{ order: 2, reaction: "disagree" }],
+    ]);
+    expect(dropped.map((l) => [l.from, l.order])).toEqual([[2, 2], [3, 9], [3, 4]]);
+  });
+});
@@ -0,0 +1,42 @@
+import { Reaction, type Dialog, type ResponseTo } from "@interfaces/Article";
+
+const REACTIONS = new Set<string>(Object.values(Reaction));
+
+/**
+ * Normalize a model-provided `response_to` list:
+ * - drops entries without an integer order or with an unknown reaction
+ * - keeps the first entry per referenced order
+ */
+export function normalizeResponseTo(value: unknown): ResponseTo[] {
+  if (!Array.isArray(value)) return [];
+  const out: ResponseTo[] = [];
+  const seen = new Set<number>();
+  for (const v of value) {
+    const order = Number((v as any)?.order);
+    const reaction = String((v as any)?.reaction ?? "").trim().toLowerCase();
+    if (!Number.isInteger(order) || !REACTIONS.has(reaction) || seen.has(order)) continue;
+    seen.add(order);
+    out.push({ order, reaction: reaction as Reaction });
+  }
+  return out;
+}
+
+/**
+ * Drop links that do not point at an earlier dialog of the same meeting
+ * (unknown orders, self references, forward references). Chunks are summarized
+ * separately, so this can only be checked once every chunk is merged.
+ * Mutates `dialogs`; returns the dropped links.
+ */
+export function pruneResponseLinks(dialogs: Dialog[]): Array<{ from: number } & ResponseTo> {
+  const orders = new Set(dialogs.map((d) => d.order));
+  const dropped: Array<{ from: number } & ResponseTo> = [];
+  for (const d of dialogs) {
+    const kept = (d.response_to ?? []).filter((r) => {
+      const ok = orders.has(r.order) && r.order < d.order;
+      if (!ok) dropped.push({ from: d.order, ...r });
+      return ok;
+    });
+    d.response_to = kept;
+  }
+  return dropped;
+}
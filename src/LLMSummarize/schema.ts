@@ -11,7 +11,18 @@ export const chunkSchema = {
         properties: {
           order: { type: "integer" },
           summary: { type: "string" },
-          soft_language: { type: "string" }
+          soft_language: { type: "string" },
+          response_to: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                order: { type: "integer" },
+                reaction: { type: "string", enum: ["agree","disagree","neutral","question","answer"] }
+              },
+              required: ["order", "reaction"]
+            }
+          }
         },
         required: ["order"]
       }
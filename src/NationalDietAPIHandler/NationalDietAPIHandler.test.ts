@@ -0,0 +1,195 @@
+import { NationalDietApiClient, DietApiError, DietQueryError } from "@NationalDietAPIHandler/NationalDietAPIHandler";
+import type { RawMeetingData, RawMeetingRecord } from "@interfaces/Raw";
+
+const ENDPOINT = "https://kokkai.example/api/meeting";
+
+const client = (opts: Partial<ConstructorParameters<typeof NationalDietApiClient>[0]> = {}) =>
+  new NationalDietApiClient({ endpoint: ENDPOINT, requestsPerMinute: 0, retryBaseMs: 1, retryMaxMs: 2, ...opts });
+
+function response(status: number, body: string) {
+  return { ok: status >= 200 && status < 300, status, statusText: `S${status}`, text: async () => body } as any;
+}
+
+function meeting(issueID: string): RawMeetingRecord {
+  return {
+    issueID, imageKind: "会議録", searchObject: 0, session: 217,
+    nameOfHouse: "衆議院", nameOfMeeting: "本会議", issue: "第1号",
+    date: "2025-05-28", closing: null, speechRecord: [],
+  };
+}
+
+/** Serve `total` records in pages of `pageSize`, mimicking nextRecordPosition. */
+function mockPagedApi(total: number, pageSize: number) {
+  const calls: URL[] = [];
+  const fetchMock = jest.fn(async (input: any) => {
+    const url = new URL(String(input));
+    calls.push(url);
+    const start = Number(url.searchParams.get("startRecord") ?? 1);
+    const end = Math.min(total, start + pageSize - 1);
+    const records = Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => meeting(`ID${start + i}`));
+    const body: RawMeetingData = {
+      numberOfRecords: total,
+      numberOfReturn: records.length,
+      startRecord: start,
+      ...(end < total ? { nextRecordPosition: end + 1 } : {}),
+      meetingRecord: records,
+    };
+    return response(200, JSON.stringify(body));
+  });
+  (global as any).fetch = fetchMock;
+  return { fetchMock, calls };
+}
+
+describe("National Diet API pagination", () => {
+  const originalFetch = global.fetch;
+  beforeEach(() => {
+    jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+  });
+  afterEach(() => {
+    (global as any).fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  test("follows nextRecordPosition until the full result set is fetched", async () => {
+    const { calls } = mockPagedApi(23, 10);
+    const raw = await client().fetchMeetings({ from: "2025-05-28", until: "2025-05-28", maximumRecords: 10 });
+
+    expect(calls.map(u => u.searchParams.get("startRecord"))).toEqual(["1", "11", "21"]);
+    expect(calls.every(u => u.searchParams.get("maximumRecords") === "10")).toBe(true);
+    expect(raw.numberOfRecords).toBe(23);
+    expect(raw.numberOfReturn).toBe(23);
+    expect(raw.meetingRecord.map(m => m.issueID)).toEqual(Array.from({ length: 23 }, (_, i) => `ID${i + 1}`));
+    expect(raw.nextRecordPosition).toBeNull();
+  });
+
+  test("single page when the API omits nextRecordPosition", async () => {
+    const { fetchMock } = mockPagedApi(2, 10);
+    const raw = await client().fetchMeetings({});
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(raw.numberOfReturn).toBe(2);
+  });
+
+  test("iterator stops at maxPages", async () => {
+    mockPagedApi(100, 10);
+    const pages: RawMeetingData[] = [];
+    for await (const p of client().pages("meeting", { maximumRecords: 10 }, { maxPages: 2 })) pages.push(p);
+    expect(pages).toHaveLength(2);
+    expect(pages[1].startRecord).toBe(11);
+  });
+});
+
+describe("NationalDietApiClient resilience", () => {
+  const originalFetch = global.fetch;
+  beforeEach(() => {
+    jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+  });
+  afterEach(() => {
+    (global as any).fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  const page = JSON.stringify({ numberOfRecords: 0, numberOfReturn: 0, startRecord: 1, meetingRecord: [] });
+
+  test("retries 5xx and network errors, then succeeds", async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(response(503, "busy"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(response(200, page));
+    (global as any).fetch = fetchMock;
+
+    const raw = await client().fetchPage("meeting", {});
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(raw.numberOfRecords).toBe(0);
+  });
+
+  test("does not retry 4xx and surfaces status, url and body", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(response(400, '{"message":"bad param"}'));
+    (global as any).fetch = fetchMock;
+
+    const err = await client().fetchPage("meeting", { from: "2025-01-01" }).catch(e => e);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(err).toBeInstanceOf(DietApiError);
+    expect(err.status).toBe(400);
+    expect(err.url).toContain("from=2025-01-01");
+    expect(err.body).toContain("bad param");
+  });
+
+  test("gives up after retryMax attempts", async () => {
+    const fetchMock = jest.fn().mockResolvedValue(response(500, "oops"));
+    (global as any).fetch = fetchMock;
+
+    await expect(client({ retryMax: 2 }).fetchPage("meeting", {})).rejects.toMatchObject({ name: "DietApiError", status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test("aborts slow requests after timeoutMs", async () => {
+    (global as any).fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_res, rej) => {
+      init.signal!.addEventListener("abort", () => rej(new Error("aborted")));
+    }));
+
+    const err = await client({ timeoutMs: 20, retryMax: 0 }).fetchPage("meeting", {}).catch(e => e);
+    expect(err).toBeInstanceOf(DietApiError);
+    expect(err.message).toMatch(/timeout after 20ms/);
+    expect(err.status).toBeUndefined();
+  });
+});
+
+describe("NationalDietApiClient endpoints", () => {
+  const originalFetch = global.fetch;
+  beforeEach(() => {
+    jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+  });
+  afterEach(() => {
+    (global as any).fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  test("speech endpoint paginates over speechRecord with typed query params", async () => {
+    const urls: URL[] = [];
+    (global as any).fetch = jest.fn(async (input: any) => {
+      const url = new URL(String(input));
+      urls.push(url);
+      const start = Number(url.searchParams.get("startRecord"));
+      const body = start === 1
+        ? { numberOfRecords: 3, numberOfReturn: 2, startRecord: 1, nextRecordPosition: 3, speechRecord: [{ speechID: "a" }, { speechID: "b" }] }
+        : { numberOfRecords: 3, numberOfReturn: 1, startRecord: 3, speechRecord: [{ speechID: "c" }] };
+      return response(200, JSON.stringify(body));
+    });
+
+    const res = await client().fetchSpeeches({
+      speaker: "岸田文雄", nameOfHouse: "衆議院", sessionFrom: 210, sessionTo: 212,
+      searchRange: "本文", closing: false, maximumRecords: 2,
+    });
+
+    expect(urls[0].pathname).toBe("/api/speech");
+    expect(urls[0].searchParams.get("speaker")).toBe("岸田文雄");
+    expect(urls[0].searchParams.get("sessionFrom")).toBe("210");
+    expect(urls[0].searchParams.get("searchRange")).toBe("本文");
+    expect(urls[0].searchParams.get("closing")).toBe("false");
+    expect(urls[0].searchParams.get("recordPacking")).toBe("json");
+    expect(res.speechRecord.map(r => r.speechID)).toEqual(["a", "b", "c"]);
+    expect(res.numberOfReturn).toBe(3);
+  });
+
+  test("meeting_list resolves against the API root and defaults page size to 100", async () => {
+    const urls: URL[] = [];
+    (global as any).fetch = jest.fn(async (input: any) => {
+      urls.push(new URL(String(input)));
+      return response(200, JSON.stringify({ numberOfRecords: 0, numberOfReturn: 0, startRecord: 1, meetingRecord: [] }));
+    });
+
+    await client().listMeetings({ nameOfMeeting: "予算委員会" });
+    expect(urls[0].pathname).toBe("/api/meeting_list");
+    expect(urls[0].searchParams.get("maximumRecords")).toBe("100");
+  });
+
+  test("rejects queries the API would refuse before sending them", async () => {
+    const fetchMock = jest.fn();
+    (global as any).fetch = fetchMock;
+
+    await expect(client().fetchMeetings({ maximumRecords: 50 })).rejects.toBeInstanceOf(DietQueryError);
+    await expect(client().fetchSpeeches({ sessionFrom: 212, sessionTo: 210 })).rejects.toThrow(/sessionFrom must be <= sessionTo/);
+    await expect(client().listMeetings({ from: "2025/01/01" })).rejects.toMatchObject({ field: "from" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
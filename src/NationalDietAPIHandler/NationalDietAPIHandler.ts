@@ -1,43 +1,287 @@
-import { RawMeetingData } from '@interfaces/Raw';
-
-export interface FetchParams {
-    from?: string;
-    until?: string;
-    [key: string]: any;
-}
-
-async function fetchNationalDietRecords(
-    endpoint: string, params: FetchParams = {}
-): Promise<RawMeetingData> {
-
-    const {
-        from = '0000-01-01',  // Default start date if not specified
-        until = new Date().toISOString().split('T')[0], // Default to today
-        ...otherParams
-    } = params;
-    
-    const queryParams = new URLSearchParams({
-        from,
-        until,
-        recordPacking: 'json',
-        ...otherParams
-    });
-
-    const url = `${endpoint}?${queryParams}`;
-
-    console.log(`Fetching records from: ${url}`);
-
-    try {
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`API request failed: ${response.statusText}`);
-        }
+import type { RawMeetingData, RawMeetingListData, RawSpeechData } from '@interfaces/Raw';
+import { TokenBucket } from '@llm/limiters';
+import { logger as rootLogger, type Logger } from '@utils/logger';
+import { tracer } from '@utils/tracing';
+import { buildDietQuery, MAX_RECORDS, type DietEndpoint, type DietQuery } from './query';
+
+export type { DietEndpoint, DietQuery, NameOfHouse } from './query';
+export { DietQueryError, MAX_RECORDS, NAME_OF_HOUSES } from './query';
+
+/** Response shape per endpoint. */
+export interface DietResponse {
+    meeting: RawMeetingData;
+    meeting_list: RawMeetingListData;
+    speech: RawSpeechData;
+}
+
+/** Records of one page, whichever key the endpoint uses for them. */
+function recordsOf<K extends DietEndpoint>(endpoint: K, page: DietResponse[K]): unknown[] {
+    const records = endpoint === 'speech'
+        ? (page as RawSpeechData).speechRecord
+        : (page as RawMeetingData | RawMeetingListData).meetingRecord;
+    return Array.isArray(records) ? records : [];
+}
+
+/**
+ * Accept either the API root (".../api") or an endpoint URL (".../api/meeting").
+ * Any query string on the configured URL is dropped; use DietQuery instead.
+ */
+function toBaseUrl(endpoint: string): string {
+    const url = new URL(endpoint);
+    url.search = '';
+    url.hash = '';
+    url.pathname = url.pathname.replace(/\/(meeting_list|meeting|speech)\/?$/, '').replace(/\/$/, '');
+    return url.toString();
+}
+
+/** Error raised for any failed National Diet API request (HTTP, network, timeout or bad JSON). */
+export class DietApiError extends Error {
+    constructor(
+        message: string,
+        public readonly url: string,
+        public readonly status?: number,   // undefined for network errors / timeouts
+        public readonly body?: string,     // response body (truncated), when available
+        public readonly cause?: unknown
+    ) {
+        super(message);
+        this.name = 'DietApiError';
+    }
+
+    /** 5xx, 429, timeouts and network failures are worth another attempt. */
+    get retriable(): boolean {
+        if (this.status == null) return true;
+        return this.status >= 500 || this.status === 429 || this.status === 408;
+    }
+}
+
+export interface NationalDietApiClientOptions {
+    endpoint: string;            // API root or any endpoint URL under it
+    timeoutMs?: number;          // per-request timeout (AbortController)
+    retryMax?: number;           // retries after the first attempt
+    retryBaseMs?: number;        // backoff base
+    retryMaxMs?: number;         // backoff cap
+    requestsPerMinute?: number;  // per-host limit; <= 0 disables
+    logger?: Logger;
+}
 
-        return await response.json();
-    } catch (error) {
-        console.error('Failed to fetch records:', error);
-        throw error;
+/** Sleep helper. */
+function sleep(ms: number) { return new Promise(res => setTimeout(res, ms)); }
+
+/** Exponential backoff with full jitter. */
+function backoffMs(attempt: number, base: number, cap: number) {
+    const exp = Math.min(cap, base * Math.pow(2, attempt));
+    return Math.floor(Math.random() * (exp + 1));
+}
+
+function truncate(s: string, max = 2000) {
+    return s.length > max ? `${s.slice(0, max)}…` : s;
+}
+
+/**
+ * Request buckets shared by every client talking to the same host, so that
+ * several clients in one process still stay within the polite limit.
+ * The first client to register a host decides its rate.
+ */
+const hostBuckets = new Map<string, TokenBucket>();
+
+function bucketForHost(host: string, requestsPerMinute: number): TokenBucket {
+    let bucket = hostBuckets.get(host);
+    if (!bucket) {
+        bucket = new TokenBucket(requestsPerMinute);
+        hostBuckets.set(host, bucket);
     }
+    return bucket;
 }
 
-export default fetchNationalDietRecords;
\ No newline at end of file
+/**
+ * National Diet API client for the meeting, meeting_list and speech endpoints,
+ * with timeouts, retries (exponential backoff on 5xx / network errors), a
+ * per-host request rate limit and pagination over `nextRecordPosition`.
+ */
+export class NationalDietApiClient {
+    private readonly baseUrl: string;
+    private readonly timeoutMs: number;
+    private readonly retryMax: number;
+    private readonly retryBaseMs: number;
+    private readonly retryMaxMs: number;
+    private readonly bucket?: TokenBucket;
+    private readonly logger: Logger;
+
+    constructor(opts: NationalDietApiClientOptions) {
+        this.logger = opts.logger ?? rootLogger.child({ component: 'dietApi' });
+        this.baseUrl = toBaseUrl(opts.endpoint);
+        this.timeoutMs = opts.timeoutMs ?? Number(process.env.NATIONAL_DIET_API_TIMEOUT_MS ?? 30_000);
+        this.retryMax = opts.retryMax ?? Number(process.env.NATIONAL_DIET_API_RETRY_MAX ?? 3);
+        this.retryBaseMs = opts.retryBaseMs ?? Number(process.env.NATIONAL_DIET_API_RETRY_BASE_MS ?? 1000);
+        this.retryMaxMs = opts.retryMaxMs ?? Number(process.env.NATIONAL_DIET_API_RETRY_MAX_MS ?? 16_000);
+
+        const rpm = opts.requestsPerMinute ?? Number(process.env.NATIONAL_DIET_API_RPM ?? 30);
+        if (rpm > 0) this.bucket = bucketForHost(new URL(this.baseUrl).host, rpm);
+    }
+
+    /** Build the request URL for one page. */
+    private buildUrl(endpoint: DietEndpoint, query: DietQuery): string {
+        const {
+            from = '0000-01-01',  // Default start date if not specified
+            until = new Date().toISOString().split('T')[0], // Default to today
+            maximumRecords = MAX_RECORDS[endpoint],
+        } = query;
+
+        const url = new URL(`${this.baseUrl}/${endpoint}`);
+        const params = buildDietQuery(endpoint, { ...query, from, until, maximumRecords });
+        params.forEach((v, k) => url.searchParams.set(k, v));
+        return url.toString();
+    }
+
+    /** One HTTP attempt (traced): rate limit, timeout, status check and JSON parsing. */
+    private request<T>(url: string, attempt: number): Promise<T> {
+        return tracer.withSpan('dietApi.request', { 'http.url': url, attempt }, async (span) => {
+            if (this.bucket) span.setAttribute('rateLimitWaitMs', await this.bucket.acquire(1));
+            return this.send<T>(url, (status) => span.setAttribute('http.status_code', status));
+        });
+    }
+
+    private async send<T>(url: string, onStatus: (status: number) => void): Promise<T> {
+
+        const controller = new AbortController();
+        const timer = this.timeoutMs > 0
+            ? setTimeout(() => controller.abort(), this.timeoutMs)
+            : undefined;
+
+        try {
+            let response: Response;
+            try {
+                response = await fetch(url, { signal: controller.signal });
+            } catch (e) {
+                const message = controller.signal.aborted
+                    ? `National Diet API timeout after ${this.timeoutMs}ms`
+                    : `National Diet API network error: ${(e as Error)?.message ?? String(e)}`;
+                throw new DietApiError(message, url, undefined, undefined, e);
+            }
+
+            onStatus(response.status);
+            const text = await response.text();
+            if (!response.ok) {
+                throw new DietApiError(
+                    `National Diet API request failed: ${response.status} ${response.statusText}`,
+                    url, response.status, truncate(text)
+                );
+            }
+
+            let parsed: any;
+            try {
+                parsed = JSON.parse(text);
+            } catch (e) {
+                // Not retriable: the server answered, just not with JSON
+                throw new DietApiError('National Diet API returned non-JSON', url, response.status, truncate(text), e);
+            }
+
+            // Error JSON ({ message, details }) is sometimes served with 200
+            if (parsed && typeof parsed.message === 'string' && !('numberOfRecords' in parsed)) {
+                throw new DietApiError(`National Diet API error: ${parsed.message}`, url, response.status, truncate(text));
+            }
+            return parsed as T;
+        } finally {
+            if (timer) clearTimeout(timer);
+        }
+    }
+
+    /** Retry wrapper with exponential backoff + jitter. */
+    private async withRetry<T>(op: (attempt: number) => Promise<T>): Promise<T> {
+        let lastErr: unknown;
+        for (let attempt = 0; attempt <= this.retryMax; attempt++) {
+            try {
+                return await op(attempt + 1);
+            } catch (e) {
+                lastErr = e;
+                const retriable = e instanceof DietApiError ? e.retriable : false;
+                if (attempt === this.retryMax || !retriable) break;
+                const wait = backoffMs(attempt, this.retryBaseMs, this.retryMaxMs);
+                this.logger.warn('National Diet API request failed; retrying', { attempt: attempt + 1, waitMs: wait, error: e });
+                await sleep(wait);
+            }
+        }
+        throw lastErr;
+    }
+
+    /**
+     * Fetch a single page from the given endpoint.
+     * `startRecord` / `maximumRecords` are passed through as-is.
+     */
+    async fetchPage<K extends DietEndpoint>(endpoint: K, query: DietQuery = {}): Promise<DietResponse[K]> {
+        const url = this.buildUrl(endpoint, query);
+        this.logger.debug('Fetching records', { endpoint, url });
+        return this.withRetry((attempt) => this.request<DietResponse[K]>(url, attempt));
+    }
+
+    /**
+     * Iterate over every page of a result set by following `nextRecordPosition`.
+     * Stops when the API omits `nextRecordPosition`, returns an empty page,
+     * or when `maxPages` is reached (safety net against runaway loops).
+     */
+    async *pages<K extends DietEndpoint>(
+        endpoint: K, query: DietQuery = {}, opts: { maxPages?: number } = {}
+    ): AsyncGenerator<DietResponse[K]> {
+        const maxPages = opts.maxPages ?? Number(process.env.NATIONAL_DIET_API_MAX_PAGES ?? 1000);
+        let startRecord = query.startRecord ?? 1;
+
+        for (let page = 0; page < maxPages; page++) {
+            const data = await this.fetchPage(endpoint, { ...query, startRecord });
+            yield data;
+
+            const next = data.nextRecordPosition;
+            if (!next || !recordsOf(endpoint, data).length || next <= startRecord) return;
+            startRecord = next;
+        }
+        this.logger.warn('Stopped paginating at maxPages', { endpoint, maxPages, startRecord });
+    }
+
+    /**
+     * Fetch the full result set, aggregating records across all pages.
+     * `numberOfRecords` keeps the API-reported total; `numberOfReturn` is the
+     * number of records actually fetched, so callers can compare the two.
+     */
+    async fetchAll<K extends DietEndpoint>(
+        endpoint: K, query: DietQuery = {}, opts: { maxPages?: number } = {}
+    ): Promise<DietResponse[K]> {
+        const key = endpoint === 'speech' ? 'speechRecord' : 'meetingRecord';
+        const records: unknown[] = [];
+        let numberOfRecords = 0;
+        let startRecord = query.startRecord ?? 1;
+        let nextRecordPosition: number | null = null;
+
+        let first = true;
+        for await (const page of this.pages(endpoint, query, opts)) {
+            if (first) {
+                numberOfRecords = page.numberOfRecords ?? 0;
+                startRecord = page.startRecord ?? startRecord;
+                first = false;
+            }
+            records.push(...recordsOf(endpoint, page));
+            nextRecordPosition = page.nextRecordPosition ?? null;
+        }
+
+        return {
+            numberOfRecords,
+            numberOfReturn: records.length,
+            startRecord,
+            nextRecordPosition,
+            [key]: records,
+        } as unknown as DietResponse[K];
+    }
+
+    /** Meetings with full speech text (/api/meeting). */
+    fetchMeetings(query: DietQuery = {}, opts: { maxPages?: number } = {}): Promise<RawMeetingData> {
+        return this.fetchAll('meeting', query, opts);
+    }
+
+    /** Individual speeches, e.g. one speaker across committees (/api/speech). */
+    fetchSpeeches(query: DietQuery = {}, opts: { maxPages?: number } = {}): Promise<RawSpeechData> {
+        return this.fetchAll('speech', query, opts);
+    }
+
+    /** Cheap "what exists?" listing without speech text (/api/meeting_list). */
+    listMeetings(query: DietQuery = {}, opts: { maxPages?: number } = {}): Promise<RawMeetingListData> {
+        return this.fetchAll('meeting_list', query, opts);
+    }
+}
@@ -0,0 +1,33 @@
+import { meetingFingerprint } from "@NationalDietAPIHandler/fingerprint";
+import type { RawMeetingRecord, RawSpeechRecord } from "@interfaces/Raw";
+
+function speech(order: number, updateTime: string, text = `発言${order}`): RawSpeechRecord {
+  return {
+    speechID: `X_${order}`, speechOrder: order, speaker: "議長", speakerYomi: null,
+    speakerGroup: null, speakerPosition: null, speakerRole: null, speech: text,
+    startPage: 1, createTime: "2025-06-01 10:00:00", updateTime, speechURL: "",
+  };
+}
+
+function meeting(speechRecord: RawSpeechRecord[]): RawMeetingRecord {
+  return {
+    issueID: "A", imageKind: "会議録", searchObject: 0, session: 217, nameOfHouse: "衆議院",
+    nameOfMeeting: "本会議", issue: "第1号", date: "2025-05-28", closing: null, speechRecord,
+  };
+}
+
+describe("meetingFingerprint", () => {
+  const base = [speech(1, "2025-06-01 10:00:00"), speech(2, "2025-06-02 09:00:00")];
+
+  test("is stable regardless of speech array order", () => {
+    expect(meetingFingerprint(meeting(base))).toEqual(meetingFingerprint(meeting([...base].reverse())));
+  });
+
+  test("changes when a speech is amended and reports the latest updateTime", () => {
+    const before = meetingFingerprint(meeting(base));
+    const after = meetingFingerprint(meeting([base[0], speech(2, "2025-06-05 12:00:00", "訂正後の発言")]));
+    expect(after.sourceHash).not.toBe(before.sourceHash);
+    expect(before.sourceUpdatedAt).toBe("2025-06-02 09:00:00");
+    expect(after.sourceUpdatedAt).toBe("2025-06-05 12:00:00");
+  });
+});
@@ -0,0 +1,30 @@
+import crypto from "node:crypto";
+import type { RawMeetingRecord } from "@interfaces/Raw";
+
+export interface MeetingFingerprint {
+  sourceHash: string;       // sha256 over meeting metadata + every speech (id, order, updateTime, text)
+  sourceUpdatedAt: string;  // latest speech updateTime ("YYYY-MM-DD HH:MM:SS"), "" when unknown
+}
+
+/**
+ * Content fingerprint of a raw meeting, used to detect whether a meeting
+ * changed since it was last summarized. Independent of speech array order.
+ */
+export function meetingFingerprint(raw: RawMeetingRecord): MeetingFingerprint {
+  const speeches = [...(raw.speechRecord ?? [])]
+    .sort((a, b) => (a.speechOrder - b.speechOrder) || a.speechID.localeCompare(b.speechID))
+    .map((s) => [s.speechID, s.speechOrder, s.updateTime, s.speech]);
+
+  const canonical = JSON.stringify([
+    raw.issueID, raw.session, raw.nameOfHouse, raw.nameOfMeeting, raw.issue, raw.date, raw.imageKind, speeches,
+  ]);
+
+  const sourceUpdatedAt = (raw.speechRecord ?? [])
+    .map((s) => s.updateTime ?? "")
+    .reduce((max, t) => (t > max ? t : max), "");
+
+  return {
+    sourceHash: crypto.createHash("sha256").update(canonical).digest("hex"),
+    sourceUpdatedAt,
+  };
+}
@@ -0,0 +1,112 @@
+// Typed query builder for the National Diet API (kokkai.ndl.go.jp/api/*).
+//
+// Endpoints
+// ---------
+// - meeting       : meetings with full speech text  (maximumRecords 1..10)
+// - meeting_list  : meetings with speech headers only, no text (1..100)
+// - speech        : individual speeches with meeting metadata   (1..100)
+//
+// All endpoints share the same search conditions; only the page size limit
+// and the response shape differ.
+
+export type DietEndpoint = "meeting" | "meeting_list" | "speech";
+
+export type NameOfHouse = "衆議院" | "参議院" | "両院" | "両院協議会";
+export const NAME_OF_HOUSES: NameOfHouse[] = ["衆議院", "参議院", "両院", "両院協議会"];
+export type SearchRange = "冒頭" | "本文" | "冒頭・本文";
+export type SpeakerRole = "証人" | "参考人" | "公述人";
+
+export interface DietQuery {
+  nameOfHouse?: NameOfHouse;
+  nameOfMeeting?: string;          // partial match; space-separated = OR
+  any?: string;                    // full-text keywords; space-separated = AND
+  speaker?: string;                // speaker name; space-separated = OR
+  from?: string;                   // YYYY-MM-DD
+  until?: string;                  // YYYY-MM-DD
+  supplementAndAppendix?: boolean; // include 附録/追録
+  contentsAndIndex?: boolean;      // include 目次/索引
+  searchRange?: SearchRange;       // where `any` is matched
+  closing?: boolean;               // include meetings held during the recess
+  speechNumber?: number;
+  speakerPosition?: string;
+  speakerGroup?: string;
+  speakerRole?: SpeakerRole;
+  speechID?: string;
+  issueID?: string;
+  sessionFrom?: number;
+  sessionTo?: number;
+  issueFrom?: number;
+  issueTo?: number;
+  startRecord?: number;
+  maximumRecords?: number;
+}
+
+/** Page size upper bound per endpoint (API rejects larger values). */
+export const MAX_RECORDS: Record<DietEndpoint, number> = {
+  meeting: 10,
+  meeting_list: 100,
+  speech: 100,
+};
+
+/** Raised when a query would be rejected by the API anyway. */
+export class DietQueryError extends Error {
+  constructor(message: string, public readonly field?: keyof DietQuery) {
+    super(message);
+    this.name = "DietQueryError";
+  }
+}
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+function assertPositiveInt(q: DietQuery, field: keyof DietQuery) {
+  const v = q[field];
+  if (v == null) return;
+  if (typeof v !== "number" || !Number.isInteger(v) || v < 1) {
+    throw new DietQueryError(`${field} must be a positive integer, got: ${v}`, field);
+  }
+}
+
+function assertRange(q: DietQuery, lo: keyof DietQuery, hi: keyof DietQuery) {
+  const a = q[lo], b = q[hi];
+  if (a != null && b != null && (a as number | string) > (b as number | string)) {
+    throw new DietQueryError(`${lo} must be <= ${hi} (${a} > ${b})`, lo);
+  }
+}
+
+/** Validate a query against the API's documented constraints. */
+export function validateDietQuery(endpoint: DietEndpoint, q: DietQuery): void {
+  for (const f of ["from", "until"] as const) {
+    const v = q[f];
+    if (v != null && (!YMD.test(v) || Number.isNaN(new Date(`${v}T00:00:00Z`).getTime()))) {
+      throw new DietQueryError(`${f} must be YYYY-MM-DD, got: ${v}`, f);
+    }
+  }
+  for (const f of ["speechNumber", "sessionFrom", "sessionTo", "issueFrom", "issueTo", "startRecord", "maximumRecords"] as const) {
+    assertPositiveInt(q, f);
+  }
+  assertRange(q, "from", "until");
+  assertRange(q, "sessionFrom", "sessionTo");
+  assertRange(q, "issueFrom", "issueTo");
+
+  const max = MAX_RECORDS[endpoint];
+  if (q.maximumRecords != null && q.maximumRecords > max) {
+    throw new DietQueryError(`maximumRecords for /${endpoint} must be <= ${max}, got: ${q.maximumRecords}`, "maximumRecords");
+  }
+}
+
+/**
+ * Serialize a query into URLSearchParams for the given endpoint.
+ * Undefined fields are dropped, booleans become "true"/"false", and
+ * `recordPacking=json` is always set.
+ */
+export function buildDietQuery(endpoint: DietEndpoint, q: DietQuery): URLSearchParams {
+  validateDietQuery(endpoint, q);
+
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(q)) {
+    if (v == null || v === "") continue;
+    params.set(k, typeof v === "boolean" ? String(v) : String(v).trim());
+  }
+  params.set("recordPacking", "json");
+  return params;
+}
@@ -0,0 +1,49 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+
+import { RawArchive, eachDate } from "@NationalDietAPIHandler/rawArchive";
+import type { RawMeetingRecord } from "@interfaces/Raw";
+
+function meeting(issueID: string, date: string): RawMeetingRecord {
+  return {
+    issueID, imageKind: "会議録", searchObject: 0, session: 217, nameOfHouse: "衆議院",
+    nameOfMeeting: "本会議", issue: "第1号", date, closing: null, speechRecord: [],
+  };
+}
+
+describe("RawArchive (local directory)", () => {
+  let dir: string;
+  beforeEach(async () => { dir = await fs.mkdtemp(path.join(os.tmpdir(), "raw-archive-")); });
+  afterEach(async () => { await fs.remove(dir); });
+
+  test("eachDate is inclusive", () => {
+    expect(eachDate("2025-02-27", "2025-03-01")).toEqual(["2025-02-27", "2025-02-28", "2025-03-01"]);
+    expect(eachDate("2025-03-02", "2025-03-01")).toEqual([]);
+  });
+
+  test("writes deterministic keys and replays a date range", async () => {
+    const archive = new RawArchive({ localDir: dir });
+    const res = await archive.putAll([
+      meeting("B", "2025-05-28"),
+      meeting("A", "2025-05-28"),
+      meeting("C", "2025-05-30"),
+      meeting("D", "2025-06-02"),
+    ]);
+    expect(res.failed).toEqual([]);
+    expect(await fs.pathExists(path.join(dir, "raw/2025-05-28/A.json"))).toBe(true);
+
+    const replay = await archive.load("2025-05-28", "2025-05-31");
+    expect(replay.meetingRecord.map(m => m.issueID)).toEqual(["A", "B", "C"]);
+    expect(replay.numberOfRecords).toBe(3);
+    expect(await archive.get("2025-06-02", "D")).toMatchObject({ issueID: "D" });
+    expect(await archive.get("2025-06-02", "missing")).toBeUndefined();
+  });
+
+  test("skips records that cannot be keyed", async () => {
+    const archive = new RawArchive({ localDir: dir, prefix: "fixtures" });
+    const res = await archive.putAll([meeting("", "2025-05-28"), meeting("X", "not-a-date")]);
+    expect(res.stored).toEqual([]);
+    expect(res.failed).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+// Replayable archive of raw National Diet API meeting records.
+//
+// Layout (S3 bucket, or OUT_DIR when APP_ENV=local):
+//   <prefix>/<YYYY-MM-DD>/<issueID>.json   -> one RawMeetingRecord, exactly as fetched
+//
+// Keys are deterministic, so re-fetching a day overwrites the previous copy
+// (the bucket keeps older versions when versioning is enabled).
+
+import fs from "fs-extra";
+import path from "node:path";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+
+import type { RawMeetingData, RawMeetingRecord } from "@interfaces/Raw";
+
+export interface RawArchiveOptions {
+  s3?: S3Client;
+  bucket?: string;    // required for S3 mode
+  prefix?: string;    // default "raw"
+  localDir?: string;  // when set, read/write the filesystem instead of S3
+}
+
+/** Every YYYY-MM-DD from `from` to `until`, inclusive. */
+export function eachDate(from: string, until: string): string[] {
+  const out: string[] = [];
+  const end = new Date(`${until}T00:00:00Z`).getTime();
+  for (let t = new Date(`${from}T00:00:00Z`).getTime(); t <= end; t += 86_400_000) {
+    out.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return out;
+}
+
+export class RawArchive {
+  private readonly s3?: S3Client;
+  private readonly bucket?: string;
+  private readonly prefix: string;
+  private readonly localDir?: string;
+
+  constructor(opts: RawArchiveOptions) {
+    this.s3 = opts.s3;
+    this.bucket = opts.bucket;
+    this.prefix = (opts.prefix ?? "raw").replace(/\/$/, "");
+    this.localDir = opts.localDir;
+  }
+
+  /** Archive is usable when it has either a local directory or an S3 bucket. */
+  get enabled(): boolean {
+    return !!this.localDir || !!(this.s3 && this.bucket);
+  }
+
+  /** Deterministic key for one meeting record. */
+  keyFor(rec: Pick<RawMeetingRecord, "date" | "issueID">): string {
+    return `${this.prefix}/${rec.date}/${rec.issueID}.json`;
+  }
+
+  /** Store one record. Records without a usable date/issueID cannot be keyed and are skipped. */
+  async put(rec: RawMeetingRecord): Promise<string | undefined> {
+    if (!this.enabled) return undefined;
+    if (typeof rec?.issueID !== "string" || !rec.issueID || !/^\d{4}-\d{2}-\d{2}$/.test(String(rec?.date))) {
+      return undefined;
+    }
+    const key = this.keyFor(rec);
+    const body = JSON.stringify(rec, null, 2);
+
+    if (this.localDir) {
+      const file = path.join(this.localDir, key);
+      await fs.ensureDir(path.dirname(file));
+      await fs.writeFile(file, body, "utf8");
+      return file;
+    }
+
+    await this.s3!.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: "application/json",
+    }));
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  /**
+   * Store many records with bounded concurrency. Best-effort: failures are
+   * reported back instead of thrown so archiving never aborts a run.
+   */
+  async putAll(records: RawMeetingRecord[], concurrency = 8): Promise<{ stored: string[]; failed: Array<{ issueID?: string; error: string }> }> {
+    const stored: string[] = [];
+    const failed: Array<{ issueID?: string; error: string }> = [];
+    for (let i = 0; i < records.length; i += concurrency) {
+      await Promise.all(records.slice(i, i + concurrency).map(async (rec) => {
+        try {
+          const where = await this.put(rec);
+          if (where) stored.push(where);
+        } catch (e) {
+          failed.push({ issueID: rec?.issueID, error: e instanceof Error ? e.message : String(e) });
+        }
+      }));
+    }
+    return { stored, failed };
+  }
+
+  /** Keys of all records archived for one day. */
+  private async listDay(date: string): Promise<string[]> {
+    const dayPrefix = `${this.prefix}/${date}/`;
+
+    if (this.localDir) {
+      const dir = path.join(this.localDir, dayPrefix);
+      if (!(await fs.pathExists(dir))) return [];
+      return (await fs.readdir(dir))
+        .filter((f) => f.endsWith(".json"))
+        .sort()
+        .map((f) => `${dayPrefix}${f}`);
+    }
+
+    const keys: string[] = [];
+    let token: string | undefined;
+    do {
+      const res = await this.s3!.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: dayPrefix,
+        ContinuationToken: token,
+      }));
+      for (const o of res.Contents ?? []) if (o.Key?.endsWith(".json")) keys.push(o.Key);
+      token = res.IsTruncated ? res.NextContinuationToken : undefined;
+    } while (token);
+    return keys.sort();
+  }
+
+  private async read(key: string): Promise<unknown> {
+    if (this.localDir) return fs.readJson(path.join(this.localDir, key));
+
+    const res = await this.s3!.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    const text = await res.Body!.transformToString("utf-8");
+    return JSON.parse(text);
+  }
+
+  /** Read one archived meeting, or undefined when it was never archived. */
+  async get(date: string, issueID: string): Promise<RawMeetingRecord | undefined> {
+    const key = this.keyFor({ date, issueID });
+    try {
+      return (await this.read(key)) as RawMeetingRecord;
+    } catch (e: any) {
+      if (e?.code === "ENOENT" || e?.name === "NoSuchKey") return undefined;
+      throw e;
+    }
+  }
+
+  /**
+   * Load every archived meeting in [from, until] as a RawMeetingData payload,
+   * so it can go through the same validation / pipeline as a live fetch.
+   */
+  async load(from: string, until: string): Promise<RawMeetingData> {
+    if (!this.enabled) throw new Error("Raw archive is not configured (set RAW_ARCHIVE_BUCKET or APP_ENV=local)");
+
+    const meetingRecord: RawMeetingRecord[] = [];
+    for (const date of eachDate(from, until)) {
+      for (const key of await this.listDay(date)) {
+        meetingRecord.push((await this.read(key)) as RawMeetingRecord);
+      }
+    }
+    return {
+      numberOfRecords: meetingRecord.length,
+      numberOfReturn: meetingRecord.length,
+      startRecord: 1,
+      nextRecordPosition: null,
+      meetingRecord,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { validateMeetingData, RawDataValidationError } from "@NationalDietAPIHandler/validate";
+
+function speech(order: number, overrides: Record<string, unknown> = {}) {
+  return {
+    speechID: `121705254X00120250528_${String(order).padStart(3, "0")}`,
+    speechOrder: order,
+    speaker: "議長",
+    speakerYomi: null,
+    speakerGroup: "",
+    speakerPosition: null,
+    speakerRole: null,
+    speech: `発言${order}`,
+    startPage: 1,
+    createTime: "2025-06-01 10:00:00",
+    updateTime: "2025-06-01 10:00:00",
+    speechURL: "https://kokkai.ndl.go.jp/txt/x",
+    ...overrides,
+  };
+}
+
+function meeting(issueID: string, overrides: Record<string, unknown> = {}) {
+  return {
+    issueID,
+    imageKind: "会議録",
+    searchObject: 0,
+    session: 217,
+    nameOfHouse: "衆議院",
+    nameOfMeeting: "本会議",
+    issue: "第1号",
+    date: "2025-05-28",
+    closing: null,
+    speechRecord: [speech(0), speech(1)],
+    ...overrides,
+  };
+}
+
+describe("validateMeetingData", () => {
+  test("passes well-formed payloads through and normalizes nullable fields", () => {
+    const { data, warnings, quarantined } = validateMeetingData({
+      numberOfRecords: 1, numberOfReturn: 1, startRecord: 1, meetingRecord: [meeting("A")],
+    });
+    expect(quarantined).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(data.meetingRecord).toHaveLength(1);
+    expect(data.meetingRecord[0].speechRecord[0].speakerGroup).toBeNull();
+    expect(data.nextRecordPosition).toBeNull();
+  });
+
+  test("rejects API error JSON with the API's message", () => {
+    expect(() => validateMeetingData({ message: "検索条件が不正です", details: ["from"] }))
+      .toThrow(/検索条件が不正です \(from\)/);
+    expect(() => validateMeetingData("nope")).toThrow(RawDataValidationError);
+    expect(() => validateMeetingData({ numberOfRecords: 3 })).toThrow(/meetingRecord missing/);
+  });
+
+  test("accepts an empty result set without meetingRecord", () => {
+    const { data } = validateMeetingData({ numberOfRecords: 0, numberOfReturn: 0, startRecord: 0 });
+    expect(data.meetingRecord).toEqual([]);
+  });
+
+  test("quarantines malformed meetings and keeps the rest", () => {
+    const { data, quarantined } = validateMeetingData({
+      numberOfRecords: 3,
+      meetingRecord: [
+        meeting("A"),
+        meeting("B", { speechRecord: undefined }),
+        meeting("", { date: "2025/05/28" }),
+      ],
+    });
+    expect(data.meetingRecord.map(m => m.issueID)).toEqual(["A"]);
+    expect(quarantined).toHaveLength(2);
+    expect(quarantined[0]).toMatchObject({ index: 1, issueID: "B", reasons: ["speechRecord missing or not an array"] });
+    expect(quarantined[1].reasons).toEqual(expect.arrayContaining(["issueID missing", expect.stringMatching(/^date invalid/)]));
+  });
+
+  test("warns on unknown imageKind and coercible fields instead of failing", () => {
+    const { data, warnings } = validateMeetingData({
+      numberOfRecords: "1",
+      meetingRecord: [meeting("A", {
+        imageKind: "速記録",
+        session: "217",
+        speechRecord: [speech(0, { speechOrder: "x" }), speech(1), { speechID: "broken" }],
+      })],
+    });
+    const m = data.meetingRecord[0];
+    expect(m.imageKind).toBe("会議録");
+    expect(m.session).toBe(217);
+    expect(m.speechRecord.map(s => s.speechOrder)).toEqual([1, 1]);
+    expect(warnings.map(w => w.path)).toEqual([
+      "meetingRecord[0].imageKind",
+      "meetingRecord[0].speechRecord[0].speechOrder",
+      "meetingRecord[0].speechRecord[2].speech",
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+// Runtime validation + normalization of /api/meeting responses.
+//
+// The API is trusted for structure only after passing through here:
+// - Envelope problems (error JSON, missing/invalid meetingRecord) reject the whole payload.
+// - Meeting-level problems (no issueID, no speechRecord, bad date/session) quarantine that meeting only.
+// - Field-level oddities (nullable strings, numeric strings, unknown imageKind) are normalized
+//   and reported as warnings.
+
+import type { RawMeetingData, RawMeetingRecord, RawSpeechRecord } from "@interfaces/Raw";
+
+export const IMAGE_KINDS = ["会議録", "目次", "索引", "附録", "追録"] as const;
+
+export interface ValidationWarning {
+  issueID?: string;
+  speechID?: string;
+  path: string;     // e.g. "meetingRecord[3].speechRecord[12].speechOrder"
+  message: string;
+}
+
+export interface QuarantinedMeeting {
+  index: number;
+  issueID?: string;
+  reasons: string[];
+  record: unknown;  // as received, for the run log
+}
+
+export interface MeetingValidationResult {
+  data: RawMeetingData;               // only meetings that passed, normalized
+  warnings: ValidationWarning[];
+  quarantined: QuarantinedMeeting[];
+}
+
+/** The payload as a whole is unusable (API error JSON, wrong shape). */
+export class RawDataValidationError extends Error {
+  constructor(message: string, public readonly payload?: unknown) {
+    super(message);
+    this.name = "RawDataValidationError";
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === "object" && !Array.isArray(v);
+
+/** Coerce numbers and numeric strings; undefined when not numeric. */
+function toNumber(v: unknown): number | undefined {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim() !== "" && Number.isFinite(Number(v))) return Number(v);
+  return undefined;
+}
+
+/** Empty/absent strings become null. */
+function toNullableString(v: unknown): string | null {
+  if (v == null) return null;
+  const s = String(v);
+  return s.trim() === "" ? null : s;
+}
+
+function normalizeSpeech(
+  s: unknown, path: string, issueID: string, fallbackOrder: number, warnings: ValidationWarning[]
+): RawSpeechRecord | null {
+  if (!isObject(s)) {
+    warnings.push({ issueID, path, message: "speech is not an object; dropped" });
+    return null;
+  }
+  const speechID = typeof s.speechID === "string" ? s.speechID : "";
+  if (typeof s.speech !== "string") {
+    warnings.push({ issueID, speechID, path: `${path}.speech`, message: "speech text missing; dropped" });
+    return null;
+  }
+  if (!speechID) warnings.push({ issueID, path: `${path}.speechID`, message: "speechID missing" });
+
+  let speechOrder = toNumber(s.speechOrder);
+  if (speechOrder == null) {
+    warnings.push({ issueID, speechID, path: `${path}.speechOrder`, message: `speechOrder invalid (${JSON.stringify(s.speechOrder)}); using ${fallbackOrder}` });
+    speechOrder = fallbackOrder;
+  }
+
+  return {
+    speechID,
+    speechOrder,
+    speaker: typeof s.speaker === "string" ? s.speaker : "",
+    speakerYomi: toNullableString(s.speakerYomi),
+    speakerGroup: toNullableString(s.speakerGroup),
+    speakerPosition: toNullableString(s.speakerPosition),
+    speakerRole: toNullableString(s.speakerRole),
+    speech: s.speech,
+    startPage: toNumber(s.startPage) ?? 0,
+    createTime: typeof s.createTime === "string" ? s.createTime : "",
+    updateTime: typeof s.updateTime === "string" ? s.updateTime : "",
+    speechURL: typeof s.speechURL === "string" ? s.speechURL : "",
+  };
+}
+
+function validateMeeting(
+  m: unknown, index: number, warnings: ValidationWarning[]
+): { ok: true; record: RawMeetingRecord } | { ok: false; quarantine: QuarantinedMeeting } {
+  const path = `meetingRecord[${index}]`;
+  if (!isObject(m)) {
+    return { ok: false, quarantine: { index, reasons: ["meeting is not an object"], record: m } };
+  }
+
+  const reasons: string[] = [];
+  const issueID = typeof m.issueID === "string" && m.issueID.trim() ? m.issueID.trim() : undefined;
+  if (!issueID) reasons.push("issueID missing");
+
+  const date = typeof m.date === "string" ? m.date : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) reasons.push(`date invalid (${JSON.stringify(m.date)})`);
+
+  const session = toNumber(m.session);
+  if (session == null) reasons.push(`session invalid (${JSON.stringify(m.session)})`);
+
+  if (typeof m.nameOfMeeting !== "string" || !m.nameOfMeeting.trim()) reasons.push("nameOfMeeting missing");
+  if (!Array.isArray(m.speechRecord)) reasons.push("speechRecord missing or not an array");
+
+  if (reasons.length) return { ok: false, quarantine: { index, issueID, reasons, record: m } };
+
+  const id = issueID!;
+  let imageKind = String(m.imageKind ?? "");
+  if (!(IMAGE_KINDS as readonly string[]).includes(imageKind)) {
+    warnings.push({ issueID: id, path: `${path}.imageKind`, message: `unknown imageKind ${JSON.stringify(m.imageKind)}; treated as 会議録` });
+    imageKind = "会議録";
+  }
+  if (typeof m.nameOfHouse !== "string" || !m.nameOfHouse.trim()) {
+    warnings.push({ issueID: id, path: `${path}.nameOfHouse`, message: "nameOfHouse missing" });
+  }
+
+  const speeches: RawSpeechRecord[] = [];
+  (m.speechRecord as unknown[]).forEach((s, i) => {
+    const n = normalizeSpeech(s, `${path}.speechRecord[${i}]`, id, i + 1, warnings);
+    if (n) speeches.push(n);
+  });
+  if (!speeches.length) {
+    return { ok: false, quarantine: { index, issueID: id, reasons: ["no valid speeches"], record: m } };
+  }
+
+  return {
+    ok: true,
+    record: {
+      issueID: id,
+      imageKind,
+      searchObject: toNumber(m.searchObject) ?? 0,
+      session: session!,
+      nameOfHouse: typeof m.nameOfHouse === "string" ? m.nameOfHouse : "",
+      nameOfMeeting: m.nameOfMeeting,
+      issue: typeof m.issue === "string" ? m.issue : "",
+      date,
+      closing: toNullableString(m.closing),
+      speechRecord: speeches,
+    },
+  };
+}
+
+/**
+ * Validate and normalize a /api/meeting payload.
+ * Throws RawDataValidationError when the payload as a whole is unusable;
+ * otherwise returns the good meetings plus warnings and quarantined meetings.
+ */
+export function validateMeetingData(input: unknown): MeetingValidationResult {
+  if (!isObject(input)) {
+    throw new RawDataValidationError("National Diet API payload is not a JSON object", input);
+  }
+  if (typeof input.message === "string" && !("meetingRecord" in input)) {
+    const details = Array.isArray(input.details) ? ` (${input.details.join("; ")})` : "";
+    throw new RawDataValidationError(`National Diet API returned an error: ${input.message}${details}`, input);
+  }
+
+  const numberOfRecords = toNumber(input.numberOfRecords);
+  if (numberOfRecords == null) {
+    throw new RawDataValidationError(`numberOfRecords invalid (${JSON.stringify(input.numberOfRecords)})`, input);
+  }
+
+  // An empty result set legitimately omits meetingRecord
+  const list = input.meetingRecord ?? (numberOfRecords === 0 ? [] : undefined);
+  if (!Array.isArray(list)) {
+    throw new RawDataValidationError("meetingRecord missing or not an array", input);
+  }
+
+  const warnings: ValidationWarning[] = [];
+  const quarantined: QuarantinedMeeting[] = [];
+  const meetings: RawMeetingRecord[] = [];
+
+  list.forEach((m, i) => {
+    const r = validateMeeting(m, i, warnings);
+    if (r.ok) meetings.push(r.record);
+    else quarantined.push(r.quarantine);
+  });
+
+  return {
+    data: {
+      numberOfRecords,
+      numberOfReturn: toNumber(input.numberOfReturn) ?? list.length,
+      startRecord: toNumber(input.startRecord) ?? 1,
+      nextRecordPosition: toNumber(input.nextRecordPosition) ?? null,
+      meetingRecord: meetings,
+    },
+    warnings,
+    quarantined,
+  };
+}
@@ -0,0 +1,107 @@
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+
+import { Router, json } from "@http/router";
+import { ApiKeyAuthenticator } from "@http/auth";
+import { hashSecret, type ApiKeyRecord } from "@DynamoDBHandler/apiKeys";
+
+function event(method: string, path: string, apiKey?: string): APIGatewayProxyEventV2 {
+  return {
+    rawPath: path,
+    headers: apiKey ? { "X-Api-Key": apiKey } : {},
+    requestContext: { http: { method, path } },
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+const body = (res: any) => JSON.parse(res.body);
+
+function record(keyId: string, secret: string, extra: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return {
+    keyId,
+    name: keyId,
+    scopes: ["articles:read"],
+    status: "active",
+    secretHash: hashSecret(secret),
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...extra,
+  };
+}
+
+describe("ApiKeyAuthenticator", () => {
+  const keys = new Map<string, ApiKeyRecord>([
+    ["reader", record("reader", "s3cret")],
+    ["limited", record("limited", "s3cret", { quota: { rpm: 2 } })],
+    ["gone", record("gone", "s3cret", { status: "revoked" })],
+  ]);
+  const loadKey = jest.fn(async (keyId: string) => keys.get(keyId));
+  const auth = new ApiKeyAuthenticator({ loadKey, bootstrapKey: "bootstrap-key" });
+  const router = new Router({ cors: { allowOrigins: ["*"] } })
+    .get("/articles", auth.protect("articles:read", async (_req, principal) => json(200, { keyId: principal.keyId })))
+    .post("/run", auth.protect("run:trigger", async () => json(202, {})));
+
+  test("resolves table keys and the bootstrap admin key", async () => {
+    const res = await router.handle(event("GET", "/articles", "reader.s3cret"), { runId: "r1" });
+    expect(res.statusCode).toBe(200);
+    expect(body(res)).toEqual({ keyId: "reader" });
+
+    const admin = await router.handle(event("POST", "/run", "bootstrap-key"), { runId: "r1" });
+    expect(admin.statusCode).toBe(202);
+  });
+
+  test("401 for missing, wrong or revoked keys; 403 for a missing scope", async () => {
+    for (const key of [undefined, "reader.wrong", "nobody.s3cret", "gone.s3cret", "no-dot"]) {
+      const res = await router.handle(event("GET", "/articles", key), { runId: "r1" });
+      expect(res.statusCode).toBe(401);
+      expect(body(res).error).toBe("unauthorized");
+    }
+    const res = await router.handle(event("POST", "/run", "reader.s3cret"), { runId: "r1" });
+    expect(res.statusCode).toBe(403);
+    expect(body(res)).toMatchObject({ error: "forbidden", requiredScope: "run:trigger" });
+  });
+
+  test("enforces per-key quotas with Retry-After and caches key records", async () => {
+    loadKey.mockClear();
+    const statuses: number[] = [];
+    let last: any;
+    for (let i = 0; i < 3; i++) {
+      last = await router.handle(event("GET", "/articles", "limited.s3cret"), { runId: "r1" });
+      statuses.push(last.statusCode);
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(body(last).error).toBe("quota_exceeded");
+    expect(Number(last.headers["retry-after"])).toBeGreaterThanOrEqual(1);
+    expect(loadKey).toHaveBeenCalledTimes(1);
+  });
+
+  test("a request rejected for its scope does not use up the quota", async () => {
+    const quotaKeys = new Map([["writer", record("writer", "s3cret", { quota: { rpm: 1 } })]]);
+    const guarded = new ApiKeyAuthenticator({ loadKey: async (keyId) => quotaKeys.get(keyId) });
+    const r = new Router()
+      .get("/articles", guarded.protect("articles:read", async () => json(200, {})))
+      .post("/run", guarded.protect("run:trigger", async () => json(202, {})));
+
+    for (let i = 0; i < 3; i++) {
+      expect((await r.handle(event("POST", "/run", "writer.s3cret"), { runId: "r1" })).statusCode).toBe(403);
+    }
+    expect((await r.handle(event("GET", "/articles", "writer.s3cret"), { runId: "r1" })).statusCode).toBe(200);
+    expect((await r.handle(event("GET", "/articles", "writer.s3cret"), { runId: "r1" })).statusCode).toBe(429);
+  });
+
+  test("the key cache is bounded and drops expired entries", async () => {
+    let now = 1_000_000;
+    const spy = jest.spyOn(Date, "now").mockImplementation(() => now);
+    try {
+      const cached = new ApiKeyAuthenticator({ loadKey: async () => undefined, cacheMaxEntries: 3, cacheTtlMs: 1000 });
+      for (let i = 0; i < 10; i++) {
+        await cached.authenticate({ headers: { "x-api-key": `random${i}.s3cret` } } as any).catch(() => undefined);
+      }
+      expect(cached.cacheSize).toBe(3);
+
+      now += 2000;
+      await cached.authenticate({ headers: { "x-api-key": "late.s3cret" } } as any).catch(() => undefined);
+      expect(cached.cacheSize).toBe(1);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,161 @@
+// API key authentication, scope checks and per-key quotas for the HTTP API.
+//
+// - `x-api-key: <keyId>.<secret>` is looked up in the table (see @DynamoDBHandler/apiKeys)
+//   and compared against the stored hash in constant time.
+// - The bootstrap key (RUN_API_KEY) is still accepted and acts as an admin key without quota,
+//   so the first table keys can be created through the API.
+// - Key records (and misses) are cached for a short TTL in a bounded cache; a revocation
+//   takes effect on other Lambda instances once their cache entry expires.
+// - Quotas (rpm / rpd) are enforced per Lambda instance with TokenBucket / DayCounter,
+//   so with N warm instances a key can reach up to N times its quota.
+
+import crypto from "node:crypto";
+
+import { TokenBucket, DayCounter } from "@llm/limiters";
+import {
+  parsePresentedKey, verifySecret, type ApiKeyRecord, type ApiKeyQuota, type ApiScope,
+} from "@DynamoDBHandler/apiKeys";
+
+import { forbidden, tooManyRequests, unauthorized } from "./errors";
+import type { HttpRequest, HttpResponse, RouteHandler } from "./router";
+
+export interface Principal {
+  keyId: string;
+  name: string;
+  scopes: ApiScope[];
+}
+
+export type AuthedRouteHandler = (req: HttpRequest, principal: Principal) => Promise<HttpResponse>;
+
+export interface AuthenticatorOptions {
+  /** Load a key record by id (usually getApiKey bound to the table config). */
+  loadKey: (keyId: string) => Promise<ApiKeyRecord | undefined>;
+  /** Shared bootstrap key (RUN_API_KEY); accepted as an admin key when set. */
+  bootstrapKey?: string;
+  /** How long key records (including misses) are cached. Default 30s. */
+  cacheTtlMs?: number;
+  /** Most cached key records; the oldest entry is dropped beyond this. Default 1000. */
+  cacheMaxEntries?: number;
+}
+
+const BOOTSTRAP_PRINCIPAL: Principal = { keyId: "bootstrap", name: "RUN_API_KEY", scopes: ["admin"] };
+
+/** Constant-time string comparison (lengths are compared via fixed-size digests). */
+function safeEqual(a: string, b: string): boolean {
+  const ha = crypto.createHash("sha256").update(a, "utf8").digest();
+  const hb = crypto.createHash("sha256").update(b, "utf8").digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+export const hasScope = (principal: Principal, scope: ApiScope) =>
+  principal.scopes.includes("admin") || principal.scopes.includes(scope);
+
+function requireScope(principal: Principal, scope: ApiScope) {
+  if (!hasScope(principal, scope)) {
+    throw forbidden(`API key lacks the "${scope}" scope`, { requiredScope: scope });
+  }
+}
+
+type QuotaState = { quotaKey: string; perMinute?: TokenBucket; perDay?: DayCounter };
+
+export class ApiKeyAuthenticator {
+  private readonly loadKey: AuthenticatorOptions["loadKey"];
+  private readonly bootstrapKey?: string;
+  private readonly cacheTtlMs: number;
+  private readonly cacheMaxEntries: number;
+  private readonly cache = new Map<string, { record?: ApiKeyRecord; expiresAt: number }>();
+  private readonly quotas = new Map<string, QuotaState>();
+
+  constructor(opts: AuthenticatorOptions) {
+    this.loadKey = opts.loadKey;
+    this.bootstrapKey = opts.bootstrapKey || undefined;
+    this.cacheTtlMs = opts.cacheTtlMs ?? 30_000;
+    this.cacheMaxEntries = Math.max(1, opts.cacheMaxEntries ?? 1000);
+  }
+
+  /**
+   * Resolve the request's API key to a principal; 401 when missing, unknown, revoked or wrong.
+   * With `scope`, a key lacking it gets 403 before its quota is touched.
+   */
+  async authenticate(req: HttpRequest, scope?: ApiScope): Promise<Principal> {
+    const presented = req.headers["x-api-key"];
+    if (!presented) throw unauthorized();
+
+    if (this.bootstrapKey && safeEqual(presented, this.bootstrapKey)) return BOOTSTRAP_PRINCIPAL;
+
+    const parsed = parsePresentedKey(presented);
+    if (!parsed) throw unauthorized();
+    const record = await this.cachedKey(parsed.keyId);
+    if (!record || record.status !== "active" || !verifySecret(parsed.secret, record.secretHash)) {
+      throw unauthorized();
+    }
+    const principal = { keyId: record.keyId, name: record.name, scopes: record.scopes };
+    if (scope) requireScope(principal, scope);
+    this.consumeQuota(record.keyId, record.quota);
+    return principal;
+  }
+
+  /** Authenticate and require a scope (admin implies every scope); 403 when missing. */
+  async authorize(req: HttpRequest, scope: ApiScope): Promise<Principal> {
+    return this.authenticate(req, scope);
+  }
+
+  /** Wrap a route handler so it only runs for keys holding `scope`. */
+  protect(scope: ApiScope, handler: AuthedRouteHandler): RouteHandler {
+    return async (req) => handler(req, await this.authorize(req, scope));
+  }
+
+  /** Drop a cached key record (after rotation / revocation through this instance). */
+  invalidate(keyId: string) {
+    this.cache.delete(keyId);
+    this.quotas.delete(keyId);
+  }
+
+  private async cachedKey(keyId: string): Promise<ApiKeyRecord | undefined> {
+    const hit = this.cache.get(keyId);
+    if (hit && hit.expiresAt > Date.now()) return hit.record;
+    const record = await this.loadKey(keyId);
+    this.cacheSet(keyId, { record, expiresAt: Date.now() + this.cacheTtlMs });
+    return record;
+  }
+
+  /** Insert after sweeping expired entries; beyond the cap the oldest insertions go first. */
+  private cacheSet(keyId: string, entry: { record?: ApiKeyRecord; expiresAt: number }) {
+    const now = Date.now();
+    for (const [k, v] of this.cache) if (v.expiresAt <= now) this.cache.delete(k);
+    this.cache.delete(keyId);
+    this.cache.set(keyId, entry);
+    for (const k of this.cache.keys()) {
+      if (this.cache.size <= this.cacheMaxEntries) break;
+      this.cache.delete(k);
+    }
+  }
+
+  /** Number of cached key records (including misses). */
+  get cacheSize() {
+    return this.cache.size;
+  }
+
+  /** Take one request from the key's buckets, or throw 429 with the time until it would fit. */
+  private consumeQuota(keyId: string, quota: ApiKeyQuota | undefined) {
+    if (!quota?.rpm && !quota?.rpd) return;
+
+    // Rebuild the buckets when the quota on the record changed
+    const quotaKey = `${quota.rpm ?? 0}/${quota.rpd ?? 0}`;
+    let state = this.quotas.get(keyId);
+    if (!state || state.quotaKey !== quotaKey) {
+      state = {
+        quotaKey,
+        perMinute: quota.rpm && quota.rpm > 0 ? new TokenBucket(quota.rpm) : undefined,
+        perDay: quota.rpd && quota.rpd > 0 ? new DayCounter(quota.rpd) : undefined,
+      };
+      this.quotas.set(keyId, state);
+    }
+
+    // Check both limits before taking from either, so a rejected request costs nothing
+    const waitMs = Math.max(state.perMinute?.retryAfterMs() ?? 0, state.perDay?.retryAfterMs() ?? 0);
+    if (waitMs > 0) throw tooManyRequests(waitMs, { keyId });
+    state.perMinute?.tryAcquire();
+    state.perDay?.tryAcquire();
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Error carrying an HTTP status and a machine-readable code. Thrown from route
+ * handlers / validators and rendered by the router as `{ error, message, runId, ...details }`.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message?: string,
+    public readonly details?: Record<string, unknown>,
+    public readonly headers?: Record<string, string>
+  ) {
+    super(message ?? code);
+    this.name = "HttpError";
+  }
+}
+
+export const badRequest = (code: string, message?: string, details?: Record<string, unknown>) =>
+  new HttpError(400, code, message, details);
+export const unauthorized = (message = "Missing or invalid API key") =>
+  new HttpError(401, "unauthorized", message);
+export const forbidden = (message = "API key lacks the required scope", details?: Record<string, unknown>) =>
+  new HttpError(403, "forbidden", message, details);
+export const notFound = (code = "not_found", message?: string, details?: Record<string, unknown>) =>
+  new HttpError(404, code, message, details);
+export const tooManyRequests = (retryAfterMs: number, details?: Record<string, unknown>) =>
+  new HttpError(429, "quota_exceeded", "API key quota exceeded", { ...details, retryAfterMs },
+    { "retry-after": String(Math.max(1, Math.ceil(retryAfterMs / 1000))) });
@@ -0,0 +1,92 @@
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+
+import { Router, json } from "@http/router";
+import { badRequest } from "@http/errors";
+import { jsonBody, optionalInt, optionalYmd } from "@http/validation";
+
+function event(method: string, path: string, extra: Partial<APIGatewayProxyEventV2> = {}): APIGatewayProxyEventV2 {
+  return {
+    rawPath: path,
+    headers: {},
+    requestContext: { http: { method, path } },
+    ...extra,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+const body = (res: any) => JSON.parse(res.body);
+
+describe("Router", () => {
+  const onError = jest.fn();
+  const router = new Router({ cors: { allowOrigins: ["*"] }, onError })
+    .get("/articles/{id}", async (req) => json(200, { id: req.params.id }))
+    .post("/run", async (req) => {
+      const { from } = jsonBody(req);
+      return json(200, { from: optionalYmd(from, "from") });
+    })
+    .get("/boom", async () => { throw new Error("kaboom"); })
+    .get("/limit", async (req) => json(200, { limit: optionalInt(req.query.limit, "limit", { min: 1, max: 5 }) }))
+    .get("/teapot", async () => { throw badRequest("no_tea", "Out of tea", { kind: "sencha" }); });
+
+  test("dispatches with decoded path params and CORS headers", async () => {
+    const res = await router.handle(event("GET", "/articles/%E7%B5%8C%E6%B8%88"), { runId: "r1" });
+    expect(res.statusCode).toBe(200);
+    expect(body(res)).toEqual({ id: "経済" });
+    expect(res.headers?.["access-control-allow-origin"]).toBe("*");
+  });
+
+  test("404 for unknown paths, 405 with Allow for other methods", async () => {
+    const nf = await router.handle(event("GET", "/nope"), { runId: "r1" });
+    expect(nf.statusCode).toBe(404);
+    expect(body(nf)).toMatchObject({ error: "not_found", runId: "r1" });
+
+    const na = await router.handle(event("DELETE", "/run"), { runId: "r2" });
+    expect(na.statusCode).toBe(405);
+    expect(na.headers?.allow).toBe("POST");
+    expect(body(na)).toMatchObject({ error: "method_not_allowed", runId: "r2", allowed: ["POST"] });
+  });
+
+  test("answers CORS preflight for known paths", async () => {
+    const res = await router.handle(event("OPTIONS", "/run"), { runId: "r1" });
+    expect(res.statusCode).toBe(204);
+    expect(res.headers?.["access-control-allow-methods"]).toBe("POST, OPTIONS");
+    expect(res.headers?.["access-control-allow-headers"]).toContain("x-api-key");
+  });
+
+  test("renders HttpError and validation failures as structured 400s", async () => {
+    const bad = await router.handle(event("POST", "/run", { body: "{" }), { runId: "r3" });
+    expect(bad.statusCode).toBe(400);
+    expect(body(bad)).toEqual({ error: "invalid_json", message: "Request body is not valid JSON", runId: "r3" });
+
+    const date = await router.handle(event("POST", "/run", { body: JSON.stringify({ from: "2025-02-30" }) }), { runId: "r3" });
+    expect(body(date).error).toBe("invalid_from");
+
+    const b64 = await router.handle(
+      event("POST", "/run", { body: Buffer.from('{"from":"2025-05-28"}').toString("base64"), isBase64Encoded: true }),
+      { runId: "r3" }
+    );
+    expect(body(b64)).toEqual({ from: "2025-05-28" });
+
+    const limit = await router.handle(event("GET", "/limit", { queryStringParameters: { limit: "9" } }), { runId: "r3" });
+    expect(body(limit)).toMatchObject({ error: "invalid_limit", min: 1, max: 5 });
+
+    const tea = await router.handle(event("GET", "/teapot"), { runId: "r3" });
+    expect(body(tea)).toEqual({ error: "no_tea", message: "Out of tea", runId: "r3", kind: "sencha" });
+  });
+
+  test("unexpected errors become a 500 without their message and reach onError", async () => {
+    const res = await router.handle(event("GET", "/boom"), { runId: "r4" });
+    expect(res.statusCode).toBe(500);
+    expect(body(res)).toEqual({ error: "internal_error", message: "Internal server error", runId: "r4" });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "kaboom" }), expect.objectContaining({ runId: "r4" }));
+  });
+
+  test("restricts CORS to configured origins", async () => {
+    const strict = new Router({ cors: { allowOrigins: ["https://politopics.example"] } })
+      .get("/x", async () => json(200, {}));
+    const ok = await strict.handle(event("GET", "/x", { headers: { Origin: "https://politopics.example" } }), { runId: "r" });
+    expect(ok.headers?.["access-control-allow-origin"]).toBe("https://politopics.example");
+    const other = await strict.handle(event("GET", "/x", { headers: { Origin: "https://evil.example" } }), { runId: "r" });
+    expect(other.headers?.["access-control-allow-origin"]).toBeUndefined();
+  });
+});
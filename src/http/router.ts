@@ -0,0 +1,175 @@
+// Minimal router for API Gateway HTTP API (payload v2) events.
+//
+// - Routes are "METHOD /path/{param}" patterns; params are URL-decoded.
+// - Unknown paths -> 404, known paths with another method -> 405 (+ Allow header).
+// - OPTIONS preflight is answered for every known path; CORS headers go on every response.
+// - HttpError thrown by handlers becomes { error, message, runId, ...details };
+//   anything else is logged with the runId (`onError`) and becomes a 500 with a
+//   fixed message, so SDK / provider error text never reaches API clients.
+
+import type { Context } from "aws-lambda";
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+
+import { logger } from "@utils/logger";
+
+import { HttpError } from "./errors";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+export type HttpResponse = APIGatewayProxyStructuredResultV2;
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  headers: Record<string, string>;    // lower-cased names
+  rawBody?: string;                   // base64 already decoded
+  event: APIGatewayProxyEventV2;
+  context?: Context;
+  runId: string;                      // request id echoed in error bodies
+}
+
+export type RouteHandler = (req: HttpRequest) => Promise<HttpResponse>;
+
+export type CorsOptions = {
+  allowOrigins?: string[];  // ["*"] by default
+  allowHeaders?: string[];
+  maxAgeSeconds?: number;
+};
+
+export type RouterOptions = {
+  cors?: CorsOptions;
+  onError?: (error: unknown, req: HttpRequest) => Promise<void> | void;
+};
+
+type Route = { method: HttpMethod; pattern: string; regex: RegExp; keys: string[]; handler: RouteHandler };
+
+export const json = (statusCode: number, body: unknown, headers: Record<string, string> = {}): HttpResponse => ({
+  statusCode,
+  headers: { "content-type": "application/json", ...headers },
+  body: JSON.stringify(body),
+});
+
+/** Compile "/articles/{id}" into a regex with one capture per param. */
+function compile(pattern: string): { regex: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const source = pattern
+    .split("/")
+    .map((seg) => {
+      const m = /^\{(\w+)\}$/.exec(seg);
+      if (!m) return seg.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      keys.push(m[1]);
+      return "([^/]+)";
+    })
+    .join("/");
+  return { regex: new RegExp(`^${source}/?$`), keys };
+}
+
+export class Router {
+  private readonly routes: Route[] = [];
+  private readonly cors: Required<CorsOptions>;
+  private readonly onError?: RouterOptions["onError"];
+
+  constructor(opts: RouterOptions = {}) {
+    this.cors = {
+      allowOrigins: opts.cors?.allowOrigins ?? (process.env.CORS_ALLOW_ORIGINS || "*").split(",").map((s) => s.trim()),
+      allowHeaders: opts.cors?.allowHeaders ?? ["content-type", "x-api-key"],
+      maxAgeSeconds: opts.cors?.maxAgeSeconds ?? 600,
+    };
+    this.onError = opts.onError ?? ((error, req) => {
+      logger.error("HTTP request failed", { runId: req.runId, method: req.method, path: req.path, error });
+    });
+  }
+
+  on(method: HttpMethod, pattern: string, handler: RouteHandler): this {
+    this.routes.push({ method, pattern, handler, ...compile(pattern) });
+    return this;
+  }
+  get(pattern: string, handler: RouteHandler) { return this.on("GET", pattern, handler); }
+  post(pattern: string, handler: RouteHandler) { return this.on("POST", pattern, handler); }
+  put(pattern: string, handler: RouteHandler) { return this.on("PUT", pattern, handler); }
+  patch(pattern: string, handler: RouteHandler) { return this.on("PATCH", pattern, handler); }
+  delete(pattern: string, handler: RouteHandler) { return this.on("DELETE", pattern, handler); }
+
+  async handle(event: APIGatewayProxyEventV2, opts: { runId: string; context?: Context }): Promise<HttpResponse> {
+    const method = event.requestContext.http.method.toUpperCase();
+    const path = event.rawPath ?? event.requestContext.http.path;
+    const headers = Object.fromEntries(
+      Object.entries(event.headers ?? {}).map(([k, v]) => [k.toLowerCase(), String(v ?? "")])
+    );
+    const req: HttpRequest = {
+      method,
+      path,
+      params: {},
+      query: event.queryStringParameters ?? {},
+      headers,
+      rawBody: event.body == null
+        ? undefined
+        : event.isBase64Encoded ? Buffer.from(event.body, "base64").toString("utf8") : event.body,
+      event,
+      context: opts.context,
+      runId: opts.runId,
+    };
+    const cors = this.corsHeaders(headers["origin"]);
+
+    let res: HttpResponse;
+    try {
+      res = await this.dispatch(req);
+    } catch (e) {
+      res = await this.renderError(e, req);
+    }
+    return { ...res, headers: { ...cors, ...(res.headers ?? {}) } };
+  }
+
+  private async dispatch(req: HttpRequest): Promise<HttpResponse> {
+    const matches: Array<{ route: Route; params: Record<string, string> }> = [];
+    for (const route of this.routes) {
+      const m = route.regex.exec(req.path);
+      if (!m) continue;
+      let params: Record<string, string>;
+      try {
+        params = Object.fromEntries(route.keys.map((k, i) => [k, decodeURIComponent(m[i + 1])]));
+      } catch {
+        throw new HttpError(400, "invalid_path", "Malformed percent-encoding in path");
+      }
+      matches.push({ route, params });
+    }
+    if (!matches.length) throw new HttpError(404, "not_found", `No route for ${req.path}`);
+
+    const allowed = [...new Set(matches.map((m) => m.route.method))];
+    if (req.method === "OPTIONS") {
+      return {
+        statusCode: 204,
+        headers: {
+          "access-control-allow-methods": [...allowed, "OPTIONS"].join(", "),
+          "access-control-allow-headers": this.cors.allowHeaders.join(", "),
+          "access-control-max-age": String(this.cors.maxAgeSeconds),
+        },
+        body: "",
+      };
+    }
+
+    const hit = matches.find((m) => m.route.method === req.method);
+    if (!hit) {
+      throw new HttpError(405, "method_not_allowed", `${req.method} is not allowed on ${req.path}`, { allowed });
+    }
+    return hit.route.handler({ ...req, params: hit.params });
+  }
+
+  private async renderError(e: unknown, req: HttpRequest): Promise<HttpResponse> {
+    if (e instanceof HttpError) {
+      const extra: Record<string, string> = e.status === 405 ? { allow: (e.details?.allowed as string[]).join(", ") } : { ...e.headers };
+      return json(e.status, { error: e.code, message: e.message, runId: req.runId, ...(e.details ?? {}) }, extra);
+    }
+    try { await this.onError?.(e, req); }
+    catch { /* logging must not mask the response */ }
+    return json(500, { error: "internal_error", message: "Internal server error", runId: req.runId });
+  }
+
+  private corsHeaders(origin?: string): Record<string, string> {
+    const { allowOrigins } = this.cors;
+    if (allowOrigins.includes("*")) return { "access-control-allow-origin": "*" };
+    if (origin && allowOrigins.includes(origin)) return { "access-control-allow-origin": origin, vary: "origin" };
+    return {};
+  }
+}
@@ -0,0 +1,94 @@
+// Request validation helpers. Each throws HttpError(400) with a stable error code.
+
+import type { HttpRequest } from "./router";
+import { badRequest } from "./errors";
+
+/** Parse the JSON body; an empty body is `{}`. */
+export function jsonBody(req: HttpRequest): Record<string, any> {
+  if (!req.rawBody) return {};
+  let body: unknown;
+  try {
+    body = JSON.parse(req.rawBody);
+  } catch {
+    throw badRequest("invalid_json", "Request body is not valid JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw badRequest("invalid_json", "Request body must be a JSON object");
+  }
+  return body as Record<string, any>;
+}
+
+/** Optional YYYY-MM-DD date (calendar-checked). */
+export function optionalYmd(value: unknown, field: string): string | undefined {
+  if (value == null || value === "") return undefined;
+  const s = String(value);
+  const d = new Date(`${s}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || Number.isNaN(d.getTime()) || d.toISOString().slice(0, 10) !== s) {
+    throw badRequest(`invalid_${field}`, `${field} must be a date in YYYY-MM-DD format`);
+  }
+  return s;
+}
+
+/** Optional YYYY-MM month. */
+export function optionalMonth(value: unknown, field: string): string | undefined {
+  if (value == null || value === "") return undefined;
+  const s = String(value);
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(s)) {
+    throw badRequest(`invalid_${field}`, `${field} must be 'YYYY-MM'`);
+  }
+  return s;
+}
+
+/** Optional integer within [min, max]; numeric strings (query params) are accepted. */
+export function optionalInt(
+  value: unknown,
+  field: string,
+  { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {}
+): number | undefined {
+  if (value == null || value === "") return undefined;
+  const n = typeof value === "number" ? value : /^-?\d+$/.test(String(value)) ? Number(value) : NaN;
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw badRequest(`invalid_${field}`, `${field} must be an integer between ${min} and ${max}`, { min, max });
+  }
+  return n;
+}
+
+/** Optional boolean; accepts true/false and the strings "true"/"false". */
+export function optionalBool(value: unknown, field: string): boolean | undefined {
+  if (value == null || value === "") return undefined;
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  throw badRequest(`invalid_${field}`, `${field} must be true or false`);
+}
+
+/** Optional member of a fixed set of strings. */
+export function optionalOneOf<T extends string>(value: unknown, allowed: readonly T[], field: string): T | undefined {
+  if (value == null || value === "") return undefined;
+  if (!allowed.includes(value as T)) {
+    throw badRequest(`invalid_${field}`, `${field} must be one of: ${allowed.join(", ")}`, { allowed });
+  }
+  return value as T;
+}
+
+/** Optional non-empty string (trimmed). */
+export function optionalString(value: unknown, field: string, { maxLength = 256 } = {}): string | undefined {
+  if (value == null) return undefined;
+  if (typeof value !== "string") throw badRequest(`invalid_${field}`, `${field} must be a string`);
+  const s = value.trim();
+  if (!s) return undefined;
+  if (s.length > maxLength) throw badRequest(`invalid_${field}`, `${field} is too long (max ${maxLength})`);
+  return s;
+}
+
+/** Optional array of non-empty strings (trimmed, de-duplicated); a comma-separated string is accepted too. */
+export function optionalStringArray(value: unknown, field: string, { maxItems = 100, maxLength = 256 } = {}): string[] | undefined {
+  if (value == null || value === "") return undefined;
+  const raw = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(raw) || raw.some((v) => typeof v !== "string")) {
+    throw badRequest(`invalid_${field}`, `${field} must be an array of strings`);
+  }
+  const items = [...new Set(raw.map((v: string) => v.trim()).filter(Boolean))];
+  if (items.length > maxItems) throw badRequest(`invalid_${field}`, `${field} has too many items (max ${maxItems})`, { maxItems });
+  if (items.some((v) => v.length > maxLength)) throw badRequest(`invalid_${field}`, `${field} items are too long (max ${maxLength})`);
+  return items.length ? items : undefined;
+}
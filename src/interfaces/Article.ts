@@ -1,3 +1,8 @@
+import type { UsageSummary } from "@llm/usage";
+import type { ObjectValidation } from "@llm/repair";
+import type { ArticleQuality } from "@LLMSummarize/quality";
+import type { GroundingReport, GroundingSummary } from "@LLMSummarize/grounding";
+
 export interface Article {
   id: string;
   title: string;
@@ -17,6 +22,44 @@ export interface Article {
   participants: Participant[];
   keywords: Keyword[];
   terms: Term[];
+
+  // Source fingerprint (see meetingFingerprint); lets re-runs skip unchanged meetings
+  sourceHash?: string;
+  sourceUpdatedAt?: string;
+
+  // LLM calls / tokens / cost spent producing this version (see UsageRecorder)
+  usage?: UsageSummary;
+
+  // JSON Schema validation outcome of each chunk / reduce output (see generateValidObject);
+  // `recovery` tells how an unusable chunk output was recovered (or that it was not)
+  validation?: {
+    chunks: Array<ObjectValidation & { index: number; resumed?: boolean; recovery?: "retry" | "split" | "fallback" | "failed" }>;
+    reduce: ObjectValidation[];
+  };
+
+  // Set when some chunks could not be summarized: their dialog orders have no summaries
+  partial?: boolean;
+  failedOrders?: number[];
+
+  // Quality gate result the article was stored with (see assessQuality)
+  quality?: ArticleQuality;
+
+  // Per-summary check of based_on_orders, numbers and names against the cited dialogs (see verifyGrounding)
+  grounding?: GroundingReport;
+
+  // What the stored item keeps of the fields above (storeData leaves the full ones off the item)
+  diagnostics?: ArticleDiagnostics;
+}
+
+/** Compact diagnostics on the stored article; the full report is written to S3 at `key`. */
+export interface ArticleDiagnostics {
+  key?: string;            // runs/<runId>/diagnostics-<id>.json: validation, raw_outputs, usage, quality, grounding
+  nonJsonOutputs: number;
+  invalidOutputs: number;  // chunk / reduce outputs still invalid after repair
+  totalTokens: number;
+  costUsd?: number;
+  qualityScore?: number;
+  grounding?: GroundingSummary;
 }
 
 export interface Summary {
@@ -58,6 +101,12 @@ export interface Dialog {
   original_text: string;
   summary: string;
   soft_language: string;
+  response_to: ResponseTo[];  // earlier dialogs this one reacts to (question / answer / agree / ...)
+}
+
+export interface ResponseTo {
+  order: number;
+  reaction: Reaction;
 }
 
 export enum Reaction {
@@ -2,7 +2,7 @@ export interface RawMeetingData {
   numberOfRecords: number;
   numberOfReturn: number;
   startRecord: number;
-  nextRecordPosition: number;
+  nextRecordPosition?: number | null; // omitted by the API on the last page
   meetingRecord: RawMeetingRecord[];
 }
 
@@ -34,3 +34,45 @@ export interface RawSpeechRecord {
   updateTime: string;
   speechURL: string;
 }
+
+// ---- /api/speech ---------------------------------------------------------
+
+export interface RawSpeechData {
+  numberOfRecords: number;
+  numberOfReturn: number;
+  startRecord: number;
+  nextRecordPosition?: number | null;
+  speechRecord: RawSpeechSearchRecord[];
+}
+
+/** A speech returned by /api/speech, flattened with its meeting metadata. */
+export interface RawSpeechSearchRecord extends RawSpeechRecord {
+  issueID: string;
+  imageKind: string;
+  searchObject: number;
+  session: number;
+  nameOfHouse: string;
+  nameOfMeeting: string;
+  issue: string;
+  date: string;
+  closing: string | null;
+  meetingURL: string;
+  pdfURL: string | null;
+}
+
+// ---- /api/meeting_list ---------------------------------------------------
+
+export interface RawMeetingListData {
+  numberOfRecords: number;
+  numberOfReturn: number;
+  startRecord: number;
+  nextRecordPosition?: number | null;
+  meetingRecord: RawMeetingListRecord[];
+}
+
+/** A meeting returned by /api/meeting_list: speech headers only, no text. */
+export interface RawMeetingListRecord extends Omit<RawMeetingRecord, "speechRecord"> {
+  meetingURL: string;
+  pdfURL: string | null;
+  speechRecord: Array<Pick<RawSpeechRecord, "speechID" | "speechOrder" | "speaker" | "speechURL">>;
+}
@@ -0,0 +1,84 @@
+import type { Context } from "aws-lambda";
+
+// Read routes without API keys (read when the handler module loads)
+process.env.PUBLIC_READ_API = "true";
+
+// Diet API, archive, S3 payloads and DynamoDB replaced by recorders
+jest.mock("@services/runtime", () => ({
+  ...jest.requireActual("@services/runtime"),
+  ddbCfg: { doc: { send: jest.fn(async () => ({})) }, table_name: "politopics" },
+  dietApi: { fetchMeetings: jest.fn() },
+  rawArchive: { enabled: true, putAll: jest.fn(async () => ({ stored: [], failed: [] })), get: jest.fn() },
+  putRunPayload: jest.fn(async () => "runs/key.json"),
+}));
+jest.mock("@LLMSummarize/estimate", () => ({
+  estimateMeetings: jest.fn(async () => ({ meetings: [], total: { llmCalls: 0, totalTokens: 0 } })),
+}));
+
+import { handler } from "./lambda_handler";
+import { ddbCfg, dietApi, rawArchive, putRunPayload } from "@services/runtime";
+
+const speech = (order: number) => ({
+  speechID: `A_${order}`, speechOrder: order, speaker: "議長", speakerYomi: null, speakerGroup: null,
+  speakerPosition: null, speakerRole: null, speech: `発言${order}`, startPage: 1,
+  createTime: "2025-06-01 10:00:00", updateTime: "2025-06-01 10:00:00", speechURL: "",
+});
+const meeting = (issueID: string, overrides: Record<string, unknown> = {}) => ({
+  issueID, imageKind: "会議録", searchObject: 0, session: 217, nameOfHouse: "衆議院", nameOfMeeting: "本会議",
+  issue: "第1号", date: "2025-05-28", closing: null, speechRecord: [speech(1), speech(2)], ...overrides,
+});
+
+describe("lambda_handler dry run", () => {
+  test("fetches and estimates without archiving, writing payloads or touching the run state", async () => {
+    (dietApi.fetchMeetings as jest.Mock).mockResolvedValue({
+      numberOfRecords: 2, numberOfReturn: 2, startRecord: 1, nextRecordPosition: null,
+      meetingRecord: [meeting("A"), meeting("B", { speechRecord: undefined })],
+    });
+
+    const res = await handler(
+      { source: "aws.events", detail: { from: "2025-05-28", until: "2025-05-28", dryRun: true } } as any,
+      {} as Context,
+      () => undefined
+    );
+    const body = JSON.parse(res.body);
+    expect(body).toMatchObject({ dryRun: true, fetched: 2 });
+    expect(body.validation.quarantined).toEqual([expect.objectContaining({ issueID: "B" })]);
+
+    expect(rawArchive.putAll).not.toHaveBeenCalled();
+    expect(putRunPayload).not.toHaveBeenCalled();
+    const commands = (ddbCfg.doc.send as jest.Mock).mock.calls.map(([cmd]) => cmd.constructor.name);
+    expect(commands.filter((name) => !/^(Get|Query)Command$/.test(name))).toEqual([]);
+  });
+});
+
+describe("lambda_handler listings", () => {
+  const get = async (path: string, query: Record<string, string> = {}) => {
+    const res = await handler({
+      rawPath: path,
+      headers: {},
+      queryStringParameters: query,
+      requestContext: { http: { method: "GET", path } },
+    } as any, {} as Context, () => undefined);
+    return { status: res.statusCode, body: JSON.parse(res.body) };
+  };
+
+  test("a cursor is only accepted by the listing that issued it", async () => {
+    const send = ddbCfg.doc.send as jest.Mock;
+    send.mockResolvedValueOnce({ Items: [], LastEvaluatedKey: { PK: "SESSION#217", SK: "A#M1" } });
+    const first = await get("/sessions/217");
+    expect(first.status).toBe(200);
+    const cursor = first.body.nextCursor;
+
+    send.mockClear();
+    for (const [path, query] of [["/sessions/218", {}], ["/articles", {}], ["/sessions/217", { since: "2025-05-01" }]] as const) {
+      const res = await get(path, { ...query, cursor });
+      expect(res.status).toBe(400);
+      expect(res.body).toMatchObject({ error: "invalid_cursor", message: "Cursor belongs to another listing" });
+    }
+    expect(send).not.toHaveBeenCalled();
+
+    send.mockResolvedValueOnce({ Items: [] });
+    expect((await get("/sessions/217", { cursor, limit: "5" })).status).toBe(200);
+    expect(send.mock.calls[0][0].input.ExclusiveStartKey).toEqual({ PK: "SESSION#217", SK: "A#M1" });
+  });
+});
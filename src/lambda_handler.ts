@@ -1,144 +1,49 @@
-import fs from "fs-extra";
-import path from "node:path";
-
-import { Handler, ScheduledEvent } from 'aws-lambda';
-import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from 'aws-lambda';
-
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import {
-  DynamoDBDocumentClient
-} from "@aws-sdk/lib-dynamodb";
-
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import crypto from "node:crypto";
-import 'dotenv/config';
-
-import fetchNationalDietRecords from '@NationalDietAPIHandler/NationalDietAPIHandler';
-import { GeminiClient } from "@llm/geminiClient";
-import { GroqClient } from "@llm/groqClient";
-import { withBudget } from "@llm/middleware";
-import * as prompt from '@LLMSummarize/prompt';
-import { processRawMeetingData } from '@LLMSummarize/pipeline';
-import storeData from '@DynamoDBHandler/storeData';
-
-import type { RawMeetingData } from '@interfaces/Raw';
-import type { Article } from '@interfaces/Article';
-
-
-// AWS SDK setup (supports LocalStack via AWS_ENDPOINT_URL)
-const region = process.env.AWS_REGION || "ap-northeast-3";
-const endpoint = process.env.AWS_ENDPOINT_URL;
-const s3 = new S3Client({ region, ...(endpoint ? { endpoint } : {}) });
-
-const llmProvider = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
-const baseLlm = llmProvider === "groq"
-  ? new GroqClient({
-      apiKey: process.env.GROQ_API_KEY!,
-      model: process.env.GROQ_MODEL_NAME || "llama-3.1-70b-versatile",
-      timeoutMs: Number(process.env.GROQ_TIMEOUT_MS ?? process.env.LLM_TIMEOUT_MS ?? 180_000)
-    })
-  : new GeminiClient({
-      apiKey: process.env.GEMINI_API_KEY!,
-      model: process.env.GEMINI_MODEL_NAME || "gemini-2.5-pro",
-      timeoutMs: Number(process.env.GEMINI_TIMEOUT_MS ?? process.env.LLM_TIMEOUT_MS ?? 180_000)
-    });
-
-// Optional cross-cutting budgets (prefer these over client-specific)
-const budgetLlm = (() => {
-  const rpm = Number(process.env.LLM_BUDGET_RPM ?? 0);
-  const rpd = Number(process.env.LLM_BUDGET_RPD ?? 0);
-  const tpm = Number(process.env.LLM_BUDGET_TPM ?? 0);
-  const strict = (process.env.LLM_BUDGET_TPM_STRICT || "").toLowerCase() === "true";
-  if ((rpm > 0) || (rpd > 0) || (tpm > 0)) return withBudget(baseLlm, { rpm, rpd, tpm, strictTpm: strict });
-  return baseLlm;
-})();
-const llm = budgetLlm;
-
-const ddb = new DynamoDBClient({ region, ...(endpoint ? { endpoint } : {}) });
-const doc = DynamoDBDocumentClient.from(ddb);
-
-// National Diet API endpoint
-const national_diet_api_endpoint = process.env.NATIONAL_DIET_API_ENDPOINT || "https://kokkai.ndl.go.jp/api/meeting";
-
-// ---- helpers ---------------------------------------------------
-
-/**
- * Concurrency limit for summarization/storage tasks.
- * Default: 4 (override with CONCURRENCY env var)
- */
-const CONCURRENCY = Number(process.env.CONCURRENCY || 4);
-
-type TaskOk = { ok: true; baseId: string; articleId?: string };
-type TaskNg = { ok: false; baseId: string; error: { message: string; stack?: string } };
-type TaskResult = TaskOk | TaskNg;
-
-/**
- * Normalize unknown errors to a serializable shape.
- */
-function serializeError(e: unknown) {
-  if (e instanceof Error) return { message: e.message, stack: e.stack };
-  return { message: String(e) };
-}
 
-/**
- * Run async tasks with a maximum concurrency limit.
- */
-async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
-  const results = new Array<T>(tasks.length);
-  let next = 0;
-  const workers = Array(Math.min(limit, tasks.length))
-    .fill(0)
-    .map(async () => {
-      while (true) {
-        const i = next++;
-        if (i >= tasks.length) break;
-        results[i] = await tasks[i]();
-      }
-    });
-  await Promise.all(workers);
-  return results;
-}
+import { InvokeCommand } from "@aws-sdk/client-lambda";
 
-async function logToS3(kind: "error" | "success", payload: any) {
-  const isLocal = (process.env.APP_ENV || "").toLowerCase() === "local";
+import { Context, Handler, ScheduledEvent } from 'aws-lambda';
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
 
-  // Build a Windows-safe timestamped file name
-  const tsSafe = new Date().toISOString().replace(/[:]/g, "-");
-  const fileName = `${tsSafe}-${crypto.randomUUID()}.json`;
-
-  if (isLocal) {
-    const outRoot = process.env.OUT_DIR || "out";
-    const dir = path.join(outRoot, kind);
-    const filePath = path.join(dir, fileName);
-
-    try {
-      await fs.ensureDir(dir);
-      await fs.writeJson(filePath, payload, { spaces: 2 });
-      console.error(`[LOG] Wrote ${kind} log to ${filePath}`);
-    } catch (e) {
-      console.error(`[LOG] Failed to write local ${kind} log:`, e);
-    }
-    return; // IMPORTANT: do not attempt S3 in local mode
-  }
+import { validateMeetingData, type ValidationWarning } from '@NationalDietAPIHandler/validate';
+import {
+  getArticleById, queryFacet, queryByMonth, queryRecentArticles, type Facet,
+} from '@DynamoDBHandler/storeData';
+import { encodeCursor, decodeCursor, InvalidCursorError } from '@DynamoDBHandler/cursor';
+import { Router, json, type HttpRequest, type HttpResponse } from '@http/router';
+import { HttpError, badRequest, notFound } from '@http/errors';
+import { ApiKeyAuthenticator } from '@http/auth';
+import {
+  jsonBody, optionalYmd, optionalMonth, optionalInt, optionalBool, optionalOneOf, optionalString, optionalStringArray,
+} from '@http/validation';
+import {
+  createApiKey, getApiKey, listApiKeys, rotateApiKey, revokeApiKey, API_SCOPES, type ApiScope,
+} from '@DynamoDBHandler/apiKeys';
+import { meetingFingerprint } from '@NationalDietAPIHandler/fingerprint';
+import {
+  createRun, getRun, updateRun, failRun, claimRunForResume, listRuns, listRecentFailures, listRecentReviews,
+  ensureMeetingsPending, setMeetingStatus, listMeetingStates, runCounts,
+  RUN_STATUSES, type MeetingState, type RunRecord, type RunStatus,
+} from '@DynamoDBHandler/runState';
+import {
+  ddbCfg, dietApi, rawArchive, meetingQueue, lambdaClient, llm, national_diet_api_max_records, CONCURRENCY,
+  serializeError, runWithConcurrency, tryRunState, notifiers, putRunPayload, payloadBytes, RUN_PAYLOAD_INLINE_BYTES,
+  type TaskOk, type TaskNg, type TaskResult,
+} from '@services/runtime';
+import { processAndStoreMeeting, finalizeRunIfDone } from '@services/meetingWorker';
+import { notifyAll, topErrorMessages } from '@services/notifier';
+import * as prompt from '@LLMSummarize/prompt';
+import { estimateMeetings, type MeetingEstimate, type EstimateTotals } from '@LLMSummarize/estimate';
+import { mergeUsage, type UsageSummary } from '@llm/usage';
+import {
+  parseRunFilters, toDietQuery, matchesRunFilters, describeRunFilters, type RunFilters,
+} from '@services/runFilters';
+import { logger } from '@utils/logger';
+import { metrics } from '@utils/metrics';
+import { tracer } from '@utils/tracing';
 
-  const bucket = process.env.ERROR_BUCKET;
-  if (!bucket) return;
+import type { RawMeetingData, RawMeetingRecord } from '@interfaces/Raw';
 
-  const key = `${kind}/${fileName}`;
-  try {
-    await s3.send(
-      new PutObjectCommand({
-        Bucket: bucket,
-        Key: key,
-        Body: JSON.stringify(payload, null, 2),
-        ContentType: "application/json",
-      })
-    );
-    console.error(`[LOG] Wrote ${kind} log to s3://${bucket}/${key}`);
-  } catch (e) {
-    console.error(`[LOG] Failed to write ${kind} log to S3:`, e);
-  }
-}
 /**
  * Return YYYY-MM-DD string in JST with an optional day offset.
  * Example: dateStrJST(0) -> today (JST), dateStrJST(-1) -> previous day (JST).
@@ -170,34 +75,18 @@ function dateStrJST(offsetDays = 0): string {
   return `${y}-${m}-${d}`; // e.g. 2025-08-12
 }
 
-// ---------- HTTP helpers ---------------------------------------
-
 type AnyEvent = APIGatewayProxyEventV2 | ScheduledEvent;
 
 const isHttpApiEvent = (e: AnyEvent): e is APIGatewayProxyEventV2 =>
   !!(e as APIGatewayProxyEventV2)?.requestContext?.http?.method;
 
-const json = (statusCode: number, body: unknown): APIGatewayProxyStructuredResultV2 => ({
-  statusCode,
-  headers: { 'content-type': 'application/json' },
-  body: JSON.stringify(body),
-});
-
-const lowercaseHeaders = (headers?: Record<string, string | undefined>): Record<string, string> =>
-  Object.fromEntries(
-    Object.entries(headers ?? {}).map(([k, v]) => [k.toLowerCase(), String(v ?? '')]),
-  );
+// ---------- core pipeline (shared by HTTP / EventBridge) --------
 
-const parseYmdOrNull = (v?: unknown): string | null => {
-  if (v == null) return null;
-  const s = String(v);
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
-  const d = new Date(`${s}T00:00:00Z`);
-  return Number.isNaN(d.getTime()) ? null : s;
+type ValidationSummary = {
+  warnings: ValidationWarning[];
+  quarantined: Array<{ index: number; issueID?: string; reasons: string[] }>;
 };
 
-// ---------- core pipeline (shared by HTTP / EventBridge) --------
-
 type PipelinePayload = {
   runId: string;
   startedAt: string;
@@ -205,73 +94,248 @@ type PipelinePayload = {
   groups: number;
   stored: number;
   failed: number;
+  review: number;          // held by the quality gate (see GET /runs/reviews)
   storedIds: string[];
+  reviewIds: string[];
+  skipped: number;
+  skippedIds: string[];    // unchanged since last run (same source fingerprint)
+  pending: number;
+  pendingIds: string[];    // not started before the time budget ran out, or requeued by the quality gate; resume with the runId
+  resumed: boolean;
+  mode: PipelineMode;
+  enqueued: number;        // queue mode: meetings handed to the SQS consumer
   failures: TaskNg[];
-  filters: { from: string; until: string };
+  usage?: UsageSummary;    // LLM calls / tokens / cost of the meetings summarized by this invocation
+  source: PipelineSource;
+  archived: number;        // raw records written to the archive this run
+  fetched: number;         // meeting records actually fetched across all pages
+  numberOfRecords: number; // total reported by the National Diet API
+  validation: ValidationSummary;
+  filters: RunFilters;
   eventSource: string;
   concurrency: number;
 };
 
-async function executePipeline(
-  fromYmd: string,
-  untilYmd: string,
-  eventSource: string,
-  runId: string,
-  startedAt: string
-): Promise<PipelinePayload | { message: string; runId: string; filters: { from: string; until: string } }> {
-  const raw: RawMeetingData = await fetchNationalDietRecords(national_diet_api_endpoint, { from: fromYmd, until: untilYmd });
-
-  if (Object.prototype.hasOwnProperty.call(raw, "numberOfRecords") && raw.numberOfRecords === 0) {
-    const payload = {
-      message: 'No records found for the specified date range.',
-      runId,
-      filters: { from: fromYmd, until: untilYmd },
-    };
-    await logToS3("success", {
-      runId, startedAt, finishedAt: new Date().toISOString(),
-      groups: 0, stored: 0, failed: 0, storedIds: [],
-      raw, failures: [], filters: { from: fromYmd, until: untilYmd },
-      eventSource, concurrency: CONCURRENCY
-    });
-    return payload;
-  }
+/** Result of a dry run: what a run would cost, without LLM calls or run state. */
+type DryRunPayload = {
+  runId: string;
+  dryRun: true;
+  startedAt: string;
+  finishedAt: string;
+  filters: RunFilters;
+  source: PipelineSource;
+  fetched: number;
+  numberOfRecords: number;
+  validation: ValidationSummary;
+  skipped: number;
+  skippedIds: string[];
+  estimate: { meetings: MeetingEstimate[]; total: EstimateTotals };
+};
 
-  // === build articles with LLM (threshold-aware) ===
-  const charThreshold = Number(process.env.CHAR_THRESHOLD || 10000);
-  const articles: Article[] = await processRawMeetingData({
-    rawData: raw,
-    instruction: prompt.instruction,
-    output_format: prompt.output_format,
-    charThreshold,
-    llm
-  });
+type PipelineSource = "api" | "archive";
+const PIPELINE_SOURCES: PipelineSource[] = ["api", "archive"];
+
+// "inline" summarizes in this invocation; "queue" enqueues one message per meeting for sqs_handler
+type PipelineMode = "inline" | "queue";
+const PIPELINE_MODES: PipelineMode[] = ["inline", "queue"];
+
+type PipelineOptions = {
+  force?: boolean;         // reprocess meetings even when their source fingerprint is unchanged
+  source?: PipelineSource; // "archive" replays raw records from RawArchive instead of the Diet API
+  remainingMs?: () => number; // remaining invocation time (Lambda context); Infinity when unknown
+  mode?: PipelineMode;
+  dryRun?: boolean;        // fetch, pack and estimate LLM calls / tokens; no LLM calls, no DynamoDB / S3 / archive writes
+};
 
-  // === parallel: store each article to DynamoDB with bounded concurrency ===
-  const tasks: Array<() => Promise<TaskResult>> = articles.map((article) => async () => {
-    const baseId = article.id;
+/**
+ * Split meetings into those that need (re)summarizing and those whose stored
+ * article already has the same source fingerprint. Articles stored before
+ * fingerprints existed are treated as changed. Lookup failures fall back to processing.
+ */
+async function selectChangedMeetings(
+  meetings: RawMeetingRecord[],
+  runId: string,
+  force = false
+): Promise<{ changed: RawMeetingRecord[]; skippedIds: string[] }> {
+  if (force) return { changed: meetings, skippedIds: [] };
+
+  const checks = meetings.map((m) => async () => {
     try {
-      const stored = await storeData(
-        {
-          doc: doc,
-          table_name: "politopics"
-        },
-        article);
-      const articleId =
-        typeof stored === "string"
-          ? stored
-          : (stored?.id ?? baseId);
-
-      return { ok: true, baseId, articleId };
+      const { Item } = await getArticleById(ddbCfg, m.issueID);
+      return !!Item?.sourceHash && Item.sourceHash === meetingFingerprint(m).sourceHash;
     } catch (e) {
-      const err = serializeError(e);
-      await logToS3("error", { runId, stage: "storeData", articleId: baseId, error: err });
-      return { ok: false, baseId, error: err };
+      logger.warn("Stored article lookup failed; will reprocess", { runId, meetingId: m.issueID, error: e });
+      return false;
+    }
+  });
+  const unchanged = await runWithConcurrency(checks, CONCURRENCY);
+
+  return {
+    changed: meetings.filter((_, i) => !unchanged[i]),
+    skippedIds: meetings.filter((_, i) => unchanged[i]).map((m) => m.issueID),
+  };
+}
+
+type LoadedMeetings = {
+  raw: RawMeetingData;
+  source: PipelineSource;
+  archived: number;
+  fetched: number;
+  numberOfRecords: number;
+  validation: ValidationSummary;
+  archiveFailures: number;  // raw records that could not be archived
+  quarantinedKey?: string;  // where the quarantined raw records were written
+};
+
+/** Fetch the run's meetings from the API (one query per explicit issueID) or the archive. */
+async function fetchMeetingsFor(filters: RunFilters, source: PipelineSource): Promise<RawMeetingData> {
+  if (source === "archive") return rawArchive.load(filters.from, filters.until);
+
+  const query = { ...toDietQuery(filters), maximumRecords: national_diet_api_max_records };
+  if (!filters.issueIDs) return dietApi.fetchMeetings(query);
+
+  const merged: RawMeetingData = { numberOfRecords: 0, numberOfReturn: 0, startRecord: 1, nextRecordPosition: null, meetingRecord: [] };
+  for (const issueID of filters.issueIDs) {
+    const res = await dietApi.fetchMeetings({ ...query, issueID });
+    merged.numberOfRecords += res.numberOfRecords ?? 0;
+    merged.meetingRecord.push(...(res.meetingRecord ?? []));
+  }
+  merged.numberOfReturn = merged.meetingRecord.length;
+  return merged;
+}
+
+/**
+ * Fetch (or replay) the meetings matching the run filters, archive them and
+ * validate them. A dry run only reads: nothing is archived or written to S3.
+ */
+async function loadMeetings(
+  filters: RunFilters,
+  source: PipelineSource,
+  runId: string,
+  dryRun = false
+): Promise<LoadedMeetings> {
+  const fetchedRaw = await fetchMeetingsFor(filters, source);
+  const fetched = fetchedRaw.meetingRecord?.length ?? 0;
+
+  // Archive what we fetched (best-effort) so the run can be replayed later
+  let archived = 0;
+  let archiveFailures = 0;
+  if (source === "api" && rawArchive.enabled && fetched > 0 && !dryRun) {
+    const res = await rawArchive.putAll(fetchedRaw.meetingRecord);
+    archived = res.stored.length;
+    archiveFailures = res.failed.length;
+    if (res.failed.length) {
+      logger.warn("Failed to archive raw records", { runId, failed: res.failed.length, failures: res.failed });
     }
+  }
+  if (fetched < fetchedRaw.numberOfRecords) {
+    logger.warn("Fetched fewer records than available", { runId, fetched, numberOfRecords: fetchedRaw.numberOfRecords });
+  }
+
+  // Reject unusable payloads, quarantine malformed meetings, normalize the rest
+  const { data: validated, warnings, quarantined } = validateMeetingData(fetchedRaw);
+
+  // Filters the API cannot apply (imageKind) or that the archive ignores
+  const matching = validated.meetingRecord.filter(rec => matchesRunFilters(rec, filters));
+  const raw: RawMeetingData = {
+    ...validated,
+    numberOfRecords: validated.numberOfRecords - (validated.meetingRecord.length - matching.length),
+    meetingRecord: matching,
+  };
+  const validation: ValidationSummary = {
+    warnings,
+    quarantined: quarantined.map(({ record: _record, ...q }) => q),
+  };
+  if (warnings.length) {
+    logger.warn("Validation warnings in National Diet API response", { runId, warnings: warnings.length });
+  }
+  // The raw records of quarantined meetings are large: they go to S3, the reasons stay on the run record
+  let quarantinedKey: string | undefined;
+  if (quarantined.length) {
+    metrics.put("MeetingsQuarantined", quarantined.length);
+    logger.error("Quarantined malformed meetings", { runId, issueIDs: quarantined.map(q => q.issueID ?? `#${q.index}`) });
+  }
+  if (quarantined.length && !dryRun) {
+    const ts = new Date().toISOString().replace(/[:]/g, "-");
+    quarantinedKey = await putRunPayload(runId, `quarantined-${ts}`, { runId, filters, quarantined, warnings });
+  }
+
+  return { raw, source, archived, fetched, numberOfRecords: raw.numberOfRecords, validation, archiveFailures, quarantinedKey };
+}
+
+/**
+ * Process meetings with bounded concurrency. Once the remaining Lambda time
+ * drops below RUN_TIME_RESERVE_MS no new meeting is started; those stay
+ * pending in the run state and are picked up by a resumed run.
+ */
+async function runMeetings(
+  meetings: RawMeetingRecord[],
+  runId: string,
+  remainingMs: () => number,
+  priorStates: Map<string, MeetingState> = new Map()
+): Promise<{ results: TaskResult[]; pendingIds: string[] }> {
+  const reserveMs = Number(process.env.RUN_TIME_RESERVE_MS ?? 60_000);
+
+  const tasks: Array<() => Promise<TaskResult | undefined>> = meetings.map((rec) => async () => {
+    if (remainingMs() < reserveMs) return undefined;
+    return processAndStoreMeeting(rec, runId, priorStates.get(rec.issueID));
   });
 
-  const results = await runWithConcurrency<TaskResult>(tasks, CONCURRENCY);
-  const ok = results.filter(r => r.ok) as TaskOk[];
+  const settled = await runWithConcurrency<TaskResult | undefined>(tasks, CONCURRENCY);
+  const pendingIds = meetings.filter((_, i) => !settled[i]).map((m) => m.issueID);
+  if (pendingIds.length) {
+    logger.warn("Out of time; meetings left pending for resume", { runId, pending: pendingIds.length });
+  }
+  return { results: settled.filter((r): r is TaskResult => !!r), pendingIds };
+}
+
+/**
+ * Run record fields describing the first invocation of a run. The summary is
+ * kept inline; when its ID lists would bloat the item, the full payload goes to
+ * S3 and only its key and the counts stay on the record.
+ */
+async function runSummaryFields(
+  payload: Pick<PipelinePayload, "runId" | "skippedIds" | "concurrency"> & Partial<Pick<PipelinePayload, "mode" | "enqueued">>,
+  loaded: LoadedMeetings
+): Promise<Pick<RunRecord, "summary" | "payloadKey">> {
+  const summary: NonNullable<RunRecord["summary"]> = {
+    mode: payload.mode ?? "inline",
+    source: loaded.source,
+    fetched: loaded.fetched,
+    archived: loaded.archived,
+    numberOfRecords: loaded.numberOfRecords,
+    enqueued: payload.enqueued,
+    concurrency: payload.concurrency,
+    skippedIds: payload.skippedIds,
+    warnings: loaded.validation.warnings.length,
+    quarantined: loaded.validation.quarantined,
+    quarantinedKey: loaded.quarantinedKey,
+    archiveFailures: loaded.archiveFailures || undefined,
+  };
+  if (payloadBytes(summary) <= RUN_PAYLOAD_INLINE_BYTES) return { summary };
+
+  const payloadKey = await putRunPayload(payload.runId, "payload", payload);
+  return { summary: { ...summary, skippedIds: undefined, quarantined: undefined }, payloadKey };
+}
+
+/** Build the run payload, persist the run status and write the success log. */
+async function finishRun(args: {
+  runId: string;
+  startedAt: string;
+  eventSource: string;
+  filters: RunFilters;
+  loaded: LoadedMeetings;
+  results: TaskResult[];
+  skippedIds: string[];
+  pendingIds: string[];
+  resumed: boolean;
+}): Promise<PipelinePayload> {
+  const { runId, startedAt, eventSource, filters, loaded, results, skippedIds, resumed } = args;
+  const done = results.filter(r => r.ok) as TaskOk[];
   const ng = results.filter(r => !r.ok) as TaskNg[];
+  const ok = done.filter(r => !r.verdict || r.verdict === "store");
+  const review = done.filter(r => r.verdict === "review");
+  const pendingIds = [...args.pendingIds, ...done.filter(r => r.verdict === "requeue").map(r => r.baseId)];
 
   const storedIds = ok.map(r => r.articleId!).filter(Boolean);
   const finishedAt = new Date().toISOString();
@@ -280,120 +344,750 @@ async function executePipeline(
     runId,
     startedAt,
     finishedAt,
-    groups: articles.length,
+    groups: results.length,
     stored: ok.length,
     failed: ng.length,
+    review: review.length,
     storedIds,
+    reviewIds: review.map(r => r.baseId),
+    skipped: skippedIds.length,
+    skippedIds,
+    pending: pendingIds.length,
+    pendingIds,
+    resumed,
+    mode: "inline",
+    enqueued: 0,
     failures: ng,
-    filters: { from: fromYmd, until: untilYmd },
+    usage: mergeUsage(done.map(r => r.usage)),
+    source: loaded.source,
+    archived: loaded.archived,
+    fetched: loaded.fetched,
+    numberOfRecords: loaded.numberOfRecords,
+    validation: loaded.validation,
+    filters,
+    eventSource,
+    concurrency: CONCURRENCY,
+  };
+
+  metrics.put("MeetingsStored", ok.length);
+  metrics.put("MeetingsFailed", ng.length);
+  metrics.put("MeetingsSkipped", skippedIds.length);
+  metrics.put("MeetingsPending", pendingIds.length);
+  metrics.put("RunDuration", Date.parse(finishedAt) - Date.parse(startedAt), "Milliseconds");
+
+  // Counts span every invocation of the run, not just this one; the summary is the first invocation's
+  await tryRunState("update run record", runId, async () => {
+    const states = await listMeetingStates(ddbCfg, runId);
+    const skipped = resumed ? ((await getRun(ddbCfg, runId))?.counts?.skipped ?? 0) : skippedIds.length;
+    await updateRun(ddbCfg, runId, {
+      status: pendingIds.length ? "incomplete" : "completed",
+      finishedAt: pendingIds.length ? undefined : finishedAt,
+      counts: runCounts(states, skipped),
+      usage: mergeUsage(states.map(m => m.usage)),
+      ...(resumed ? {} : await runSummaryFields(payload, loaded)),
+    });
+  });
+  logger.info("Run invocation finished", {
+    runId, stored: ok.length, failed: ng.length, review: review.length, skipped: skippedIds.length, pending: pendingIds.length, resumed,
+  });
+
+  if (ng.length) await notifyFailures(payload, ok.reduce((n, r) => n + (r.nonJsonOutputs ?? 0), 0));
+  return payload;
+}
+
+/** Tell the configured notifiers about the failed meetings of a finished invocation. */
+async function notifyFailures(payload: PipelinePayload, nonJsonOutputs: number) {
+  await notifyAll(notifiers, {
+    runId: payload.runId,
+    status: "completed_with_failures",
+    eventSource: payload.eventSource,
+    startedAt: payload.startedAt,
+    finishedAt: payload.finishedAt,
+    filters: describeRunFilters(payload.filters),
+    stored: payload.stored,
+    failed: payload.failed,
+    skipped: payload.skipped,
+    pending: payload.pending,
+    failedIssueIDs: payload.failures.map(f => f.baseId),
+    nonJsonOutputs,
+    topErrors: topErrorMessages(payload.failures.map(f => f.error.message)),
+  });
+}
+
+/** Tell the configured notifiers that a run failed as a whole. */
+async function notifyRunFailed(runId: string, startedAt: string, eventSource: string, error: unknown) {
+  const { message } = serializeError(error);
+  await notifyAll(notifiers, {
+    runId,
+    status: "failed",
+    eventSource,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    stored: 0,
+    failed: 0,
+    failedIssueIDs: [],
+    nonJsonOutputs: 0,
+    topErrors: topErrorMessages([message]),
+    error: message,
+  });
+}
+
+/**
+ * Producer side of queue mode: enqueue the selected meetings and return right
+ * away. Meetings that cannot be enqueued are marked failed; consumers close the
+ * run once every meeting is stored or failed.
+ */
+async function enqueueMeetings(args: {
+  runId: string;
+  startedAt: string;
+  eventSource: string;
+  filters: RunFilters;
+  loaded: LoadedMeetings;
+  meetings: RawMeetingRecord[];
+  skippedIds: string[];
+}): Promise<PipelinePayload> {
+  const { runId, startedAt, eventSource, filters, loaded, meetings, skippedIds } = args;
+  const { sent, failed } = await meetingQueue!.enqueue(
+    meetings.map(m => ({ runId, issueID: m.issueID, date: m.date }))
+  );
+  metrics.put("MeetingsEnqueued", sent);
+  metrics.put("MeetingsSkipped", skippedIds.length);
+  logger.info("Enqueued meetings", { runId, sent, failed: failed.length, queue: meetingQueue!.name });
+
+  const failures: TaskNg[] = failed.map(f => ({
+    ok: false, baseId: f.message.issueID, error: { message: `Failed to enqueue: ${f.reason}` },
+  }));
+  for (const f of failures) {
+    await tryRunState("mark meeting failed", runId, () =>
+      setMeetingStatus(ddbCfg, runId, f.baseId, "failed", { error: f.error, stage: "enqueue" }));
+  }
+
+  const payload: PipelinePayload = {
+    runId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    groups: 0,
+    stored: 0,
+    failed: failures.length,
+    review: 0,
+    storedIds: [],
+    reviewIds: [],
+    skipped: skippedIds.length,
+    skippedIds,
+    pending: sent,
+    pendingIds: [],
+    resumed: false,
+    mode: "queue",
+    enqueued: sent,
+    failures,
+    source: loaded.source,
+    archived: loaded.archived,
+    fetched: loaded.fetched,
+    numberOfRecords: loaded.numberOfRecords,
+    validation: loaded.validation,
+    filters,
     eventSource,
     concurrency: CONCURRENCY,
   };
+  await tryRunState("update run record", runId, async () => updateRun(ddbCfg, runId, {
+    counts: { total: meetings.length + skippedIds.length, groups: failures.length, stored: 0, failed: failures.length, review: 0, skipped: skippedIds.length, pending: sent },
+    ...(await runSummaryFields(payload, loaded)),
+  }));
+  // Nothing left for consumers (all skipped or all failed to enqueue)
+  if (sent === 0) await tryRunState("finalize run", runId, () => finalizeRunIfDone(runId));
 
-  await logToS3("success", payload);
+  if (failures.length) await notifyFailures(payload, 0);
   return payload;
 }
 
+async function executePipeline(
+  filters: RunFilters,
+  eventSource: string,
+  runId: string,
+  startedAt: string,
+  options: PipelineOptions = {}
+): Promise<PipelinePayload | DryRunPayload | { message: string; runId: string; filters: RunFilters }> {
+  return tracer.withSpan("run", { runId, eventSource, dryRun: !!options.dryRun, mode: options.mode ?? "inline" }, async () => {
+    const source = options.source ?? "api";
+    const remainingMs = options.remainingMs ?? (() => Infinity);
+    const mode = options.mode ?? "inline";
+    const dryRun = !!options.dryRun;
+    if (mode === "queue" && !meetingQueue && !dryRun) {
+      throw new Error("PIPELINE_MODE=queue requires MEETING_QUEUE_URL");
+    }
+
+    if (!dryRun) {
+      await tryRunState("create run record", runId, () => createRun(ddbCfg, {
+        runId, startedAt, eventSource, filters: { ...filters }, options: { force: !!options.force, source, mode },
+      }));
+    }
+
+    const log = logger.child({ runId });
+    log.info("Run started", { filters: describeRunFilters(filters), source, mode, dryRun });
+    const loaded = await tracer.withSpan("fetch", { source }, () => loadMeetings(filters, source, runId, dryRun));
+    const { raw } = loaded;
+
+    if (Object.prototype.hasOwnProperty.call(raw, "numberOfRecords") && raw.numberOfRecords === 0) {
+      const payload = {
+        message: 'No records found for the specified filters.',
+        runId,
+        filters,
+      };
+      if (dryRun) return payload;
+      await tryRunState("update run record", runId, async () => updateRun(ddbCfg, runId, {
+        status: "completed", finishedAt: new Date().toISOString(),
+        counts: runCounts([]),
+        ...(await runSummaryFields({ runId, skippedIds: [], mode, concurrency: CONCURRENCY }, loaded)),
+      }));
+      return payload;
+    }
+
+    // === skip meetings already summarized from identical source ===
+    const { changed, skippedIds } = await selectChangedMeetings(raw.meetingRecord, runId, options.force);
+    if (skippedIds.length) {
+      log.info("Skipping unchanged meetings", { skipped: skippedIds.length, issueIDs: skippedIds });
+    }
+
+    // === dry run: estimate what summarizing the changed meetings would cost ===
+    if (dryRun) {
+      const estimate = await estimateMeetings(changed, {
+        instruction: prompt.instruction,
+        output_format: prompt.output_format,
+        charThreshold: Number(process.env.CHAR_THRESHOLD || 10000),
+        llm,
+      });
+      log.info("Dry run estimated", { meetings: changed.length, llmCalls: estimate.total.llmCalls, totalTokens: estimate.total.totalTokens });
+      return {
+        runId, dryRun: true, startedAt, finishedAt: new Date().toISOString(), filters, source,
+        fetched: loaded.fetched, numberOfRecords: loaded.numberOfRecords, validation: loaded.validation,
+        skipped: skippedIds.length, skippedIds, estimate,
+      };
+    }
+
+    await tryRunState("register meetings", runId, () =>
+      ensureMeetingsPending(ddbCfg, runId, changed.map(m => ({ issueID: m.issueID, date: m.date }))));
+
+    // === queue mode: one message per meeting, processed by the SQS consumer ===
+    if (mode === "queue") {
+      return enqueueMeetings({ runId, startedAt, eventSource, filters, loaded, meetings: changed, skippedIds });
+    }
+
+    // === summarize + store each meeting with bounded concurrency ===
+    const { results, pendingIds } = await runMeetings(changed, runId, remainingMs);
+
+    return finishRun({ runId, startedAt, eventSource, filters, loaded, results, skippedIds, pendingIds, resumed: false });
+  });
+}
+
+/** Raised when a resume is requested for a run that does not exist. */
+class RunNotFoundError extends Error {
+  constructor(public readonly runId: string) {
+    super(`Run not found: ${runId}`);
+    this.name = "RunNotFoundError";
+  }
+}
+
+/**
+ * Resume a previous run: only meetings not yet stored are processed, reusing
+ * checkpointed chunk / reduce results. Raw records come from the archive when
+ * available, otherwise the run's date range is fetched again.
+ */
+async function resumePipeline(
+  runId: string,
+  eventSource: string,
+  startedAt: string,
+  options: Pick<PipelineOptions, "remainingMs"> = {}
+): Promise<PipelinePayload | { message: string; runId: string; filters: RunFilters }> {
+  return tracer.withSpan("run", { runId, eventSource, resumed: true }, async () => {
+    const run = await getRun(ddbCfg, runId);
+    if (!run) throw new RunNotFoundError(runId);
+
+    const filters = run.filters as unknown as RunFilters;
+    const states = await listMeetingStates(ddbCfg, runId);
+    // Meetings held for review wait for a person, not for another attempt
+    const unfinished = states.filter(m => m.status !== "stored" && m.status !== "review");
+    if (!unfinished.length) {
+      await updateRun(ddbCfg, runId, { status: "completed", finishedAt: run.finishedAt ?? new Date().toISOString() });
+      return { message: 'Run already completed; nothing to resume.', runId, filters };
+    }
+    logger.info("Resuming run", { runId, unfinished: unfinished.length, meetings: states.length });
+    await updateRun(ddbCfg, runId, { status: "running" });
+
+    // Prefer archived raw records; re-fetch the range only for what is missing
+    const byId = new Map<string, RawMeetingRecord>();
+    if (rawArchive.enabled) {
+      for (const m of unfinished) {
+        const rec = await rawArchive.get(m.date, m.issueID);
+        if (rec) byId.set(m.issueID, rec);
+      }
+    }
+    let source: PipelineSource = "archive";
+    if (unfinished.some(m => !byId.has(m.issueID))) {
+      source = "api";
+      const refetched = await tracer.withSpan("fetch", { source: "api" }, () => loadMeetings(filters, "api", runId));
+      for (const rec of refetched.raw.meetingRecord) if (!byId.has(rec.issueID)) byId.set(rec.issueID, rec);
+    }
+
+    const wanted = unfinished.map(m => byId.get(m.issueID)).filter((r): r is RawMeetingRecord => !!r);
+    const { data, warnings, quarantined } = validateMeetingData({
+      numberOfRecords: wanted.length, numberOfReturn: wanted.length, startRecord: 1, meetingRecord: wanted,
+    });
+    const loaded: LoadedMeetings = {
+      raw: data,
+      source,
+      archived: 0,
+      fetched: wanted.length,
+      numberOfRecords: unfinished.length,
+      validation: { warnings, quarantined: quarantined.map(({ record: _record, ...q }) => q) },
+      archiveFailures: 0,
+    };
+
+    const missing = unfinished.filter(m => !byId.has(m.issueID)).map(m => m.issueID);
+    if (missing.length) {
+      logger.warn("Meetings no longer returned by the API", { runId, issueIDs: missing });
+    }
+
+    const priorStates = new Map(states.map(m => [m.issueID, m]));
+    const { results, pendingIds } = await runMeetings(data.meetingRecord, runId, options.remainingMs ?? (() => Infinity), priorStates);
+
+    return finishRun({ runId, startedAt, eventSource, filters, loaded, results, skippedIds: [], pendingIds, resumed: true });
+  });
+}
+
+// ---------- HTTP API routes --------------------------------------
+
+const READ_DEFAULT_LIMIT = 20;
+const READ_MAX_LIMIT = 100;
+
+// Path segment -> thin index facet
+const FACET_ROUTES: Record<string, Facet> = {
+  categories: "category",
+  persons: "person",
+  keywords: "keyword",
+  sessions: "session",
+  houses: "house",
+  meetings: "meeting",
+};
+
+// Fields returned by article listings (the main item also holds dialogs, summaries, ...)
+const ARTICLE_LIST_FIELDS = [
+  "id", "title", "date", "month", "imageKind", "session", "nameOfHouse", "nameOfMeeting", "categories", "description",
+] as const;
+
+const stripKeys = ({ PK: _pk, SK: _sk, GSI1PK: _g1p, GSI1SK: _g1s, GSI2PK: _g2p, GSI2SK: _g2s, ...rest }: Record<string, any>) => rest;
+
+const toArticleListItem = (item: Record<string, any>) =>
+  Object.fromEntries(ARTICLE_LIST_FIELDS.filter(k => k in item).map(k => [k, item[k]]));
+
+const toIndexListItem = (item: Record<string, any>) => {
+  const { type: _type, kind: _kind, ...rest } = stripKeys(item);
+  return rest;
+};
+
+/**
+ * The listing a cursor belongs to: path plus every filter except limit / cursor.
+ * A cursor is only accepted by the listing that issued it.
+ */
+function listingOf(req: HttpRequest) {
+  let path = req.path;
+  try { path = decodeURIComponent(path); } catch { /* keep the raw path */ }
+  const filters = Object.entries(req.query)
+    .filter(([k, v]) => k !== 'limit' && k !== 'cursor' && v != null)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v}`);
+  return [path, ...filters].join('&');
+}
+
+/** `limit` (1..100) and opaque `cursor` shared by every listing. */
+function pageParams(req: HttpRequest) {
+  const limit = optionalInt(req.query.limit, 'limit', { min: 1, max: READ_MAX_LIMIT }) ?? READ_DEFAULT_LIMIT;
+  try {
+    return { limit, startKey: decodeCursor(req.query.cursor, listingOf(req)) };
+  } catch (e) {
+    if (e instanceof InvalidCursorError) throw badRequest('invalid_cursor', e.message);
+    throw e;
+  }
+}
+
+const nextCursor = (req: HttpRequest, lastEvaluatedKey?: Record<string, any>) =>
+  encodeCursor(lastEvaluatedKey, listingOf(req)) ?? null;
+
+const page = (
+  req: HttpRequest,
+  res: { Items?: Record<string, any>[]; LastEvaluatedKey?: Record<string, any> },
+  map: (item: Record<string, any>) => unknown
+) => json(200, { items: (res.Items ?? []).map(map), nextCursor: nextCursor(req, res.LastEvaluatedKey) });
+
+// Table-backed API keys; RUN_API_KEY stays valid as the bootstrap admin key
+const auth = new ApiKeyAuthenticator({
+  loadKey: (keyId) => getApiKey(ddbCfg, keyId),
+  bootstrapKey: process.env.RUN_API_KEY,
+  cacheTtlMs: Number(process.env.API_KEY_CACHE_TTL_MS ?? 30_000),
+});
+
+// Read routes need `articles:read` unless PUBLIC_READ_API=true
+const publicReads = (process.env.PUBLIC_READ_API || '').toLowerCase() === 'true';
+const readRoute = (handler: (req: HttpRequest) => Promise<HttpResponse>) =>
+  publicReads ? handler : auth.protect('articles:read', (req) => handler(req));
+
+/** Work handed from the HTTP API to an asynchronous invocation of this function. */
+type AsyncRunRequest =
+  | {
+      kind: "start";
+      runId: string;
+      startedAt: string;
+      filters: RunFilters;
+      options: { force: boolean; source?: PipelineSource; mode?: PipelineMode };
+    }
+  | { kind: "resume"; runId: string; startedAt: string };
+
+const isAsyncRunRequest = (e: unknown): e is { asyncRun: AsyncRunRequest } =>
+  !!(e as any)?.asyncRun?.runId && ["start", "resume"].includes((e as any).asyncRun.kind);
+
+/** Execute a submitted run; failures are recorded on the run record instead of thrown. */
+async function executeRunRequest(request: AsyncRunRequest, remainingMs: () => number) {
+  const { runId, startedAt } = request;
+  try {
+    return request.kind === "resume"
+      ? await resumePipeline(runId, 'apigw', startedAt, { remainingMs })
+      : await executePipeline(request.filters, 'apigw', runId, startedAt, { ...request.options, remainingMs });
+  } catch (e) {
+    logger.error("Async run failed", { runId, error: e });
+    await markRunFailed(runId, startedAt, 'apigw', e);
+    await notifyRunFailed(runId, startedAt, 'apigw', e);
+    return undefined;
+  }
+}
+
+/**
+ * Hand a run to an asynchronous (InvocationType=Event) invocation of this
+ * function. Outside Lambda (local / tests) it runs in the background of this process.
+ */
+async function submitRun(request: AsyncRunRequest) {
+  const functionName = process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (!functionName || (process.env.APP_ENV || "").toLowerCase() === "local") {
+    void executeRunRequest(request, () => Infinity);
+    return;
+  }
+  await lambdaClient.send(new InvokeCommand({
+    FunctionName: functionName,
+    InvocationType: "Event",
+    Payload: Buffer.from(JSON.stringify({ asyncRun: request })),
+  }));
+}
+
+/**
+ * A queued / running run with no progress on its record or any meeting for this
+ * long was abandoned (Lambda timeout or crash) and may be resumed. Defaults to
+ * the consumer timeout (900 s) plus a minute.
+ */
+const RUN_STALE_AFTER_MS = Number(process.env.RUN_STALE_AFTER_SECONDS ?? 960) * 1000;
+
+async function runIsStale(run: RunRecord) {
+  const states = await listMeetingStates(ddbCfg, run.runId);
+  const lastActivity = [run.updatedAt, ...states.map((m) => m.updatedAt)]
+    .reduce((latest, t) => (t && t > latest ? t : latest), '');
+  return Date.now() - Date.parse(lastActivity) > RUN_STALE_AFTER_MS;
+}
+
+const accepted = (runId: string, status: RunStatus) =>
+  json(202, { message: 'Run accepted.', runId, status, statusUrl: `/runs/${runId}` });
+
+/**
+ * POST /run (JSON body) or GET /run (query string):
+ * {from, until, nameOfHouse, nameOfMeeting, session, issueIDs, imageKind, force, source, mode}
+ * starts a run; {runId} resumes one.
+ * Returns 202 with the runId right away; progress is at GET /runs/{runId}.
+ * With `dryRun: true` the estimate is computed synchronously and returned with 200.
+ * Meetings whose source is unchanged since they were stored are skipped unless `force` is true.
+ */
+async function runRoute(req: HttpRequest): Promise<HttpResponse> {
+  const input: Record<string, any> = req.method === 'POST' ? jsonBody(req) : req.query;
+
+  // Defaults: if missing, run for "today" in JST
+  const filters = parseRunFilters(input, { from: dateStrJST(0) });
+  const force = optionalBool(input.force, 'force') ?? false;
+  const source = optionalOneOf(input.source, PIPELINE_SOURCES, 'source');
+  const mode = optionalOneOf(input.mode ?? (process.env.PIPELINE_MODE || undefined), PIPELINE_MODES, 'mode');
+  const dryRun = optionalBool(input.dryRun, 'dryRun') ?? false;
+  const resumeRunId = optionalString(input.runId, 'runId');
+  const startedAt = new Date().toISOString();
+
+  // Resume a previous run (date range and options come from the run record)
+  if (resumeRunId) {
+    const run = await getRun(ddbCfg, resumeRunId);
+    if (!run) throw notFound('run_not_found', `Run not found: ${resumeRunId}`, { runId: resumeRunId });
+    const inProgress = run.status === 'queued' || run.status === 'running';
+    if ((inProgress && !(await runIsStale(run))) || !(await claimRunForResume(ddbCfg, run))) {
+      throw new HttpError(409, 'run_in_progress', `Run ${resumeRunId} is ${run.status}`, { status: run.status });
+    }
+    if (inProgress) logger.warn('Resuming an abandoned run', { runId: resumeRunId, status: run.status, updatedAt: run.updatedAt });
+    await submitOrFail({ kind: 'resume', runId: resumeRunId, startedAt });
+    return accepted(resumeRunId, 'queued');
+  }
+
+  if (mode === 'queue' && !meetingQueue && !dryRun) {
+    throw new HttpError(500, 'server_misconfigured', 'MEETING_QUEUE_URL is not set');
+  }
+
+  const maxDays = Number(process.env.RUN_MAX_RANGE_DAYS ?? '31');
+  if (Number.isFinite(maxDays) && maxDays > 0) {
+    const startDate = new Date(`${filters.from}T00:00:00Z`);
+    const endDate = new Date(`${filters.until}T00:00:00Z`);
+    const diffDays = Math.floor((endDate.getTime() - startDate.getTime()) / 86_400_000) + 1;
+    if (diffDays > maxDays) throw badRequest('range_too_large', `Range exceeds ${maxDays} days`, { maxDays });
+  }
+
+  // Dry run: nothing is recorded, so answer in this request
+  if (dryRun) {
+    return json(200, await executePipeline(filters, 'apigw', req.runId, startedAt, { force, source, dryRun }));
+  }
+
+  // Record the run before handing it off so GET /runs/{runId} works immediately
+  const runId = req.runId;
+  const options = { force, source, mode };
+  await createRun(ddbCfg, {
+    runId, startedAt, eventSource: 'apigw', status: 'queued',
+    filters: { ...filters }, options: { ...options, source: source ?? 'api', mode: mode ?? 'inline' },
+  });
+  await submitOrFail({ kind: 'start', runId, startedAt, filters, options });
+  return accepted(runId, 'queued');
+}
+
+async function submitOrFail(request: AsyncRunRequest) {
+  try {
+    await submitRun(request);
+  } catch (e) {
+    await markRunFailed(request.runId, request.startedAt, 'apigw', e);
+    throw e;
+  }
+}
+
+/** GET /runs/{runId}: run record with live progress counts and failures from the meeting states. */
+async function getRunRoute(req: HttpRequest): Promise<HttpResponse> {
+  const { runId } = req.params;
+  const run = await getRun(ddbCfg, runId);
+  if (!run) throw notFound('run_not_found', `Run not found: ${runId}`, { runId });
+
+  const states = await listMeetingStates(ddbCfg, runId);
+  return json(200, {
+    ...run,
+    counts: runCounts(states, run.counts?.skipped ?? 0),
+    usage: mergeUsage(states.map(m => m.usage)) ?? null,
+    failures: states
+      .filter(m => m.status === 'failed')
+      .map(m => ({ issueID: m.issueID, date: m.date, message: m.error?.message })),
+    reviews: states
+      .filter(m => m.status === 'review')
+      .map(m => ({ issueID: m.issueID, date: m.date, score: m.quality?.score, issues: m.quality?.issues, articleKey: m.articleKey })),
+  });
+}
+
+/** since / until (YYYY-MM-DD, inclusive) for the run history routes. */
+function historyRange(req: HttpRequest) {
+  const since = optionalYmd(req.query.since, 'since');
+  const until = optionalYmd(req.query.until, 'until');
+  if (since && until && since > until) throw badRequest('invalid_range', 'since must not be after until');
+  return { since, until };
+}
+
+/** GET /runs?status=&hasFailures=&since=&until=&limit=&cursor=: most recent runs first. */
+async function listRunsRoute(req: HttpRequest): Promise<HttpResponse> {
+  const status = optionalOneOf(req.query.status, RUN_STATUSES, 'status');
+  const hasFailures = optionalBool(req.query.hasFailures, 'hasFailures');
+  const { limit, startKey } = pageParams(req);
+  const { runs, lastEvaluatedKey } = await listRuns(ddbCfg, { limit, startKey, status, hasFailures, ...historyRange(req) });
+  return json(200, { items: runs, nextCursor: nextCursor(req, lastEvaluatedKey) });
+}
+
+/** GET /runs/failures?since=&until=&limit=&cursor=: failed meetings across runs, most recent first. */
+async function listFailuresRoute(req: HttpRequest): Promise<HttpResponse> {
+  const { limit, startKey } = pageParams(req);
+  const { results, lastEvaluatedKey } = await listRecentFailures(ddbCfg, { limit, startKey, ...historyRange(req) });
+  return json(200, {
+    items: results.map(({ reduce: _reduce, ...m }) => m),
+    nextCursor: nextCursor(req, lastEvaluatedKey),
+  });
+}
+
+/** GET /runs/reviews?since=&until=&limit=&cursor=: meetings held by the quality gate across runs, most recent first. */
+async function listReviewsRoute(req: HttpRequest): Promise<HttpResponse> {
+  const { limit, startKey } = pageParams(req);
+  const { results, lastEvaluatedKey } = await listRecentReviews(ddbCfg, { limit, startKey, ...historyRange(req) });
+  return json(200, {
+    items: results.map(({ reduce: _reduce, ...m }) => m),
+    nextCursor: nextCursor(req, lastEvaluatedKey),
+  });
+}
+
+/** Quota input for API keys: {rpm, rpd}, both optional positive integers. */
+function apiKeyQuota(value: unknown) {
+  if (value == null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) throw badRequest('invalid_quota', 'quota must be an object {rpm, rpd}');
+  const q = value as Record<string, unknown>;
+  const rpm = optionalInt(q.rpm, 'quota_rpm', { min: 1 });
+  const rpd = optionalInt(q.rpd, 'quota_rpd', { min: 1 });
+  return rpm || rpd ? { ...(rpm ? { rpm } : {}), ...(rpd ? { rpd } : {}) } : undefined;
+}
+
+/** POST /apikeys {name, scopes, quota}: the plaintext key is only returned here. */
+async function createApiKeyRoute(req: HttpRequest): Promise<HttpResponse> {
+  const body = jsonBody(req);
+  const name = optionalString(body.name, 'name', { maxLength: 100 });
+  if (!name) throw badRequest('invalid_name', 'name is required');
+  const scopes = optionalStringArray(body.scopes, 'scopes', { maxItems: API_SCOPES.length })
+    ?.map(s => optionalOneOf(s, API_SCOPES, 'scopes') as ApiScope);
+  if (!scopes?.length) throw badRequest('invalid_scopes', `scopes must list at least one of: ${API_SCOPES.join(', ')}`, { allowed: API_SCOPES });
+
+  const { key, record } = await createApiKey(ddbCfg, { name, scopes, quota: apiKeyQuota(body.quota) });
+  return json(201, { ...record, key });
+}
+
+async function rotateApiKeyRoute(req: HttpRequest): Promise<HttpResponse> {
+  const { keyId } = req.params;
+  const rotated = await rotateApiKey(ddbCfg, keyId);
+  if (!rotated) throw notFound('api_key_not_found', `Active API key not found: ${keyId}`, { keyId });
+  auth.invalidate(keyId);
+  return json(200, { ...rotated.record, key: rotated.key });
+}
+
+async function revokeApiKeyRoute(req: HttpRequest): Promise<HttpResponse> {
+  const { keyId } = req.params;
+  const revoked = await revokeApiKey(ddbCfg, keyId);
+  if (!revoked) throw notFound('api_key_not_found', `API key not found: ${keyId}`, { keyId });
+  auth.invalidate(keyId);
+  return json(200, revoked);
+}
+
+// Unexpected errors are logged with the runId by the router and answered with a generic 500
+const router = new Router();
+
+router
+  .post('/run', auth.protect('run:trigger', runRoute))
+  .get('/run', auth.protect('run:trigger', runRoute))
+  .get('/runs', auth.protect('run:trigger', listRunsRoute))
+  .get('/runs/failures', auth.protect('run:trigger', listFailuresRoute))
+  .get('/runs/reviews', auth.protect('run:trigger', listReviewsRoute))
+  .get('/runs/{runId}', auth.protect('run:trigger', getRunRoute))
+
+  // API key management
+  .post('/apikeys', auth.protect('admin', createApiKeyRoute))
+  .get('/apikeys', auth.protect('admin', async (req) => {
+    const { limit, startKey } = pageParams(req);
+    const { keys, lastEvaluatedKey } = await listApiKeys(ddbCfg, { limit, startKey });
+    return json(200, { items: keys, nextCursor: nextCursor(req, lastEvaluatedKey) });
+  }))
+  .post('/apikeys/{keyId}/rotate', auth.protect('admin', rotateApiKeyRoute))
+  .delete('/apikeys/{keyId}', auth.protect('admin', revokeApiKeyRoute))
+
+  // Read routes (articles:read, or public with PUBLIC_READ_API=true)
+  .get('/articles/{id}', readRoute(async (req) => {
+    const res = await getArticleById(ddbCfg, req.params.id);
+    if (!res.Item) throw notFound('not_found', `Article not found: ${req.params.id}`, { id: req.params.id });
+    return json(200, stripKeys(res.Item));
+  }))
+  .get('/articles', readRoute(async (req) => {
+    const month = optionalMonth(req.query.month, 'month');
+    const opts = pageParams(req);
+    const res = month ? await queryByMonth(ddbCfg, month, opts) : await queryRecentArticles(ddbCfg, opts);
+    return page(req, res, toArticleListItem);
+  }));
+
+for (const [segment, facet] of Object.entries(FACET_ROUTES)) {
+  router.get(`/${segment}/{value}`, readRoute(async (req) => {
+    const value = req.params.value;
+    if (facet === 'session') optionalInt(value, 'session', { min: 1 });
+    const res = await queryFacet(ddbCfg, facet, value, pageParams(req));
+    return page(req, res, toIndexListItem);
+  }));
+}
+
+async function markRunFailed(runId: string, startedAt: string, eventSource: string, error: unknown) {
+  const { message, name, stack } = serializeError(error) as { message: string; name?: string; stack?: string };
+  await tryRunState("mark run failed", runId, () =>
+    failRun(ddbCfg, { runId, startedAt, eventSource, error: { message, name, stack } }));
+}
+
 // ----------------------------------------------------------------
 
 /**
  * Lambda entrypoint:
- * - If invoked via API Gateway (HTTP API v2): validate x-api-key, parse {from, until}, run pipeline and return JSON.
+ * - If invoked via API Gateway (HTTP API v2): dispatch through the router (run trigger, run status, read routes).
+ * - If invoked with {asyncRun} (self-invoked by POST /run): execute or resume that run.
+ * - If invoked with {runId} (direct invoke / EventBridge detail): resume that run.
  * - If invoked via EventBridge (cron): keep existing behavior (defaults to previous day in JST).
  */
-export const handler: Handler = async (event: AnyEvent) => {
-  const runId = crypto.randomUUID();
-  const startedAt = new Date().toISOString();
-
+export const handler: Handler = async (event: AnyEvent, context?: Context) => {
   try {
-    // ===== HTTP API path =====
-    if (isHttpApiEvent(event)) {
-      console.log(`[${runId}] HTTP API request: ${event.requestContext.http.method} ${event.requestContext.http.path}`);
-      const method = event.requestContext.http.method;
-      const headers = lowercaseHeaders(event.headers);
-
-      // 1) API key validation
-      const expectedKey = process.env.RUN_API_KEY;
-      const providedKey = headers['x-api-key'];
-      if (!expectedKey) {
-        return json(500, { error: 'server_misconfigured', message: 'RUN_API_KEY is not set' });
-      }
-      if (providedKey !== expectedKey) {
-        return json(401, { error: 'unauthorized' });
-      }
+    return await handleEvent(event, context);
+  } finally {
+    metrics.flush();
+    await tracer.flush();
+  }
+};
 
-      // 2) Input parsing (POST JSON or GET query)
-      let from: string | null = null;
-      let until: string | null = null;
-      if (method === 'POST') {
-        let body: any = {};
-        if (event.body) {
-          const raw = event.isBase64Encoded
-            ? Buffer.from(event.body, 'base64').toString('utf8')
-            : event.body;
-          try { body = JSON.parse(raw); } catch { return json(400, { error: 'invalid_json' }); }
-        }
-        from = parseYmdOrNull(body?.from);
-        until = parseYmdOrNull(body?.until);
-      } else {
-        from = parseYmdOrNull(event.queryStringParameters?.from);
-        until = parseYmdOrNull(event.queryStringParameters?.until);
-      }
+async function handleEvent(event: AnyEvent, context?: Context) {
+  let runId: string = crypto.randomUUID();
+  const startedAt = new Date().toISOString();
+  const remainingMs = () => context?.getRemainingTimeInMillis?.() ?? Infinity;
 
-      // Defaults: if missing, run for "today" in JST
-      const today = dateStrJST(0);
-      const FROM = from ?? today;
-      const UNTIL = until ?? FROM;
-
-      // Validate range
-      if (FROM > UNTIL) return json(400, { error: 'from must be <= until' });
-
-      const maxDays = Number(process.env.RUN_MAX_RANGE_DAYS ?? '31');
-      if (Number.isFinite(maxDays) && maxDays > 0) {
-        const startDate = new Date(`${FROM}T00:00:00Z`);
-        const endDate = new Date(`${UNTIL}T00:00:00Z`);
-        const diffDays = Math.floor((endDate.getTime() - startDate.getTime()) / 86_400_000) + 1;
-        if (diffDays > maxDays) {
-          return json(400, { error: 'range_too_large', maxDays });
-        }
-      }
+  // ===== HTTP API path =====
+  if (isHttpApiEvent(event)) {
+    logger.info("HTTP API request", { runId, method: event.requestContext.http.method, path: event.requestContext.http.path });
+    return router.handle(event, { runId, context });
+  }
+
+  // ===== Asynchronous run submitted through the HTTP API =====
+  if (isAsyncRunRequest(event)) {
+    const payload = await executeRunRequest(event.asyncRun, remainingMs);
+    return { statusCode: payload ? 200 : 500, body: JSON.stringify({ runId: event.asyncRun.runId, ...payload }) };
+  }
 
-      // 3) Execute pipeline
-      const payload = await executePipeline(FROM, UNTIL, 'apigw', runId, startedAt);
-      return json(200, { message: 'Event processed (on-demand).', ...payload });
+  let dryRun = false;
+  try {
+    // ===== Resume via direct invoke / EventBridge ({ runId } or { detail: { runId } }) =====
+    const eventRunId = (event as any)?.detail?.runId ?? (event as any)?.runId;
+    if (typeof eventRunId === 'string' && eventRunId) {
+      runId = eventRunId;
+      const payload = await resumePipeline(runId, (event as ScheduledEvent)?.source ?? 'manual/local', startedAt, { remainingMs });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ message: 'Event processed (resumed).', ...payload }),
+      };
     }
 
-    // ===== EventBridge (cron) path — original behavior =====
+    // ===== EventBridge (cron) path — original behavior; event detail may carry run filters =====
     const defaultDate = dateStrJST(-1);
-    const FROM = (process.env.FROM_DATE && process.env.FROM_DATE.trim()) || defaultDate;
-    const UNTIL = (process.env.UNTIL_DATE && process.env.UNTIL_DATE.trim()) || defaultDate;
+    const filters = parseRunFilters((event as ScheduledEvent)?.detail ?? {}, {
+      from: (process.env.FROM_DATE && process.env.FROM_DATE.trim()) || defaultDate,
+      until: (process.env.UNTIL_DATE && process.env.UNTIL_DATE.trim()) || defaultDate,
+    });
 
-    const payload = await executePipeline(FROM, UNTIL, (event as ScheduledEvent)?.source ?? 'manual/local', runId, startedAt);
+    const envSource = (process.env.PIPELINE_SOURCE || "api").toLowerCase() as PipelineSource;
+    const envMode = (process.env.PIPELINE_MODE || "inline").toLowerCase() as PipelineMode;
+    dryRun = optionalBool((event as ScheduledEvent)?.detail?.dryRun, 'dryRun') ?? false;
+    const payload = await executePipeline(filters, (event as ScheduledEvent)?.source ?? 'manual/local', runId, startedAt, {
+      dryRun,
+      source: PIPELINE_SOURCES.includes(envSource) ? envSource : "api",
+      mode: PIPELINE_MODES.includes(envMode) ? envMode : "inline",
+      remainingMs,
+    });
     return {
       statusCode: 200,
       body: JSON.stringify({ message: 'Event processed (parallel).', ...payload }),
     };
   } catch (error) {
-    const finishedAt = new Date().toISOString();
-    const err = error instanceof Error ? { message: error.message, stack: error.stack } : { message: String(error) };
-
-    const errorPayload = {
-      runId,
-      startedAt,
-      finishedAt,
-      error: err,
-      eventSource: isHttpApiEvent(event) ? 'apigw' : ((event as any)?.source ?? 'manual/local'),
-    };
-
-    console.error('[ERROR] Error processing event:', error);
-    await logToS3("error", errorPayload);
-
-    if (isHttpApiEvent(event)) {
-      return json(500, { message: 'Internal Server Error', error: err.message, runId });
+    const err = serializeError(error);
+    const eventSource = (event as any)?.source ?? 'manual/local';
+    logger.error("Error processing event", { runId, error });
+    if (!dryRun) {
+      await markRunFailed(runId, startedAt, eventSource, error);
+      await notifyRunFailed(runId, startedAt, eventSource, error);
     }
+
     return {
       statusCode: 500,
       body: JSON.stringify({ message: 'Internal Server Error', error: err.message, runId }),
     };
   }
-};
+}
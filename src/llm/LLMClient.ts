@@ -1,3 +1,5 @@
+import type { Logger } from "@utils/logger";
+
 export type Role = "system" | "user" | "assistant";
 
 export interface Message {
@@ -17,6 +19,7 @@ export interface GenerateOptions {
   topP?: number;
   topK?: number;
   timeoutMs?: number;      // Implement with AbortController
+  logger?: Logger;         // Per-call logger (carries run / meeting / chunk context)
 }
 
 export interface GenerateResult {
@@ -32,6 +35,9 @@ export interface StreamChunk {
 export interface LLMClient {
   readonly name: string;
 
+  // Optional: default model name (used for usage / cost accounting)
+  readonly model?: string;
+
   // Plain text generation
   generate(messages: Message[], options?: GenerateOptions): Promise<GenerateResult>;
 
@@ -2,6 +2,9 @@ import { GoogleGenerativeAI } from "@google/generative-ai";
 import type { LLMClient, Message, GenerateOptions, GenerateResult, LLMUsage } from "./LLMClient";
 import { BudgetManager, parseBool } from "./limiters";
 import { saveErrorToS3 } from "@utils/errorSink";
+import { logger as rootLogger, type Logger } from "@utils/logger";
+import { metrics as defaultMetrics, type Metrics } from "@utils/metrics";
+import { tracer } from "@utils/tracing";
 
 /** Deep-clone + future-proof place to strip unsupported JSON Schema bits if needed. */
 function sanitizeSchemaForGemini<T extends Record<string, any>>(schema: T): T {
@@ -111,6 +114,8 @@ export class GeminiClient implements LLMClient {
   private sem?: Semaphore;
   private defaultTimeoutMs = 60_000;
   private budget?: BudgetManager;
+  private readonly logger: Logger;
+  private readonly metrics: Metrics;
 
   /**
    * @param apiKey Gemini API key
@@ -119,6 +124,8 @@ export class GeminiClient implements LLMClient {
    * @param burst Token-bucket burst capacity (defaults to rps).
    * @param maxConcurrency Max in-flight calls within this client. If omitted, disabled.
    * @param timeoutMs Default timeout for requests (ms).
+   * @param logger Logger for retries; GenerateOptions.logger takes precedence per call.
+   * @param metrics Recorder for call / latency / retry metrics (default: process-wide recorder).
    */
   constructor(opts: {
     apiKey: string;
@@ -127,8 +134,12 @@ export class GeminiClient implements LLMClient {
     burst?: number;
     maxConcurrency?: number;
     timeoutMs?: number;
+    logger?: Logger;
+    metrics?: Metrics;
   }) {
     this.genAI = new GoogleGenerativeAI(opts.apiKey);
+    this.logger = opts.logger ?? rootLogger.child({ component: "gemini" });
+    this.metrics = opts.metrics ?? defaultMetrics;
     this.defaultModel = opts.model ?? "gemini-1.5-pro";
 
     const rps = opts.rps ?? Number(process.env.GEMINI_RPS ?? 0);
@@ -150,6 +161,9 @@ export class GeminiClient implements LLMClient {
     }
   }
 
+  /** Default model name. */
+  get model(): string { return this.defaultModel; }
+
   /** Build model with optional system instruction. */
   private buildModel(modelName: string, systemInstruction?: string) {
     const base = { model: modelName };
@@ -175,12 +189,16 @@ export class GeminiClient implements LLMClient {
    * If the SDK supports AbortSignal in the future, replace with a true abort.
    */
   private async withThrottle<T>(fn: () => Promise<T>, timeoutMs?: number): Promise<T> {
+    // Waiting on the RPS limiter / concurrency slots is traced as llm.throttle
     const run = async () => {
-      if (this.limiter) await this.limiter.acquire();
+      if (this.limiter) await tracer.withSpan("llm.throttle", { "llm.provider": this.name, limiter: "rps" }, () => this.limiter!.acquire());
       return fn();
     };
     const exec = this.sem
-      ? (async () => { await this.sem!.acquire(); try { return await run(); } finally { this.sem!.release(); } })()
+      ? (async () => {
+          await tracer.withSpan("llm.throttle", { "llm.provider": this.name, limiter: "concurrency" }, () => this.sem!.acquire());
+          try { return await run(); } finally { this.sem!.release(); }
+        })()
       : run();
 
     const t = timeoutMs ?? this.defaultTimeoutMs;
@@ -192,22 +210,55 @@ export class GeminiClient implements LLMClient {
     ]) as Promise<T>;
   }
 
-  /** Retry wrapper with exponential backoff + jitter. */
-  private async withRetry<T>(op: () => Promise<T>): Promise<T> {
+  private noteBudgetWait(waitedMs: number) {
+    this.metrics.put("BudgetWait", waitedMs, "Milliseconds", { Provider: this.name });
+    if (waitedMs > 0) tracer.activeSpan()?.addEvent("llm.budget_wait", { "llm.provider": this.name, waitMs: waitedMs });
+  }
+
+  /**
+   * Retry wrapper with exponential backoff + jitter. Each attempt is traced as an
+   * `llm.<operation>` span (model, attempt, tokens). Records LLMCalls / LLMLatency
+   * (across attempts) on success, LLMRetries per retry and LLMErrors on final failure.
+   */
+  private async withRetry<T>(operation: string, op: () => Promise<T>, options?: GenerateOptions): Promise<T> {
+    const log = options?.logger ?? this.logger;
+    const model = options?.model ?? this.defaultModel;
     const max = Number(process.env.GEMINI_RETRY_MAX ?? 3);
     const base = Number(process.env.GEMINI_RETRY_BASE_MS ?? 1000);
     const cap  = Number(process.env.GEMINI_RETRY_MAX_MS ?? 8000);
 
+    const dims = { Provider: this.name, Operation: operation };
+    const start = Date.now();
     let lastErr: any;
     for (let attempt = 0; attempt <= max; attempt++) {
       try {
-        return await op();
+        const res = await tracer.withSpan(
+          `llm.${operation}`,
+          { "llm.provider": this.name, "llm.model": model, "llm.attempt": attempt + 1 },
+          async (span) => {
+            const out = await op();
+            const usage = (out as { usage?: LLMUsage } | undefined)?.usage;
+            span.setAttributes({
+              "llm.input_tokens": usage?.inputTokens,
+              "llm.output_tokens": usage?.outputTokens,
+              "llm.total_tokens": usage?.totalTokens,
+            });
+            return out;
+          }
+        );
+        this.metrics.put("LLMCalls", 1, "Count", dims);
+        this.metrics.put("LLMLatency", Date.now() - start, "Milliseconds", dims);
+        return res;
       } catch (e) {
         lastErr = e;
         if (attempt === max || !isRetriableError(e)) break;
-        await sleep(backoffMs(attempt, base, cap));
+        const waitMs = backoffMs(attempt, base, cap);
+        log.warn("Gemini call failed; retrying", { provider: this.name, attempt: attempt + 1, waitMs, error: e });
+        this.metrics.put("LLMRetries", 1, "Count", dims);
+        await sleep(waitMs);
       }
     }
+    this.metrics.put("LLMErrors", 1, "Count", dims);
     throw lastErr;
   }
 
@@ -217,7 +268,7 @@ export class GeminiClient implements LLMClient {
     if (this.budget?.enabled && this.budget.strictTpm) {
       try { expectedTokens = await this.countTokens(messages); } catch { /* best-effort */ }
     }
-    if (this.budget?.enabled) await this.budget.acquireRequest(expectedTokens);
+    if (this.budget?.enabled) this.noteBudgetWait(await this.budget.acquireRequest(expectedTokens));
     const systemInstruction = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n") || undefined;
     const nonSystem = messages.filter(m => m.role !== "system");
     const model = this.buildModel(options?.model ?? this.defaultModel, systemInstruction);
@@ -227,24 +278,25 @@ export class GeminiClient implements LLMClient {
     }));
 
     // Retry each full attempt, and on each attempt throttle+timeout apply.
-    const result = await this.withRetry(() =>
+    const result = await this.withRetry("generate", () =>
       this.withThrottle(async () => {
         const res = await model.generateContent({ contents, generationConfig: this.toGenConfig(options) });
         const text = res.response?.text?.() ?? "";
         const usage = toUsage(res.response?.usageMetadata);
         if (this.budget?.enabled) {
           const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-          await this.budget.noteUsage(used, expectedTokens);
+          this.noteBudgetWait(await this.budget.noteUsage(used, expectedTokens));
         }
         return { text, usage, raw: res };
-      }, options?.timeoutMs)
+      }, options?.timeoutMs),
+      options
     );
     return result;
   }
 
   /** Server-sent streaming (yields incremental text). */
   async *stream(messages: Message[], options?: GenerateOptions) {
-    if (this.budget?.enabled) await this.budget.acquireRequest();
+    if (this.budget?.enabled) this.noteBudgetWait(await this.budget.acquireRequest());
     const systemInstruction = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n") || undefined;
     const nonSystem = messages.filter(m => m.role !== "system");
     const model = this.buildModel(options?.model ?? this.defaultModel, systemInstruction);
@@ -254,11 +306,12 @@ export class GeminiClient implements LLMClient {
     }));
 
     // Retry only the stream creation; mid-stream failures are not retried.
-    const res = await this.withRetry(() =>
+    const res = await this.withRetry("stream", () =>
       this.withThrottle(
         () => model.generateContentStream({ contents, generationConfig: this.toGenConfig(options) }),
         options?.timeoutMs
-      )
+      ),
+      options
     );
     for await (const chunk of res.stream) {
       const t = chunk?.text?.();
@@ -282,7 +335,7 @@ export class GeminiClient implements LLMClient {
     if (this.budget?.enabled && this.budget.strictTpm) {
       try { expectedTokens = await this.countTokens(messages); } catch { /* best-effort */ }
     }
-    if (this.budget?.enabled) await this.budget.acquireRequest(expectedTokens);
+    if (this.budget?.enabled) this.noteBudgetWait(await this.budget.acquireRequest(expectedTokens));
     const systemInstruction = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n") || undefined;
     const nonSystem = messages.filter(m => m.role !== "system");
     const model = this.buildModel(options?.model ?? this.defaultModel, systemInstruction);
@@ -293,7 +346,7 @@ export class GeminiClient implements LLMClient {
 
     const sanitized = sanitizeSchemaForGemini(schema);
 
-    return this.withRetry(() =>
+    return this.withRetry("generateObject", () =>
       this.withThrottle(async () => {
         const res = await model.generateContent({
           contents,
@@ -315,7 +368,7 @@ export class GeminiClient implements LLMClient {
           const usage = toUsage(res.response?.usageMetadata);
           if (this.budget?.enabled) {
             const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-            await this.budget.noteUsage(used, expectedTokens);
+            this.noteBudgetWait(await this.budget.noteUsage(used, expectedTokens));
           }
           return { object: parsed, usage, raw: res };
         } catch {
@@ -327,7 +380,7 @@ export class GeminiClient implements LLMClient {
               const usage = toUsage(res.response?.usageMetadata);
               if (this.budget?.enabled) {
                 const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-                await this.budget.noteUsage(used, expectedTokens);
+                this.noteBudgetWait(await this.budget.noteUsage(used, expectedTokens));
               }
               return { object: parsed, usage, raw: res };
             } catch { /* ignore and continue */ }
@@ -363,7 +416,8 @@ export class GeminiClient implements LLMClient {
             `Gemini returned non-JSON (preview="${preview}")`
           );
         }
-      }, options?.timeoutMs)
+      }, options?.timeoutMs),
+      options
     );
   }
 
@@ -376,7 +430,7 @@ export class GeminiClient implements LLMClient {
       role: m.role === "assistant" ? "model" : "user",
       parts: [{ text: m.content }]
     }));
-    return this.withRetry(() =>
+    return this.withRetry("countTokens", () =>
       this.withThrottle(async () => {
         const res = await model.countTokens({ contents });
         return res.totalTokens ?? 0;
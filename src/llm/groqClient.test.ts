@@ -0,0 +1,52 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { GroqClient } from "@llm/groqClient";
+import { tracer, type InMemorySpanExporter } from "@utils/tracing";
+
+// Route the shared tracer's spans to memory
+jest.mock("@utils/tracing", () => {
+  const actual = jest.requireActual("@utils/tracing");
+  const exporter = new actual.InMemorySpanExporter();
+  return { ...actual, exporter, tracer: new actual.Tracer(exporter) };
+});
+const { exporter } = jest.requireMock("@utils/tracing") as { exporter: InMemorySpanExporter };
+
+/** OpenAI-compatible stand-in answering every chat completion the same way. */
+async function fakeGroq() {
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify({
+        choices: [{ message: { content: "こんにちは" } }],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+      }));
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  return { baseUrl, close: () => new Promise((r) => server.close(r)) };
+}
+
+describe("GroqClient", () => {
+  test("traces each call with the token usage of the chat response", async () => {
+    const groq = await fakeGroq();
+    try {
+      const client = new GroqClient({ apiKey: "k", model: "llama-test", baseUrl: groq.baseUrl });
+      const res = await client.generate([{ role: "user", content: "hi" }]);
+      expect(res.usage).toEqual({ inputTokens: 12, outputTokens: 5, totalTokens: 17 });
+      await tracer.flush();
+
+      const span = exporter.spans.find((s) => s.name === "llm.generate");
+      expect(span?.attributes).toMatchObject({
+        "llm.provider": "groq",
+        "llm.model": "llama-test",
+        "llm.input_tokens": 12,
+        "llm.output_tokens": 5,
+        "llm.total_tokens": 17,
+      });
+    } finally {
+      await groq.close();
+    }
+  });
+});
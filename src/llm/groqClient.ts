@@ -1,6 +1,9 @@
 import type { LLMClient, Message, GenerateOptions, GenerateResult, LLMUsage } from "./LLMClient";
 import { BudgetManager, parseBool } from "./limiters";
 import { saveErrorToS3 } from "@utils/errorSink";
+import { logger as rootLogger, type Logger } from "@utils/logger";
+import { metrics as defaultMetrics, type Metrics } from "@utils/metrics";
+import { tracer } from "@utils/tracing";
 
 // Utilities (mirrors Gemini client helpers)
 class Semaphore {
@@ -84,6 +87,11 @@ export class GroqClient implements LLMClient {
   private limiter?: RpsLimiter;
   private sem?: Semaphore;
   private budget?: BudgetManager;
+  private readonly logger: Logger;
+  private readonly metrics: Metrics;
+
+  /** Default model name. */
+  get model(): string { return this.defaultModel; }
 
   constructor(opts: {
     apiKey: string;
@@ -93,8 +101,12 @@ export class GroqClient implements LLMClient {
     burst?: number;          // token bucket burst
     maxConcurrency?: number; // in-flight limit
     timeoutMs?: number;      // default timeout
+    logger?: Logger;         // retries; GenerateOptions.logger takes precedence per call
+    metrics?: Metrics;       // call / latency / retry metrics
   }) {
     this.apiKey = opts.apiKey;
+    this.logger = opts.logger ?? rootLogger.child({ component: "groq" });
+    this.metrics = opts.metrics ?? defaultMetrics;
     this.baseUrl = (opts.baseUrl || process.env.GROQ_BASE_URL || "https://api.groq.com/openai/v1").replace(/\/$/, "");
     this.defaultModel = opts.model || process.env.GROQ_MODEL_NAME || "llama-3.1-70b-versatile";
 
@@ -122,12 +134,16 @@ export class GroqClient implements LLMClient {
   }
 
   private async withThrottle<T>(fn: () => Promise<T>, timeoutMs?: number): Promise<T> {
+    // Waiting on the RPS limiter / concurrency slots is traced as llm.throttle
     const run = async () => {
-      if (this.limiter) await this.limiter.acquire();
+      if (this.limiter) await tracer.withSpan("llm.throttle", { "llm.provider": this.name, limiter: "rps" }, () => this.limiter!.acquire());
       return fn();
     };
     const exec = this.sem
-      ? (async () => { await this.sem!.acquire(); try { return await run(); } finally { this.sem!.release(); } })()
+      ? (async () => {
+          await tracer.withSpan("llm.throttle", { "llm.provider": this.name, limiter: "concurrency" }, () => this.sem!.acquire());
+          try { return await run(); } finally { this.sem!.release(); }
+        })()
       : run();
 
     const t = timeoutMs ?? this.defaultTimeoutMs;
@@ -138,20 +154,56 @@ export class GroqClient implements LLMClient {
     ]) as Promise<T>;
   }
 
-  private async withRetry<T>(op: () => Promise<T>): Promise<T> {
+  private noteBudgetWait(waitedMs: number) {
+    this.metrics.put("BudgetWait", waitedMs, "Milliseconds", { Provider: this.name });
+    if (waitedMs > 0) tracer.activeSpan()?.addEvent("llm.budget_wait", { "llm.provider": this.name, waitMs: waitedMs });
+  }
+
+  /**
+   * Retry wrapper with exponential backoff + jitter. Each attempt is traced as an
+   * `llm.<operation>` span (model, attempt, tokens). Records LLMCalls / LLMLatency
+   * (across attempts) on success, LLMRetries per retry and LLMErrors on final failure.
+   */
+  private async withRetry<T>(operation: string, op: () => Promise<T>, options?: GenerateOptions): Promise<T> {
+    const log = options?.logger ?? this.logger;
+    const model = options?.model ?? this.defaultModel;
     const max = Number(process.env.GROQ_RETRY_MAX ?? process.env.LLM_RETRY_MAX ?? 3);
     const base = Number(process.env.GROQ_RETRY_BASE_MS ?? process.env.LLM_RETRY_BASE_MS ?? 1000);
     const cap  = Number(process.env.GROQ_RETRY_MAX_MS ?? process.env.LLM_RETRY_MAX_MS ?? 8000);
 
+    const dims = { Provider: this.name, Operation: operation };
+    const start = Date.now();
     let lastErr: any;
     for (let attempt = 0; attempt <= max; attempt++) {
-      try { return await op(); }
-      catch (e) {
+      try {
+        const res = await tracer.withSpan(
+          `llm.${operation}`,
+          { "llm.provider": this.name, "llm.model": model, "llm.attempt": attempt + 1 },
+          async (span) => {
+            const out = await op();
+            // `out` is the raw chat response (prompt_tokens / completion_tokens)
+            const usage = toUsage((out as { usage?: unknown } | undefined)?.usage);
+            span.setAttributes({
+              "llm.input_tokens": usage?.inputTokens,
+              "llm.output_tokens": usage?.outputTokens,
+              "llm.total_tokens": usage?.totalTokens,
+            });
+            return out;
+          }
+        );
+        this.metrics.put("LLMCalls", 1, "Count", dims);
+        this.metrics.put("LLMLatency", Date.now() - start, "Milliseconds", dims);
+        return res;
+      } catch (e) {
         lastErr = e;
         if (attempt === max || !isRetriableError(e)) break;
-        await sleep(backoffMs(attempt, base, cap));
+        const waitMs = backoffMs(attempt, base, cap);
+        log.warn("Groq call failed; retrying", { provider: this.name, attempt: attempt + 1, waitMs, error: e });
+        this.metrics.put("LLMRetries", 1, "Count", dims);
+        await sleep(waitMs);
       }
     }
+    this.metrics.put("LLMErrors", 1, "Count", dims);
     throw lastErr;
   }
 
@@ -190,14 +242,14 @@ export class GroqClient implements LLMClient {
   }
 
   async generate(messages: Message[], options?: GenerateOptions): Promise<GenerateResult> {
-    if (this.budget?.enabled) await this.budget.acquireRequest();
+    if (this.budget?.enabled) this.noteBudgetWait(await this.budget.acquireRequest());
     const body = this.toChatBody(messages, options);
-    const res = await this.withRetry(() => this.withThrottle(() => this.postChat(body), options?.timeoutMs));
+    const res = await this.withRetry("generate", () => this.withThrottle(() => this.postChat(body), options?.timeoutMs), options);
     const text: string = res?.choices?.[0]?.message?.content ?? "";
     const usage = toUsage(res?.usage);
     if (this.budget?.enabled) {
       const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-      await this.budget.noteUsage(used);
+      this.noteBudgetWait(await this.budget.noteUsage(used));
     }
     return { text, usage, raw: res };
   }
@@ -227,8 +279,8 @@ export class GroqClient implements LLMClient {
       response_format: { type: "json_object" }
     };
 
-    if (this.budget?.enabled) await this.budget.acquireRequest();
-    const res = await this.withRetry(() => this.withThrottle(() => this.postChat(body), options?.timeoutMs));
+    if (this.budget?.enabled) this.noteBudgetWait(await this.budget.acquireRequest());
+    const res = await this.withRetry("generateObject", () => this.withThrottle(() => this.postChat(body), options?.timeoutMs), options);
     const text: string = res?.choices?.[0]?.message?.content ?? "";
 
     try {
@@ -236,7 +288,7 @@ export class GroqClient implements LLMClient {
       const usage = toUsage(res?.usage);
       if (this.budget?.enabled) {
         const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-        await this.budget.noteUsage(used);
+        this.noteBudgetWait(await this.budget.noteUsage(used));
       }
       return { object: parsed, usage, raw: res };
     } catch {
@@ -248,7 +300,7 @@ export class GroqClient implements LLMClient {
           const usage = toUsage(res?.usage);
           if (this.budget?.enabled) {
             const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-            await this.budget.noteUsage(used);
+            this.noteBudgetWait(await this.budget.noteUsage(used));
           }
           return { object: parsed, usage, raw: res };
         } catch { /* ignore */ }
@@ -0,0 +1,59 @@
+// Minimal JSON Schema validator for the structured-output schemas in
+// LLMSummarize/schema.ts. Supports the keywords those schemas use:
+// type, properties, required, items, enum (plus additionalProperties: false).
+// Errors are "<JSON pointer>: <message>" strings meant to be shown to the model.
+
+export type JsonSchema = {
+  type?: string | readonly string[];
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  additionalProperties?: boolean;
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+const matchesType = (actual: string, expected: string) =>
+  actual === expected || (expected === "number" && actual === "integer");
+
+/** Validate `value` against `schema`; returns every error found (empty when valid). */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = ""): string[] {
+  const at = path || "/";
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const expected = typeof schema.type === "string" ? [schema.type] : [...schema.type];
+    const actual = typeOf(value);
+    if (!expected.some((t) => matchesType(actual, t))) {
+      return [`${at}: expected ${expected.join(" | ")}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((e) => e === value)) {
+    errors.push(`${at}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push(`${path}/${key}: required property is missing`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const sub = schema.properties?.[key];
+      if (sub) errors.push(...validateJsonSchema(child, sub, `${path}/${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}/${key}: unexpected property`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}/${i}`)));
+  }
+
+  return errors;
+}
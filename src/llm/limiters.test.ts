@@ -32,13 +32,14 @@ describe("limiters", () => {
 
   test("TokenBucket accounts partial refill for larger n (unit)", async () => {
     const bucket = new TokenBucket(100);
-    await bucket.acquire(80); // immediate (bucket starts full)
+    await expect(bucket.acquire(80)).resolves.toBe(0); // immediate (bucket starts full)
     const p2 = bucket.acquire(80); // needs ~60 tokens => 36s
     let resolved = false; p2.then(() => { resolved = true; });
     await jest.advanceTimersByTimeAsync(35_000);
     expect(resolved).toBe(false);
     await jest.advanceTimersByTimeAsync(1_500);
     expect(resolved).toBe(true);
+    await expect(p2).resolves.toBe(36_000); // resolves to the time spent waiting
   });
 
   test("DayCounter resets at next UTC midnight (unit)", async () => {
@@ -55,5 +56,22 @@ describe("limiters", () => {
     await jest.advanceTimersByTimeAsync(2_000); // cross midnight
     expect(resolved).toBe(true);
   });
-});
 
+  test("tryAcquire never waits and reports retry-after (unit)", () => {
+    const bucket = new TokenBucket(2);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(false);
+    expect(bucket.retryAfterMs()).toBe(30_000);
+    jest.setSystemTime(Date.now() + 30_000);
+    expect(bucket.tryAcquire()).toBe(true);
+
+    jest.setSystemTime(new Date("2025-01-01T23:59:00Z"));
+    const day = new DayCounter(1);
+    expect(day.tryAcquire()).toBe(true);
+    expect(day.tryAcquire()).toBe(false);
+    expect(day.retryAfterMs()).toBe(60_000);
+    jest.setSystemTime(new Date("2025-01-02T00:00:00Z"));
+    expect(day.tryAcquire()).toBe(true);
+  });
+});
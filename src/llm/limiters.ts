@@ -20,11 +20,28 @@ export class TokenBucket {
     }
   }
 
-  async acquire(n = 1) {
-    if (n <= 0) return;
+  /** Non-blocking variant: take n tokens if available now. */
+  tryAcquire(n = 1): boolean {
+    if (n <= 0) return true;
+    this.refill();
+    if (this.tokens < n) return false;
+    this.tokens -= n;
+    return true;
+  }
+
+  /** Milliseconds until n tokens are available (0 when available now). */
+  retryAfterMs(n = 1): number {
+    this.refill();
+    return this.tokens >= n ? 0 : Math.ceil((n - this.tokens) / this.perMs);
+  }
+
+  /** Take n tokens, waiting for the refill; resolves to the milliseconds spent waiting. */
+  async acquire(n = 1): Promise<number> {
+    if (n <= 0) return 0;
+    const start = Date.now();
     for (;;) {
       this.refill();
-      if (this.tokens >= n) { this.tokens -= n; return; }
+      if (this.tokens >= n) { this.tokens -= n; return Date.now() - start; }
       const need = n - this.tokens;
       const waitMs = Math.ceil(need / this.perMs);
       await new Promise(r => setTimeout(r, Math.max(1, waitMs)));
@@ -56,11 +73,28 @@ export class DayCounter {
     }
   }
 
-  async acquire(n = 1) {
-    if (n <= 0) return;
+  /** Non-blocking variant: count n requests if today's capacity allows it. */
+  tryAcquire(n = 1): boolean {
+    if (n <= 0) return true;
+    this.maybeReset();
+    if (this.count + n > this.capacity) return false;
+    this.count += n;
+    return true;
+  }
+
+  /** Milliseconds until n more requests fit (0 when they fit now). */
+  retryAfterMs(n = 1): number {
+    this.maybeReset();
+    return this.count + n <= this.capacity ? 0 : Math.max(1, this.nextResetMs - Date.now());
+  }
+
+  /** Count n requests, waiting for the daily reset; resolves to the milliseconds spent waiting. */
+  async acquire(n = 1): Promise<number> {
+    if (n <= 0) return 0;
+    const start = Date.now();
     for (;;) {
       this.maybeReset();
-      if (this.count + n <= this.capacity) { this.count += n; return; }
+      if (this.count + n <= this.capacity) { this.count += n; return Date.now() - start; }
       const waitMs = Math.max(1, this.nextResetMs - Date.now());
       await new Promise(r => setTimeout(r, waitMs));
     }
@@ -90,21 +124,25 @@ export class BudgetManager {
   get enabled() { return !!(this.reqPerMin || this.reqPerDay || this.tokensPerMin); }
   get strictTpm() { return this.strict; }
 
-  async acquireRequest(expectedTokens?: number) {
+  /** Wait for the pre-call gates; resolves to the milliseconds spent waiting. */
+  async acquireRequest(expectedTokens?: number): Promise<number> {
+    let waited = 0;
     // RPD and RPM are pre-call gates
-    if (this.reqPerDay) await this.reqPerDay.acquire(1);
-    if (this.reqPerMin) await this.reqPerMin.acquire(1);
+    if (this.reqPerDay) waited += await this.reqPerDay.acquire(1);
+    if (this.reqPerMin) waited += await this.reqPerMin.acquire(1);
     // For strict TPM, pre-reserve expected tokens (if provided)
     if (this.tokensPerMin && this.strict && expectedTokens && expectedTokens > 0) {
-      await this.tokensPerMin.acquire(expectedTokens);
+      waited += await this.tokensPerMin.acquire(expectedTokens);
     }
+    return waited;
   }
 
-  async noteUsage(usedTokens?: number, preReserved?: number) {
-    if (!this.tokensPerMin) return;
-    if (!usedTokens || usedTokens <= 0) return;
+  /** Charge used tokens to the TPM bucket; resolves to the milliseconds spent waiting. */
+  async noteUsage(usedTokens?: number, preReserved?: number): Promise<number> {
+    if (!this.tokensPerMin) return 0;
+    if (!usedTokens || usedTokens <= 0) return 0;
     const need = Math.max(0, usedTokens - (preReserved ?? 0));
-    if (need > 0) await this.tokensPerMin.acquire(need);
+    return need > 0 ? this.tokensPerMin.acquire(need) : 0;
   }
 }
 
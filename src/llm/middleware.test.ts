@@ -1,5 +1,7 @@
 import { withBudget } from "@llm/middleware";
+import { BudgetManager } from "@llm/limiters";
 import type { LLMClient, Message, GenerateOptions, GenerateResult } from "@llm/LLMClient";
+import { InMemoryMetrics } from "@utils/metrics";
 
 class FakeLLM implements LLMClient {
   name = "fake";
@@ -36,7 +38,8 @@ describe("withBudget middleware", () => {
   test("enforces RPM across multiple calls", async () => {
     // rpm=2 => bucket starts with 2 tokens; 3rd call waits ~30s for refill
     const base = new FakeLLM([{ text: "a" }, { text: "b" }, { text: "c" }]);
-    const wrapped = withBudget(base as any, { rpm: 2 });
+    const metrics = new InMemoryMetrics();
+    const wrapped = withBudget(base as any, { rpm: 2, metrics });
 
     const msgs: Message[] = [{ role: "user", content: "hi" }];
     const p1 = wrapped.generate(msgs);
@@ -56,6 +59,29 @@ describe("withBudget middleware", () => {
 
     await jest.advanceTimersByTimeAsync(1_010 + 10); // reach 30s+ and complete work
     expect(resolved).toBe(true);
+
+    // Throttling waits are recorded per call
+    expect(metrics.values("BudgetWait", { Provider: "fake" })).toEqual([0, 0, 30_000]);
+  });
+
+  test("clients wrapped with one BudgetManager share its limits", async () => {
+    // e.g. the main client and a same-provider fallback: rpm=2 across both
+    const budget = new BudgetManager({ rpm: 2 });
+    const main = withBudget(new FakeLLM() as any, { rpm: 2, budget });
+    const fallback = withBudget(new FakeLLM() as any, { rpm: 2, budget });
+    const msgs: Message[] = [{ role: "user", content: "hi" }];
+
+    const p1 = main.generate(msgs);
+    const p2 = main.generate(msgs);
+    const p3 = fallback.generate(msgs);
+    await jest.advanceTimersByTimeAsync(10);
+    await Promise.all([p1, p2]);
+
+    let resolved = false; p3.then(() => { resolved = true; });
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(resolved).toBe(false);
+    await jest.advanceTimersByTimeAsync(1_020);
+    expect(resolved).toBe(true);
   });
 
   test("accounts TPM post-call (non-strict)", async () => {
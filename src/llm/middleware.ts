@@ -1,24 +1,40 @@
 import type { LLMClient, Message, GenerateOptions, GenerateResult, LLMUsage, StreamChunk } from "./LLMClient";
+import { metrics as defaultMetrics, type Metrics } from "@utils/metrics";
+import { tracer } from "@utils/tracing";
+
 import { BudgetManager, type BudgetConfig } from "./limiters";
 
 /**
  * Wrap any LLMClient with budget (RPM/RPD/TPM) enforcement, without modifying the client.
+ * Pass `budget` to have several wrapped clients draw from one BudgetManager.
+ * Time spent waiting on the budget is recorded as the `BudgetWait` metric and as an
+ * `llm.budget_wait` event on the active span.
  */
-export function withBudget(client: LLMClient, cfg: BudgetConfig & { strictTpm?: boolean }): LLMClient {
-  const budget = new BudgetManager(cfg);
+export function withBudget(
+  client: LLMClient,
+  cfg: BudgetConfig & { strictTpm?: boolean; metrics?: Metrics; budget?: BudgetManager }
+): LLMClient {
+  const budget = cfg.budget ?? new BudgetManager(cfg);
+  const metrics = cfg.metrics ?? defaultMetrics;
+  const noteWait = (waitedMs: number) => {
+    if (!budget.enabled) return;
+    metrics.put("BudgetWait", waitedMs, "Milliseconds", { Provider: client.name });
+    if (waitedMs > 0) tracer.activeSpan()?.addEvent("llm.budget_wait", { "llm.provider": client.name, waitMs: waitedMs });
+  };
 
   const wrapGenerate = async (messages: Message[], options?: GenerateOptions): Promise<GenerateResult> => {
     let expectedTokens: number | undefined;
     if (budget.enabled && budget.strictTpm && client.countTokens) {
       try { expectedTokens = await client.countTokens(messages); } catch { /* best-effort */ }
     }
-    if (budget.enabled) await budget.acquireRequest(expectedTokens);
+    let waited = budget.enabled ? await budget.acquireRequest(expectedTokens) : 0;
     const res = await client.generate(messages, options);
     if (budget.enabled) {
       const usage = res.usage;
       const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-      await budget.noteUsage(used, expectedTokens);
+      waited += await budget.noteUsage(used, expectedTokens);
     }
+    noteWait(waited);
     return res;
   };
 
@@ -31,18 +47,19 @@ export function withBudget(client: LLMClient, cfg: BudgetConfig & { strictTpm?:
     if (budget.enabled && budget.strictTpm && client.countTokens) {
       try { expectedTokens = await client.countTokens(messages); } catch { /* best-effort */ }
     }
-    if (budget.enabled) await budget.acquireRequest(expectedTokens);
+    let waited = budget.enabled ? await budget.acquireRequest(expectedTokens) : 0;
     const res = await client.generateObject<T>(messages, schema, options);
     if (budget.enabled) {
       const usage = res.usage;
       const used = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0));
-      await budget.noteUsage(used, expectedTokens);
+      waited += await budget.noteUsage(used, expectedTokens);
     }
+    noteWait(waited);
     return res;
   };
 
   const wrapStream = async function* (messages: Message[], options?: GenerateOptions): AsyncIterable<StreamChunk> {
-    if (budget.enabled) await budget.acquireRequest();
+    if (budget.enabled) noteWait(await budget.acquireRequest());
     // Streaming token budgets are not strictly enforced mid-stream.
     for await (const chunk of client.stream(messages, options)) {
       yield chunk;
@@ -51,6 +68,7 @@ export function withBudget(client: LLMClient, cfg: BudgetConfig & { strictTpm?:
 
   return {
     name: client.name,
+    model: client.model,
     generate: wrapGenerate,
     generateObject: wrapGenerateObject,
     stream: wrapStream,
@@ -0,0 +1,81 @@
+import type { LLMClient, Message } from "@llm/LLMClient";
+import { validateJsonSchema } from "@llm/jsonSchema";
+import { generateValidObject } from "@llm/repair";
+import { chunkSchema } from "@LLMSummarize/schema";
+
+/** Returns the queued objects in order and records every prompt. */
+function scriptedLLM(objects: unknown[]) {
+  const prompts: Message[][] = [];
+  const llm = {
+    name: "fake",
+    generate: jest.fn(),
+    stream: jest.fn(),
+    generateObject: jest.fn(async (messages: Message[]) => {
+      prompts.push(messages);
+      const object = objects[prompts.length - 1];
+      return typeof object === "string"
+        ? { object: {}, usage: { totalTokens: 1 }, raw: { nonJsonText: object } }
+        : { object, usage: { totalTokens: 10 } };
+    }),
+  } as unknown as LLMClient;
+  return { llm, prompts };
+}
+
+const validChunk = {
+  categories: ["財政"],
+  middle_summary: { based_on_orders: [1], summary: "要約" },
+  keywords: [{ keyword: "予算", priority: "high" }],
+};
+
+describe("schema validation", () => {
+  test("reports missing properties, wrong types and enum values with JSON pointers", () => {
+    expect(validateJsonSchema(validChunk, chunkSchema)).toEqual([]);
+    expect(validateJsonSchema({
+      categories: "財政",
+      keywords: [{ keyword: "予算", priority: "urgent" }],
+      dialogs: [{ order: 1.5, response_to: [{ order: 1 }] }],
+    }, chunkSchema)).toEqual([
+      "/middle_summary: required property is missing",
+      "/categories: expected array, got string",
+      '/keywords/0/priority: must be one of "high", "medium", "low", got "urgent"',
+      "/dialogs/0/order: expected integer, got number",
+      "/dialogs/0/response_to/0/reaction: required property is missing",
+    ]);
+  });
+});
+
+describe("generateValidObject", () => {
+  test("re-prompts with the previous output and the errors until the object conforms", async () => {
+    const broken = { categories: ["財政"], keywords: [{ keyword: "予算", priority: "urgent" }] };
+    const { llm, prompts } = scriptedLLM([broken, validChunk]);
+    const usage: number[] = [];
+    const messages: Message[] = [{ role: "user", content: "summarize" }];
+
+    const res = await generateValidObject(llm, messages, chunkSchema, { onUsage: (_u, attempt) => usage.push(attempt) });
+
+    expect(res.object).toEqual(validChunk);
+    expect(res.validation).toEqual({ status: "repaired", attempts: 2 });
+    expect(usage).toEqual([1, 2]);
+    const repair = prompts[1];
+    expect(repair.slice(0, 1)).toEqual(messages);
+    expect(repair[1]).toEqual({ role: "assistant", content: JSON.stringify(broken) });
+    expect(repair[2].content).toContain("- /middle_summary: required property is missing");
+    expect(repair[2].content).toContain('- /keywords/0/priority: must be one of');
+  });
+
+  test("gives up after maxRepairs and returns the last object as invalid", async () => {
+    const { llm } = scriptedLLM([{ categories: [] }, { categories: [] }, validChunk]);
+    const res = await generateValidObject(llm, [], chunkSchema, { maxRepairs: 1 });
+    expect(res.validation).toEqual({ status: "invalid", attempts: 2, errors: ["/middle_summary: required property is missing"] });
+    expect(llm.generateObject).toHaveBeenCalledTimes(2);
+  });
+
+  test("valid first answers and non-JSON answers are not repaired", async () => {
+    const ok = scriptedLLM([validChunk]);
+    expect((await generateValidObject(ok.llm, [], chunkSchema)).validation).toEqual({ status: "valid", attempts: 1 });
+
+    const non = scriptedLLM(["not json"]);
+    expect((await generateValidObject(non.llm, [], chunkSchema)).validation).toEqual({ status: "non_json", attempts: 1 });
+    expect(non.llm.generateObject).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+// Schema-validated structured output with a bounded repair loop.
+//
+// generateObject only guarantees parseable JSON. generateValidObject validates
+// the object against the JSON Schema and, while it does not conform, re-prompts
+// the model with its previous output and the validation errors (at most
+// `maxRepairs` extra calls). The last object is returned either way, together
+// with how validation ended, so callers can record it and fall back to defaults.
+
+import type { GenerateOptions, LLMClient, LLMUsage, Message } from "./LLMClient";
+import { validateJsonSchema, type JsonSchema } from "./jsonSchema";
+
+export type ValidationStatus =
+  | "valid"     // conformed on the first call
+  | "repaired"  // conformed after one or more repair calls
+  | "invalid"   // still not conforming when the repair budget ran out
+  | "non_json"; // the model did not return JSON (surfaced via raw.nonJsonText; not repaired)
+
+export interface ObjectValidation {
+  status: ValidationStatus;
+  attempts: number;   // LLM calls made (1 + repairs)
+  errors?: string[];  // remaining errors when invalid
+}
+
+const MAX_ERRORS_SHOWN = 20;
+
+/** Default repair budget (LLM_REPAIR_ATTEMPTS, default 2). */
+export const defaultMaxRepairs = () => Math.max(0, Number(process.env.LLM_REPAIR_ATTEMPTS ?? 2));
+
+/** Follow-up turn asking the model to fix its previous output. */
+export function buildRepairMessages(messages: Message[], previous: unknown, errors: string[]): Message[] {
+  const shown = errors.slice(0, MAX_ERRORS_SHOWN);
+  const more = errors.length - shown.length;
+  return [
+    ...messages,
+    { role: "assistant", content: JSON.stringify(previous) },
+    {
+      role: "user",
+      content:
+`前回のJSONは指定のスキーマに適合していません。以下のエラーをすべて修正し、スキーマに厳密に準拠した完全なJSONのみを返してください。
+内容は変えず、欠けている項目の補完と型・値の修正だけを行ってください。
+
+エラー:
+${shown.map((e) => `- ${e}`).join("\n")}${more > 0 ? `\n- ほか${more}件` : ""}
+`
+    },
+  ];
+}
+
+export async function generateValidObject<T>(
+  llm: LLMClient,
+  messages: Message[],
+  schema: object,
+  options: GenerateOptions & { maxRepairs?: number; onUsage?: (usage: LLMUsage | undefined, attempt: number) => void } = {}
+): Promise<{ object: T; usage?: LLMUsage; raw?: unknown; validation: ObjectValidation }> {
+  const { maxRepairs = defaultMaxRepairs(), onUsage, ...generateOptions } = options;
+  const log = generateOptions.logger;
+
+  let prompt = messages;
+  for (let attempt = 1; ; attempt++) {
+    const res = await llm.generateObject<T>(prompt, schema, generateOptions);
+    onUsage?.(res.usage, attempt);
+    if ((res.raw as any)?.nonJsonText) {
+      return { ...res, validation: { status: "non_json", attempts: attempt } };
+    }
+
+    const errors = validateJsonSchema(res.object, schema as JsonSchema);
+    if (!errors.length) {
+      return { ...res, validation: { status: attempt === 1 ? "valid" : "repaired", attempts: attempt } };
+    }
+    if (attempt > maxRepairs) {
+      log?.warn("LLM output failed schema validation; repair budget exhausted", { attempts: attempt, errors: errors.slice(0, MAX_ERRORS_SHOWN) });
+      return { ...res, validation: { status: "invalid", attempts: attempt, errors: errors.slice(0, MAX_ERRORS_SHOWN) } };
+    }
+    log?.info("LLM output failed schema validation; asking for a repair", { attempt, errors: errors.slice(0, MAX_ERRORS_SHOWN) });
+    prompt = buildRepairMessages(messages, res.object, errors);
+  }
+}
@@ -0,0 +1,49 @@
+import { UsageRecorder, mergeUsage, parsePriceTable, priceFor } from "@llm/usage";
+
+describe("usage accounting", () => {
+  const table = parsePriceTable(JSON.stringify({
+    "gemini-2.5-pro": { inputPerMTok: 1.25, outputPerMTok: 10 },
+    "gemini-2.5": { inputPerMTok: 1, outputPerMTok: 1 },
+    broken: { inputPerMTok: "x" },
+  }));
+
+  test("parses the price table and matches exact names before prefixes", () => {
+    const write = jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+    expect(parsePriceTable("{not json")).toEqual({});
+    write.mockRestore();
+
+    expect(Object.keys(table)).toEqual(["gemini-2.5-pro", "gemini-2.5"]);
+    expect(priceFor("gemini-2.5-pro", table)?.outputPerMTok).toBe(10);
+    expect(priceFor("gemini-2.5-pro-preview-05-06", table)?.outputPerMTok).toBe(10);
+    expect(priceFor("gemini-2.5-flash", table)?.outputPerMTok).toBe(1);
+    expect(priceFor("llama-3.1-70b", table)).toBeUndefined();
+  });
+
+  test("aggregates calls by phase and model with costs", () => {
+    const rec = new UsageRecorder(table);
+    rec.record("chunk", "gemini-2.5-pro", { inputTokens: 1_000_000, outputTokens: 100_000 });
+    rec.record("chunk", "gemini-2.5-pro", { inputTokens: 1000, outputTokens: 100, totalTokens: 1200 });
+    rec.record("reduce:1", "llama-3.1-70b", { inputTokens: 10, outputTokens: 5 });
+    rec.record("reduce:1", "llama-3.1-70b"); // no usage metadata
+
+    const s = rec.summary();
+    expect(s.byPhase.chunk).toEqual({ calls: 2, inputTokens: 1_001_000, outputTokens: 100_100, totalTokens: 1_101_200, costUsd: 2.25225 });
+    expect(s.byPhase["reduce:1"]).toEqual({ calls: 2, inputTokens: 10, outputTokens: 5, totalTokens: 15, unpricedCalls: 2 });
+    expect(s.byModel["gemini-2.5-pro"].calls).toBe(2);
+    expect(s.total).toMatchObject({ calls: 4, costUsd: 2.25225, unpricedCalls: 2 });
+  });
+
+  test("merges meeting summaries into run totals", () => {
+    const a = new UsageRecorder(table);
+    a.record("chunk", "gemini-2.5-pro", { inputTokens: 100, outputTokens: 10 });
+    const b = new UsageRecorder(table);
+    b.record("chunk", "gemini-2.5-pro", { inputTokens: 200, outputTokens: 20 });
+    b.record("reduce:1", "gemini-2.5-pro", { inputTokens: 50, outputTokens: 5 });
+
+    expect(mergeUsage([])).toBeUndefined();
+    const merged = mergeUsage([a.summary(), undefined, b.summary()])!;
+    expect(merged.total).toMatchObject({ calls: 3, inputTokens: 350, outputTokens: 35, totalTokens: 385 });
+    expect(merged.byPhase.chunk.calls).toBe(2);
+    expect(merged.byModel["gemini-2.5-pro"].calls).toBe(3);
+  });
+});
@@ -0,0 +1,131 @@
+import { logger } from "@utils/logger";
+
+import type { LLMUsage } from "./LLMClient";
+
+/** Token / call totals for one slice of work (a phase, a model, a meeting or a run). */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd?: number;       // sum over calls whose model is in the price table
+  unpricedCalls?: number; // calls whose model has no price (costUsd excludes them)
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byPhase: Record<string, UsageTotals>;  // "chunk", "reduce:1", "reduce:2", ...
+  byModel: Record<string, UsageTotals>;
+}
+
+/** USD per 1M tokens. */
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Parse a price table such as `{"gemini-2.5-pro":{"inputPerMTok":1.25,"outputPerMTok":10}}`.
+ * Invalid JSON or entries are ignored with a warning (usage is still counted, just not priced).
+ */
+export function parsePriceTable(json?: string): PriceTable {
+  if (!json?.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    logger.warn("LLM_PRICE_TABLE is not valid JSON; costs will not be computed", { component: "usage" });
+    return {};
+  }
+  const table: PriceTable = {};
+  for (const [model, price] of Object.entries((parsed ?? {}) as Record<string, any>)) {
+    const input = Number(price?.inputPerMTok);
+    const output = Number(price?.outputPerMTok);
+    if (Number.isFinite(input) && Number.isFinite(output) && input >= 0 && output >= 0) {
+      table[model] = { inputPerMTok: input, outputPerMTok: output };
+    } else {
+      logger.warn("Ignoring invalid LLM_PRICE_TABLE entry", { component: "usage", model });
+    }
+  }
+  return table;
+}
+
+let envPriceTable: PriceTable | undefined;
+
+/** Price table from LLM_PRICE_TABLE (parsed once per process). */
+export function defaultPriceTable(): PriceTable {
+  return (envPriceTable ??= parsePriceTable(process.env.LLM_PRICE_TABLE));
+}
+
+/** Exact model match first, then the longest key the model name starts with (e.g. dated variants). */
+export function priceFor(model: string, table: PriceTable): ModelPrice | undefined {
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+const roundUsd = (usd: number) => Math.round(usd * 1e6) / 1e6;
+
+function addTotals(into: UsageTotals, from: UsageTotals) {
+  into.calls += from.calls;
+  into.inputTokens += from.inputTokens;
+  into.outputTokens += from.outputTokens;
+  into.totalTokens += from.totalTokens;
+  if (from.costUsd != null) into.costUsd = roundUsd((into.costUsd ?? 0) + from.costUsd);
+  if (from.unpricedCalls) into.unpricedCalls = (into.unpricedCalls ?? 0) + from.unpricedCalls;
+}
+
+/** Collects usage of individual LLM calls and summarizes it by phase and model. */
+export class UsageRecorder {
+  private readonly total = emptyTotals();
+  private readonly byPhase = new Map<string, UsageTotals>();
+  private readonly byModel = new Map<string, UsageTotals>();
+
+  constructor(private readonly priceTable: PriceTable = defaultPriceTable()) {}
+
+  /** Record one call; calls without usage metadata still count as calls. */
+  record(phase: string, model: string, usage?: LLMUsage) {
+    const inputTokens = usage?.inputTokens ?? 0;
+    const outputTokens = usage?.outputTokens ?? 0;
+    const call: UsageTotals = {
+      calls: 1,
+      inputTokens,
+      outputTokens,
+      totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+    };
+    const price = priceFor(model, this.priceTable);
+    if (price) call.costUsd = (inputTokens * price.inputPerMTok + outputTokens * price.outputPerMTok) / 1e6;
+    else call.unpricedCalls = 1;
+
+    addTotals(this.total, call);
+    for (const [map, key] of [[this.byPhase, phase], [this.byModel, model]] as const) {
+      if (!map.has(key)) map.set(key, emptyTotals());
+      addTotals(map.get(key)!, call);
+    }
+  }
+
+  summary(): UsageSummary {
+    const copy = (m: Map<string, UsageTotals>) => Object.fromEntries([...m].map(([k, v]) => [k, { ...v }]));
+    return { total: { ...this.total }, byPhase: copy(this.byPhase), byModel: copy(this.byModel) };
+  }
+}
+
+/** Sum meeting summaries into a run summary; undefined when there is nothing to sum. */
+export function mergeUsage(summaries: Array<UsageSummary | undefined>): UsageSummary | undefined {
+  const present = summaries.filter((s): s is UsageSummary => !!s);
+  if (!present.length) return undefined;
+
+  const merged: UsageSummary = { total: emptyTotals(), byPhase: {}, byModel: {} };
+  for (const s of present) {
+    addTotals(merged.total, s.total);
+    for (const key of ["byPhase", "byModel"] as const) {
+      for (const [k, v] of Object.entries(s[key] ?? {})) addTotals((merged[key][k] ??= emptyTotals()), v);
+    }
+  }
+  return merged;
+}
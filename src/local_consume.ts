@@ -0,0 +1,37 @@
+import 'dotenv/config';
+import type { SQSEvent, SQSBatchResponse } from 'aws-lambda';
+
+(async () => {
+  // Local defaults (can be overridden by .env)
+  process.env.AWS_REGION = process.env.AWS_REGION || 'ap-northeast-3';
+  process.env.AWS_ENDPOINT_URL = process.env.AWS_ENDPOINT_URL || 'http://localhost:4566';
+  process.env.TABLE_NAME = process.env.TABLE_NAME || 'politopics';
+  process.env.APP_ENV = process.env.APP_ENV || 'local';
+
+  if (!process.env.MEETING_QUEUE_URL) {
+    throw new Error('Set MEETING_QUEUE_URL (see scripts/local-bootstrap.sh output)');
+  }
+
+  // Import after env defaults so the shared runtime picks them up
+  const { handler } = await import('./sqs_handler');
+  const { meetingQueue } = await import('@services/runtime');
+  const { SqsMeetingQueue } = await import('@services/meetingQueue');
+  if (!(meetingQueue instanceof SqsMeetingQueue)) throw new Error('MEETING_QUEUE_URL is not an SQS queue');
+
+  console.log(`Polling ${meetingQueue.queueUrl} until empty...`);
+
+  // Poll LocalStack SQS and feed the consumer like the Lambda event source mapping would
+  while (true) {
+    const { received, failed } = await meetingQueue.pollOnce(async (records) => {
+      const event = { Records: records.map(r => ({
+        messageId: r.messageId,
+        body: r.body,
+        attributes: { ApproximateReceiveCount: String(r.receiveCount) },
+      })) } as SQSEvent;
+      const res = (await handler(event, {} as any, () => {})) as SQSBatchResponse;
+      return { failedIds: res.batchItemFailures.map(f => f.itemIdentifier) };
+    });
+    if (!received) break;
+    console.log(`Processed ${received} message(s), ${failed} failed`);
+  }
+})();
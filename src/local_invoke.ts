@@ -1,5 +1,9 @@
 import 'dotenv/config';
 import { handler } from './lambda_handler';
+import { consumeMeetingMessage } from './sqs_handler';
+import { meetingQueue } from '@services/runtime';
+import { InMemoryMeetingQueue } from '@services/meetingQueue';
+import { tracer } from '@utils/tracing';
 import type { ScheduledEvent } from 'aws-lambda';
 
 (async () => {
@@ -42,4 +46,16 @@ import type { ScheduledEvent } from 'aws-lambda';
 
   const res = await handler(event as any, {} as any, () => {});
   console.log(res);
+
+  // PIPELINE_MODE=queue without MEETING_QUEUE_URL: play the SQS consumer in-process
+  if (meetingQueue instanceof InMemoryMeetingQueue && meetingQueue.size > 0) {
+    const { maxReceiveCount } = meetingQueue;
+    const drained = await meetingQueue.drain(async (msg, receiveCount) => {
+      const r = await consumeMeetingMessage(msg, { receiveCount, maxReceiveCount });
+      if (!r.ok) throw new Error(r.error.message);
+      if (r.verdict === "requeue") throw new Error(`Quality gate requeued ${r.baseId}`);
+    });
+    console.log('Drained in-memory meeting queue:', drained, meetingQueue.deadLetters);
+    await tracer.flush();
+  }
 })();
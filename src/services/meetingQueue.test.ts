@@ -0,0 +1,65 @@
+import type { SQSClient } from "@aws-sdk/client-sqs";
+
+import {
+  InMemoryMeetingQueue,
+  SqsMeetingQueue,
+  parseMeetingMessage,
+  type MeetingMessage,
+} from "@services/meetingQueue";
+
+const msg = (issueID: string): MeetingMessage => ({ runId: "r1", issueID, date: "2025-05-28" });
+
+describe("parseMeetingMessage", () => {
+  test("accepts well-formed bodies and rejects the rest", () => {
+    expect(parseMeetingMessage(JSON.stringify(msg("A")))).toEqual(msg("A"));
+    expect(() => parseMeetingMessage(JSON.stringify({ runId: "r1", date: "2025-05-28" }))).toThrow(/issueID/);
+    expect(() => parseMeetingMessage("not json")).toThrow();
+  });
+});
+
+describe("InMemoryMeetingQueue", () => {
+  test("redelivers failures and dead-letters after maxReceiveCount", async () => {
+    const queue = new InMemoryMeetingQueue({ maxReceiveCount: 3 });
+    await queue.enqueue([msg("ok"), msg("flaky"), msg("broken")]);
+
+    const attempts = new Map<string, number>();
+    const res = await queue.drain(async (m) => {
+      const n = (attempts.get(m.issueID) ?? 0) + 1;
+      attempts.set(m.issueID, n);
+      if (m.issueID === "broken" || (m.issueID === "flaky" && n < 2)) throw new Error(`fail ${m.issueID}`);
+    });
+
+    expect(res).toEqual({ processed: 2, deadLettered: 1 });
+    expect(attempts.get("flaky")).toBe(2);
+    expect(attempts.get("broken")).toBe(3);
+    expect(queue.deadLetters).toEqual([{ message: msg("broken"), receiveCount: 3, error: "fail broken" }]);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe("SqsMeetingQueue", () => {
+  test("sends batches of 10 and reports per-entry failures", async () => {
+    const sent: any[] = [];
+    const sqs = {
+      send: jest.fn(async (cmd: any) => {
+        const entries = cmd.input.Entries as Array<{ Id: string; MessageBody: string }>;
+        sent.push(entries);
+        // Fail the first entry of the second batch
+        const failFirst = sent.length === 2;
+        return {
+          Successful: entries.slice(failFirst ? 1 : 0).map(e => ({ Id: e.Id })),
+          Failed: failFirst ? [{ Id: entries[0].Id, Code: "InternalError", SenderFault: false }] : [],
+        };
+      }),
+    } as unknown as SQSClient;
+
+    const queue = new SqsMeetingQueue({ queueUrl: "http://localhost:4566/000000000000/q", sqs });
+    const messages = Array.from({ length: 12 }, (_, i) => msg(`M${i}`));
+    const res = await queue.enqueue(messages);
+
+    expect(sent.map(b => b.length)).toEqual([10, 2]);
+    expect(JSON.parse(sent[0][0].MessageBody)).toEqual(msg("M0"));
+    expect(res.sent).toBe(11);
+    expect(res.failed).toEqual([{ message: msg("M10"), reason: "InternalError" }]);
+  });
+});
@@ -0,0 +1,168 @@
+// Queue abstraction for fanning meetings out to the SQS consumer.
+//
+// Messages carry only identifiers (runId / issueID / date): full meeting records
+// easily exceed the 256 KB SQS limit, so consumers load them from the raw archive
+// (or the National Diet API) instead.
+
+import {
+  SQSClient,
+  SendMessageBatchCommand,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+} from "@aws-sdk/client-sqs";
+
+export interface MeetingMessage {
+  runId: string;
+  issueID: string;
+  date: string;
+}
+
+export interface EnqueueResult {
+  sent: number;
+  failed: Array<{ message: MeetingMessage; reason: string }>;
+}
+
+export interface MeetingQueue {
+  readonly name: string;
+  enqueue(messages: MeetingMessage[]): Promise<EnqueueResult>;
+}
+
+/** Parse and check a message body; throws on anything that is not a MeetingMessage. */
+export function parseMeetingMessage(body: string): MeetingMessage {
+  const m = JSON.parse(body);
+  for (const k of ["runId", "issueID", "date"] as const) {
+    if (typeof m?.[k] !== "string" || !m[k]) throw new Error(`Invalid meeting message: missing ${k}`);
+  }
+  return { runId: m.runId, issueID: m.issueID, date: m.date };
+}
+
+// ==========================
+// SQS
+// ==========================
+export type SqsMeetingQueueOptions = {
+  queueUrl: string;
+  sqs?: SQSClient;
+};
+
+/** Amazon SQS (or LocalStack). Dead-lettering is configured on the queue's redrive policy. */
+export class SqsMeetingQueue implements MeetingQueue {
+  readonly name = "sqs";
+  readonly queueUrl: string;
+  private readonly sqs: SQSClient;
+
+  constructor(opts: SqsMeetingQueueOptions) {
+    this.queueUrl = opts.queueUrl;
+    this.sqs = opts.sqs ?? new SQSClient({
+      region: process.env.AWS_REGION || "ap-northeast-3",
+      ...(process.env.AWS_ENDPOINT_URL ? { endpoint: process.env.AWS_ENDPOINT_URL } : {}),
+    });
+  }
+
+  async enqueue(messages: MeetingMessage[]): Promise<EnqueueResult> {
+    const result: EnqueueResult = { sent: 0, failed: [] };
+    // SendMessageBatch accepts at most 10 entries
+    for (let i = 0; i < messages.length; i += 10) {
+      const batch = messages.slice(i, i + 10);
+      try {
+        const res = await this.sqs.send(new SendMessageBatchCommand({
+          QueueUrl: this.queueUrl,
+          Entries: batch.map((m, j) => ({ Id: String(j), MessageBody: JSON.stringify(m) })),
+        }));
+        for (const f of res.Failed ?? []) {
+          result.failed.push({ message: batch[Number(f.Id)], reason: f.Message ?? f.Code ?? "unknown" });
+        }
+        result.sent += res.Successful?.length ?? 0;
+      } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        result.failed.push(...batch.map((message) => ({ message, reason })));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Receive up to `max` messages, hand them to `consume`, and delete the ones it
+   * accepted. Meant for local polling (LocalStack); in AWS the Lambda event source
+   * mapping does this.
+   */
+  async pollOnce(
+    consume: (records: Array<{ messageId: string; body: string; receiveCount: number }>) => Promise<{ failedIds: string[] }>,
+    max = 10,
+    waitSeconds = 1
+  ): Promise<{ received: number; failed: number }> {
+    const res = await this.sqs.send(new ReceiveMessageCommand({
+      QueueUrl: this.queueUrl,
+      MaxNumberOfMessages: Math.min(10, max),
+      WaitTimeSeconds: waitSeconds,
+      MessageSystemAttributeNames: ["ApproximateReceiveCount"],
+    }));
+    const msgs = res.Messages ?? [];
+    if (!msgs.length) return { received: 0, failed: 0 };
+
+    const { failedIds } = await consume(msgs.map((m) => ({
+      messageId: m.MessageId!,
+      body: m.Body ?? "",
+      receiveCount: Number(m.Attributes?.ApproximateReceiveCount) || 1,
+    })));
+    const failed = new Set(failedIds);
+    for (const m of msgs) {
+      if (failed.has(m.MessageId!)) continue; // becomes visible again; redrive moves it to the DLQ
+      await this.sqs.send(new DeleteMessageCommand({ QueueUrl: this.queueUrl, ReceiptHandle: m.ReceiptHandle! }));
+    }
+    return { received: msgs.length, failed: failed.size };
+  }
+}
+
+// ==========================
+// In-memory stand-in
+// ==========================
+export type InMemoryMeetingQueueOptions = {
+  maxReceiveCount?: number; // deliveries before a message is dead-lettered (SQS redrive policy)
+};
+
+/** Local / test stand-in mimicking SQS redrive: failing messages move to `deadLetters`. */
+export class InMemoryMeetingQueue implements MeetingQueue {
+  readonly name = "memory";
+  readonly maxReceiveCount: number;
+  readonly deadLetters: Array<{ message: MeetingMessage; receiveCount: number; error: string }> = [];
+  private pending: Array<{ message: MeetingMessage; receiveCount: number }> = [];
+
+  constructor(opts: InMemoryMeetingQueueOptions = {}) {
+    this.maxReceiveCount = Math.max(1, opts.maxReceiveCount ?? Number(process.env.MEETING_QUEUE_MAX_RECEIVE ?? 3));
+  }
+
+  get size() { return this.pending.length; }
+
+  async enqueue(messages: MeetingMessage[]): Promise<EnqueueResult> {
+    this.pending.push(...messages.map((message) => ({ message, receiveCount: 0 })));
+    return { sent: messages.length, failed: [] };
+  }
+
+  /**
+   * Deliver messages one by one until the queue is empty. A delivery fails when
+   * `consume` throws; the message is then re-queued, or dead-lettered once it has
+   * been received `maxReceiveCount` times. `consume` gets the receive count like
+   * SQS's ApproximateReceiveCount.
+   */
+  async drain(consume: (message: MeetingMessage, receiveCount: number) => Promise<void>): Promise<{ processed: number; deadLettered: number }> {
+    let processed = 0;
+    let deadLettered = 0;
+    while (this.pending.length) {
+      const item = this.pending.shift()!;
+      item.receiveCount++;
+      try {
+        await consume(item.message, item.receiveCount);
+        processed++;
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        if (item.receiveCount >= this.maxReceiveCount) {
+          this.deadLetters.push({ ...item, error });
+          deadLettered++;
+        } else {
+          this.pending.push(item);
+        }
+      }
+    }
+    return { processed, deadLettered };
+  }
+}
@@ -0,0 +1,229 @@
+// Per-meeting unit of work shared by the in-process pipeline and the SQS consumer:
+// summarize one meeting, pass it through the quality gate, store it, and record
+// its state under the run.
+
+import * as prompt from '@LLMSummarize/prompt';
+import { processMeeting, type ChunkLLMResult, type MeetingCheckpoint, type ReduceLLMResult } from '@LLMSummarize/pipeline';
+import { assessQuality } from '@LLMSummarize/quality';
+import { summarizeGrounding } from '@LLMSummarize/grounding';
+import storeData, { DIAGNOSTIC_FIELDS } from '@DynamoDBHandler/storeData';
+import {
+  getRun, closeRun, setMeetingStatus, listMeetingStates, runCounts,
+  saveChunkCheckpoint, loadChunkCheckpoints, clearChunkCheckpoints,
+  type MeetingState,
+} from '@DynamoDBHandler/runState';
+import { validateMeetingData, RawDataValidationError } from '@NationalDietAPIHandler/validate';
+import { mergeUsage } from '@llm/usage';
+import { notifyAll, topErrorMessages } from '@services/notifier';
+import { describeRunFilters, type RunFilters } from '@services/runFilters';
+import { logger } from '@utils/logger';
+import { metrics } from '@utils/metrics';
+import { tracer } from '@utils/tracing';
+import type { RawMeetingRecord } from '@interfaces/Raw';
+import type { Article, ArticleDiagnostics } from '@interfaces/Article';
+
+import {
+  ddbCfg, dietApi, rawArchive, llm, chunkFallback, notifiers, serializeError, tryRunState, putRunPayload, type TaskResult,
+} from './runtime';
+
+/** Times the quality gate may send a meeting back for a fresh summary before holding it for review. */
+const QUALITY_MAX_REQUEUES = Number(process.env.QUALITY_MAX_REQUEUES ?? 1);
+
+/** SQS delivery of a meeting message; inline runs have none. */
+export interface MeetingDelivery {
+  receiveCount: number;     // ApproximateReceiveCount of this delivery
+  maxReceiveCount: number;  // redrive policy: the last delivery before the dead-letter queue
+}
+
+export const isLastDelivery = (delivery?: MeetingDelivery) => !delivery || delivery.receiveCount >= delivery.maxReceiveCount;
+
+/**
+ * Record a failed attempt. Before the last SQS delivery the meeting is only
+ * retrying (still pending for the run); an inline run or the last delivery fails it.
+ */
+export async function markMeetingFailed(
+  runId: string, issueID: string, stage: string, err: ReturnType<typeof serializeError>, delivery?: MeetingDelivery
+) {
+  const status = isLastDelivery(delivery) ? "failed" : "retrying";
+  await tryRunState(`mark meeting ${status}`, runId, () =>
+    setMeetingStatus(ddbCfg, runId, issueID, status, { stage, error: meetingError(err), attempts: delivery?.receiveCount }));
+  return status;
+}
+
+/**
+ * Summarize and store one meeting, checkpointing progress under the run so an
+ * interrupted invocation can resume from finished chunks / reduce result.
+ * Traced as a `meeting` span with `summarize` and `store` children.
+ */
+export function processAndStoreMeeting(
+  rec: RawMeetingRecord, runId: string, prior?: MeetingState, delivery?: MeetingDelivery
+): Promise<TaskResult> {
+  return tracer.withSpan("meeting", { runId, meetingId: rec.issueID, speeches: rec.speechRecord?.length }, async (span) => {
+    const result = await summarizeAndStore(rec, runId, prior, delivery);
+    span.setAttribute("ok", result.ok);
+    if (result.ok && result.verdict) span.setAttribute("quality.verdict", result.verdict);
+    if (!result.ok) span.recordError(new Error(result.error.message));
+    return result;
+  });
+}
+
+async function summarizeAndStore(
+  rec: RawMeetingRecord, runId: string, prior?: MeetingState, delivery?: MeetingDelivery
+): Promise<TaskResult> {
+  const baseId = rec.issueID;
+  const checkpoint: MeetingCheckpoint = {
+    loadChunks: () => loadChunkCheckpoints<ChunkLLMResult>(ddbCfg, runId, baseId),
+    saveChunk: (entry) => saveChunkCheckpoint(ddbCfg, runId, baseId, entry),
+    onChunked: () => setMeetingStatus(ddbCfg, runId, baseId, "chunked"),
+    loadReduce: async () => prior?.reduce as ReduceLLMResult | undefined,
+    saveReduce: (reduce) => setMeetingStatus(ddbCfg, runId, baseId, "reduced", { reduce }),
+  };
+
+  let stage = "processMeeting";
+  try {
+    const article = await tracer.withSpan("summarize", { meetingId: baseId }, () => processMeeting({
+      raw: rec,
+      instruction: prompt.instruction,
+      output_format: prompt.output_format,
+      charThreshold: Number(process.env.CHAR_THRESHOLD || 10000),
+      llm,
+      checkpoint,
+      chunkRetry: { fallback: chunkFallback },
+      logger: logger.child({ runId }),
+    }));
+
+    const usage = article.usage;
+    const nonJsonOutputs = article.raw_outputs?.length ?? 0;
+
+    stage = "qualityGate";
+    const quality = assessQuality(article);
+    article.quality = quality;
+    const requeues = prior?.requeues ?? 0;
+    // SQS will not deliver the last receive again, so a requeue there is held for review instead
+    const lastChance = requeues >= QUALITY_MAX_REQUEUES || (delivery != null && isLastDelivery(delivery));
+    const verdict = quality.verdict === "requeue" && lastChance ? "review" : quality.verdict;
+    metrics.put("QualityScore", quality.score, "None");
+
+    // Summarize again from scratch: SQS redelivers the message, an inline run leaves it pending for resume
+    if (verdict === "requeue") {
+      logger.warn("Quality gate requeued meeting", { runId, meetingId: baseId, score: quality.score, issues: quality.issues, requeues });
+      metrics.put("MeetingsRequeued", 1);
+      await tryRunState("requeue meeting", runId, async () => {
+        await clearChunkCheckpoints(ddbCfg, runId, baseId);
+        await setMeetingStatus(ddbCfg, runId, baseId, "pending", { quality, requeues: requeues + 1 });
+      });
+      return { ok: true, baseId, usage, nonJsonOutputs, verdict };
+    }
+
+    // Held articles stay out of the article table until someone looks at them
+    if (verdict === "review") {
+      logger.warn("Quality gate held meeting for review", { runId, meetingId: baseId, score: quality.score, issues: quality.issues });
+      metrics.put("MeetingsHeldForReview", 1);
+      const articleKey = await putRunPayload(runId, `review-${baseId}`, article);
+      await tryRunState("mark meeting for review", runId, async () => {
+        await setMeetingStatus(ddbCfg, runId, baseId, "review", { quality, articleKey, usage, nonJsonOutputs });
+        await clearChunkCheckpoints(ddbCfg, runId, baseId);
+      });
+      return { ok: true, baseId, usage, nonJsonOutputs, verdict };
+    }
+
+    stage = "storeData";
+    article.diagnostics = await writeDiagnostics(runId, article);
+    const stored = await tracer.withSpan("store", { meetingId: baseId }, () => storeData(ddbCfg, article));
+    const articleId =
+      typeof stored === "string"
+        ? stored
+        : (stored?.id ?? baseId);
+
+    // Finished chunks are only needed to resume; drop them once the meeting is done
+    await tryRunState("mark meeting stored", runId, async () => {
+      await setMeetingStatus(ddbCfg, runId, baseId, "stored", { articleId, usage, nonJsonOutputs, quality });
+      await clearChunkCheckpoints(ddbCfg, runId, baseId);
+    });
+    return { ok: true, baseId, articleId, usage, nonJsonOutputs, verdict };
+  } catch (e) {
+    const err = serializeError(e);
+    logger.error("Meeting failed", { runId, meetingId: baseId, stage, attempts: delivery?.receiveCount, error: e });
+    await markMeetingFailed(runId, baseId, stage, err, delivery);
+    return { ok: false, baseId, error: err };
+  }
+}
+
+/**
+ * Write the article's full diagnostics (kept off the stored item) to S3 and
+ * return the compact summary that is stored with it.
+ */
+async function writeDiagnostics(runId: string, article: Article & { raw_outputs?: unknown[] }): Promise<ArticleDiagnostics> {
+  const report = Object.fromEntries(DIAGNOSTIC_FIELDS.map((k) => [k, article[k]]));
+  const key = await putRunPayload(runId, `diagnostics-${article.id}`, report);
+  const outputs = [...(article.validation?.chunks ?? []), ...(article.validation?.reduce ?? [])];
+  return {
+    key,
+    nonJsonOutputs: article.raw_outputs?.length ?? 0,
+    invalidOutputs: outputs.filter((v) => v.status === "invalid").length,
+    totalTokens: article.usage?.total.totalTokens ?? 0,
+    costUsd: article.usage?.total.costUsd,
+    qualityScore: article.quality?.score,
+    grounding: article.grounding && summarizeGrounding(article.grounding),
+  };
+}
+
+/** Error as kept on a failed meeting item (DietApiError details stay in the logs). */
+export const meetingError = ({ message, name, stack }: ReturnType<typeof serializeError>) => ({ message, name, stack });
+
+/**
+ * Load one meeting's raw record: the archive first, otherwise the National Diet
+ * API by issueID. The record is validated like a fetched page.
+ */
+export async function loadMeetingRecord(issueID: string, date?: string): Promise<RawMeetingRecord> {
+  let rec = date && rawArchive.enabled ? await rawArchive.get(date, issueID) : undefined;
+  if (!rec) {
+    const fetched = await dietApi.fetchMeetings({ issueID });
+    rec = fetched.meetingRecord.find((m) => m.issueID === issueID);
+  }
+  if (!rec) throw new Error(`Meeting not found: ${issueID}`);
+
+  const { data, quarantined } = validateMeetingData({
+    numberOfRecords: 1, numberOfReturn: 1, startRecord: 1, meetingRecord: [rec],
+  });
+  if (!data.meetingRecord.length) {
+    throw new RawDataValidationError(`Meeting ${issueID} failed validation: ${quarantined[0]?.reasons.join('; ')}`, quarantined[0]);
+  }
+  return data.meetingRecord[0];
+}
+
+/**
+ * Close the run once no meeting is pending or in progress. Used by queue consumers,
+ * where no single invocation sees the whole run; the consumer that closes it
+ * sends the failure notification, like `finishRun` does for inline runs.
+ */
+export async function finalizeRunIfDone(runId: string): Promise<boolean> {
+  const states = await listMeetingStates(ddbCfg, runId);
+  const run = await getRun(ddbCfg, runId);
+  const counts = runCounts(states, run?.counts?.skipped ?? 0);
+  if (counts.pending > 0) return false;
+
+  const finishedAt = new Date().toISOString();
+  const closed = await closeRun(ddbCfg, runId, { finishedAt, counts, usage: mergeUsage(states.map((m) => m.usage)) });
+  if (!closed) return false;
+
+  if (counts.failed > 0) {
+    const failed = states.filter((m) => m.status === "failed");
+    await notifyAll(notifiers, {
+      runId,
+      status: "completed_with_failures",
+      eventSource: run?.eventSource ?? "sqs",
+      startedAt: run?.startedAt ?? finishedAt,
+      finishedAt,
+      filters: run?.filters ? describeRunFilters(run.filters as unknown as RunFilters) : undefined,
+      stored: counts.stored,
+      failed: counts.failed,
+      skipped: counts.skipped,
+      pending: 0,
+      failedIssueIDs: failed.map((m) => m.issueID),
+      nonJsonOutputs: states.reduce((n, m) => n + (m.nonJsonOutputs ?? 0), 0),
+      topErrors: topErrorMessages(failed.map((m) => m.error?.message ?? "unknown error")),
+    });
+  }
+  return true;
+}
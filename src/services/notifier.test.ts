@@ -0,0 +1,110 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SNSClient } from "@aws-sdk/client-sns";
+
+import {
+  SnsNotifier,
+  WebhookNotifier,
+  createNotifiers,
+  notifyAll,
+  toSlackMessage,
+  topErrorMessages,
+  type Notifier,
+  type RunNotification,
+} from "@services/notifier";
+
+const notification = (over: Partial<RunNotification> = {}): RunNotification => ({
+  runId: "r1",
+  status: "completed_with_failures",
+  eventSource: "aws.events",
+  startedAt: "2025-05-29T00:00:00.000Z",
+  finishedAt: "2025-05-29T00:10:00.000Z",
+  filters: "2025-05-28",
+  stored: 3,
+  failed: 2,
+  skipped: 1,
+  pending: 0,
+  failedIssueIDs: ["A", "B"],
+  nonJsonOutputs: 4,
+  topErrors: topErrorMessages(["Gemini 503", "Gemini 503"]),
+  ...over,
+});
+
+/** Webhook stand-in collecting request bodies (like scripts/webhook-sink.js). */
+async function sink(status = 200) {
+  const bodies: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => { body += c; });
+    req.on("end", () => { bodies.push(JSON.parse(body)); res.writeHead(status).end(); });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  return { url, bodies, close: () => new Promise((r) => server.close(r)) };
+}
+
+describe("notifier", () => {
+  beforeEach(() => { jest.spyOn(process.stdout, "write").mockImplementation(() => true); });
+  afterEach(() => { jest.restoreAllMocks(); });
+
+  test("ranks error messages by frequency", () => {
+    expect(topErrorMessages(["b", "a", "b", "c", "a", "b"], 2)).toEqual([
+      { message: "b", count: 3 },
+      { message: "a", count: 2 },
+    ]);
+    expect(topErrorMessages(["x".repeat(400)])[0].message).toHaveLength(301);
+  });
+
+  test("formats a Slack message with counts, issueIDs and top errors", () => {
+    const { text } = toSlackMessage(notification());
+    expect(text).toContain("PoliTopics run r1: 2 meeting(s) failed");
+    expect(text).toContain("stored 3 · failed 2 · skipped 1 · pending 0 · non-JSON outputs 4");
+    expect(text).toContain("failed issueIDs: A, B");
+    expect(text).toContain("• 2× `Gemini 503`");
+  });
+
+  test("posts JSON or Slack payloads to a webhook", async () => {
+    const s = await sink();
+    try {
+      await new WebhookNotifier({ url: s.url }).notify(notification());
+      await new WebhookNotifier({ url: s.url, format: "slack" }).notify(notification({ status: "failed", error: "boom" }));
+      expect(s.bodies[0]).toMatchObject({ runId: "r1", failedIssueIDs: ["A", "B"] });
+      expect(s.bodies[1].text).toContain("PoliTopics run r1 failed");
+      expect(s.bodies[1].text).toContain("error: `boom`");
+    } finally {
+      await s.close();
+    }
+  });
+
+  test("publishes to SNS", async () => {
+    const send = jest.fn().mockResolvedValue({});
+    await new SnsNotifier({ topicArn: "arn:aws:sns:ap-northeast-3:1:t", sns: { send } as unknown as SNSClient }).notify(notification());
+    const input = send.mock.calls[0][0].input;
+    expect(input.TopicArn).toBe("arn:aws:sns:ap-northeast-3:1:t");
+    expect(input.Subject).toBe("PoliTopics run r1: 2 meeting(s) failed");
+    expect(JSON.parse(input.Message).topErrors).toEqual([{ message: "Gemini 503", count: 2 }]);
+  });
+
+  test("a failing notifier does not stop the others", async () => {
+    const s = await sink(500);
+    const seen: string[] = [];
+    const ok: Notifier = { name: "ok", notify: async (n) => { seen.push(n.runId); } };
+    try {
+      await expect(notifyAll([new WebhookNotifier({ url: s.url }), ok], notification())).resolves.toBeUndefined();
+      expect(s.bodies).toHaveLength(1);
+      expect(seen).toEqual(["r1"]);
+    } finally {
+      await s.close();
+    }
+  });
+
+  test("builds notifiers from the environment", () => {
+    expect(createNotifiers({})).toEqual([]);
+    const [hook, sns] = createNotifiers({
+      NOTIFY_WEBHOOK_URL: "https://hooks.slack.com/services/T/B/X",
+      NOTIFY_SNS_TOPIC_ARN: "arn:aws:sns:ap-northeast-3:1:t",
+    });
+    expect(hook.name).toBe("webhook");
+    expect(sns.name).toBe("sns");
+  });
+});
@@ -0,0 +1,161 @@
+// Run failure notifications.
+//
+// When a run finishes with failed meetings, or the handler catches an exception,
+// a short summary is sent to every configured notifier:
+// - NOTIFY_WEBHOOK_URL: HTTP POST; Slack incoming-webhook payload when
+//   NOTIFY_WEBHOOK_FORMAT=slack (default for hooks.slack.com), the plain
+//   RunNotification JSON otherwise. scripts/webhook-sink.js is a local stand-in.
+// - NOTIFY_SNS_TOPIC_ARN: SNS Publish (subject + JSON message), for e-mail / chat fan-out.
+// Notifying is best-effort: failures are logged and never fail the run.
+
+import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
+
+import { logger } from "@utils/logger";
+
+export interface RunNotification {
+  runId: string;
+  status: "completed_with_failures" | "failed";
+  eventSource: string;
+  startedAt: string;
+  finishedAt: string;
+  filters?: string;            // human-readable run filters
+  stored: number;
+  failed: number;
+  skipped?: number;
+  pending?: number;
+  failedIssueIDs: string[];
+  nonJsonOutputs: number;      // chunk / reduce LLM outputs that were not valid JSON
+  topErrors: Array<{ message: string; count: number }>;
+  error?: string;              // exception that failed the whole run
+}
+
+export interface Notifier {
+  readonly name: string;
+  notify(notification: RunNotification): Promise<void>;
+}
+
+const MAX_ERROR_LENGTH = 300;
+
+/** Most frequent error messages first (truncated, at most `limit`). */
+export function topErrorMessages(messages: string[], limit = 5): RunNotification["topErrors"] {
+  const counts = new Map<string, number>();
+  for (const m of messages) {
+    const key = m.length > MAX_ERROR_LENGTH ? `${m.slice(0, MAX_ERROR_LENGTH)}…` : m;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => (b[1] - a[1]) || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([message, count]) => ({ message, count }));
+}
+
+export function notificationSubject(n: RunNotification): string {
+  return n.status === "failed"
+    ? `PoliTopics run ${n.runId} failed`
+    : `PoliTopics run ${n.runId}: ${n.failed} meeting(s) failed`;
+}
+
+/** Slack incoming-webhook payload (mrkdwn text). */
+export function toSlackMessage(n: RunNotification): { text: string } {
+  const lines = [
+    `:rotating_light: *${notificationSubject(n)}*`,
+    `source: ${n.eventSource}${n.filters ? ` · filters: ${n.filters}` : ""}`,
+    `stored ${n.stored} · failed ${n.failed}` +
+      (n.skipped != null ? ` · skipped ${n.skipped}` : "") +
+      (n.pending != null ? ` · pending ${n.pending}` : "") +
+      ` · non-JSON outputs ${n.nonJsonOutputs}`,
+  ];
+  if (n.error) lines.push(`error: \`${n.error}\``);
+  if (n.failedIssueIDs.length) {
+    const shown = n.failedIssueIDs.slice(0, 20);
+    const more = n.failedIssueIDs.length - shown.length;
+    lines.push(`failed issueIDs: ${shown.join(", ")}${more > 0 ? ` (+${more} more)` : ""}`);
+  }
+  if (n.topErrors.length) {
+    lines.push("top errors:", ...n.topErrors.map((e) => `• ${e.count}× \`${e.message}\``));
+  }
+  return { text: lines.join("\n") };
+}
+
+// ==========================
+// Webhook
+// ==========================
+export type WebhookNotifierOptions = {
+  url: string;
+  format?: "slack" | "json";   // default: slack for hooks.slack.com, json otherwise
+  timeoutMs?: number;
+};
+
+export class WebhookNotifier implements Notifier {
+  readonly name = "webhook";
+  private readonly format: "slack" | "json";
+
+  constructor(private readonly opts: WebhookNotifierOptions) {
+    this.format = opts.format ?? (new URL(opts.url).hostname === "hooks.slack.com" ? "slack" : "json");
+  }
+
+  async notify(n: RunNotification) {
+    const body = this.format === "slack" ? toSlackMessage(n) : n;
+    const res = await fetch(this.opts.url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 10_000),
+    });
+    if (!res.ok) throw new Error(`Webhook responded ${res.status} ${res.statusText}`);
+  }
+}
+
+// ==========================
+// SNS
+// ==========================
+export type SnsNotifierOptions = {
+  topicArn: string;
+  sns?: SNSClient;
+};
+
+export class SnsNotifier implements Notifier {
+  readonly name = "sns";
+  private readonly sns: SNSClient;
+
+  constructor(private readonly opts: SnsNotifierOptions) {
+    this.sns = opts.sns ?? new SNSClient({
+      region: process.env.AWS_REGION || "ap-northeast-3",
+      ...(process.env.AWS_ENDPOINT_URL ? { endpoint: process.env.AWS_ENDPOINT_URL } : {}),
+    });
+  }
+
+  async notify(n: RunNotification) {
+    await this.sns.send(new PublishCommand({
+      TopicArn: this.opts.topicArn,
+      Subject: notificationSubject(n).slice(0, 100), // SNS subject limit
+      Message: JSON.stringify(n, null, 2),
+    }));
+  }
+}
+
+/** Notifiers configured through the environment (none when nothing is set). */
+export function createNotifiers(env: NodeJS.ProcessEnv = process.env): Notifier[] {
+  const notifiers: Notifier[] = [];
+  if (env.NOTIFY_WEBHOOK_URL) {
+    const format = (env.NOTIFY_WEBHOOK_FORMAT || "").toLowerCase();
+    notifiers.push(new WebhookNotifier({
+      url: env.NOTIFY_WEBHOOK_URL,
+      format: format === "slack" || format === "json" ? format : undefined,
+    }));
+  }
+  if (env.NOTIFY_SNS_TOPIC_ARN) notifiers.push(new SnsNotifier({ topicArn: env.NOTIFY_SNS_TOPIC_ARN }));
+  return notifiers;
+}
+
+/** Send to every notifier; a failing notifier is logged and does not affect the others. */
+export async function notifyAll(notifiers: Notifier[], n: RunNotification): Promise<void> {
+  await Promise.all(notifiers.map(async (notifier) => {
+    try {
+      await notifier.notify(n);
+      logger.info("Sent run notification", { runId: n.runId, notifier: notifier.name, status: n.status });
+    } catch (e) {
+      logger.warn("Failed to send run notification", { runId: n.runId, notifier: notifier.name, error: e });
+    }
+  }));
+}
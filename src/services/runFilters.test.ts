@@ -0,0 +1,62 @@
+import { HttpError } from "@http/errors";
+import { parseRunFilters, toDietQuery, matchesRunFilters } from "@services/runFilters";
+
+import type { RawMeetingRecord } from "@interfaces/Raw";
+
+const rec = (extra: Partial<RawMeetingRecord> = {}): RawMeetingRecord => ({
+  issueID: "121705253X01020250610",
+  imageKind: "会議録",
+  searchObject: 0,
+  session: 217,
+  nameOfHouse: "衆議院",
+  nameOfMeeting: "財務金融委員会",
+  issue: "第10号",
+  date: "2025-06-10",
+  closing: null,
+  speechRecord: [],
+  ...extra,
+});
+
+describe("run filters", () => {
+  test("parses, defaults and drops unset filters", () => {
+    expect(parseRunFilters({}, { from: "2025-06-10" })).toEqual({ from: "2025-06-10", until: "2025-06-10" });
+    expect(parseRunFilters({ from: "2025-06-01" }, { from: "2025-06-10", until: "2025-06-10" }))
+      .toEqual({ from: "2025-06-01", until: "2025-06-01" });
+
+    const filters = parseRunFilters(
+      { from: "2025-06-01", until: "2025-06-30", nameOfHouse: "衆議院", session: "217", issueIDs: "a, b,a", imageKind: "会議録" },
+      { from: "2025-06-10" }
+    );
+    expect(filters).toEqual({
+      from: "2025-06-01", until: "2025-06-30", nameOfHouse: "衆議院", session: 217, issueIDs: ["a", "b"], imageKind: "会議録",
+    });
+    expect(toDietQuery(filters)).toMatchObject({ nameOfHouse: "衆議院", sessionFrom: 217, sessionTo: 217 });
+  });
+
+  test("rejects invalid filters with 400 codes", () => {
+    const code = (input: Record<string, unknown>) => {
+      try {
+        parseRunFilters(input, { from: "2025-06-10" });
+      } catch (e) {
+        expect(e).toBeInstanceOf(HttpError);
+        return (e as HttpError).code;
+      }
+      return undefined;
+    };
+    expect(code({ nameOfHouse: "貴族院" })).toBe("invalid_nameOfHouse");
+    expect(code({ session: 0 })).toBe("invalid_session");
+    expect(code({ issueIDs: [1, 2] })).toBe("invalid_issueIDs");
+    expect(code({ from: "2025-06-11", until: "2025-06-10" })).toBe("invalid_range");
+  });
+
+  test("matches records against every filter", () => {
+    const base = { from: "2025-06-01", until: "2025-06-30" };
+    expect(matchesRunFilters(rec(), base)).toBe(true);
+    expect(matchesRunFilters(rec({ date: "2025-07-01" }), base)).toBe(false);
+    expect(matchesRunFilters(rec(), { ...base, nameOfMeeting: "予算 財務" })).toBe(true);
+    expect(matchesRunFilters(rec(), { ...base, nameOfMeeting: "予算" })).toBe(false);
+    expect(matchesRunFilters(rec(), { ...base, session: 216 })).toBe(false);
+    expect(matchesRunFilters(rec(), { ...base, issueIDs: ["other"] })).toBe(false);
+    expect(matchesRunFilters(rec({ imageKind: "目次" }), { ...base, imageKind: "会議録" })).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+// Meeting filters of a run (HTTP body / query string or EventBridge event detail).
+//
+// Every filter narrows the date range; they are ANDed. nameOfHouse, nameOfMeeting
+// and session go to the National Diet API query. issueIDs are fetched one by one
+// (the API takes a single issueID) and imageKind has no API parameter, so both are
+// also applied to the fetched records, which is how archive replays are filtered.
+
+import { NAME_OF_HOUSES, type DietQuery, type NameOfHouse } from '@NationalDietAPIHandler/NationalDietAPIHandler';
+import { badRequest } from '@http/errors';
+import { optionalYmd, optionalInt, optionalOneOf, optionalString, optionalStringArray } from '@http/validation';
+
+import type { RawMeetingRecord } from '@interfaces/Raw';
+
+export interface RunFilters {
+  from: string;              // YYYY-MM-DD
+  until: string;             // YYYY-MM-DD
+  nameOfHouse?: NameOfHouse;
+  nameOfMeeting?: string;    // partial match; space-separated = OR (same as the API)
+  session?: number;          // Diet session number
+  issueIDs?: string[];
+  imageKind?: string;        // e.g. 会議録, 目次, 索引
+}
+
+/** Maximum number of explicit issueIDs in one run (one API request each). */
+export const MAX_RUN_ISSUE_IDS = 50;
+
+/**
+ * Validate filter fields from a run request. `from`/`until` fall back to
+ * `defaults`; validation failures throw HttpError(400).
+ */
+export function parseRunFilters(input: Record<string, any>, defaults: { from: string; until?: string }): RunFilters {
+  const inputFrom = optionalYmd(input.from, 'from');
+  const from = inputFrom ?? defaults.from;
+  // An explicit `from` alone means that single day
+  const until = optionalYmd(input.until, 'until') ?? (inputFrom ? from : defaults.until ?? from);
+  if (from > until) throw badRequest('invalid_range', 'from must be <= until');
+
+  const filters: RunFilters = {
+    from,
+    until,
+    nameOfHouse: optionalOneOf(input.nameOfHouse, NAME_OF_HOUSES, 'nameOfHouse'),
+    nameOfMeeting: optionalString(input.nameOfMeeting, 'nameOfMeeting', { maxLength: 100 }),
+    session: optionalInt(input.session, 'session', { min: 1, max: 9999 }),
+    issueIDs: optionalStringArray(input.issueIDs, 'issueIDs', { maxItems: MAX_RUN_ISSUE_IDS, maxLength: 32 }),
+    imageKind: optionalString(input.imageKind, 'imageKind', { maxLength: 20 }),
+  };
+  // Drop unset filters so payloads / run records only show what was applied
+  return Object.fromEntries(Object.entries(filters).filter(([, v]) => v !== undefined)) as RunFilters;
+}
+
+/** National Diet API query for the filters (issueIDs are added per request by the caller). */
+export function toDietQuery(filters: RunFilters): DietQuery {
+  return {
+    from: filters.from,
+    until: filters.until,
+    nameOfHouse: filters.nameOfHouse,
+    nameOfMeeting: filters.nameOfMeeting,
+    sessionFrom: filters.session,
+    sessionTo: filters.session,
+  };
+}
+
+/** Whether a fetched / archived record satisfies every filter. */
+export function matchesRunFilters(rec: RawMeetingRecord, filters: RunFilters): boolean {
+  if (rec.date < filters.from || rec.date > filters.until) return false;
+  if (filters.nameOfHouse && rec.nameOfHouse !== filters.nameOfHouse) return false;
+  if (filters.nameOfMeeting) {
+    const terms = filters.nameOfMeeting.split(/\s+/).filter(Boolean);
+    if (!terms.some((t) => rec.nameOfMeeting?.includes(t))) return false;
+  }
+  if (filters.session != null && Number(rec.session) !== filters.session) return false;
+  if (filters.issueIDs && !filters.issueIDs.includes(rec.issueID)) return false;
+  if (filters.imageKind && rec.imageKind !== filters.imageKind) return false;
+  return true;
+}
+
+/** Filters other than the date range, for log lines. */
+export const describeRunFilters = ({ from, until, ...rest }: RunFilters) =>
+  [`${from}..${until}`, ...Object.entries(rest).map(([k, v]) => `${k}=${Array.isArray(v) ? v.join(',') : v}`)].join(' ');
@@ -0,0 +1,208 @@
+// Shared runtime for the Lambda entry points (scheduled/HTTP pipeline and SQS consumer):
+// AWS clients, LLM client, National Diet API client, raw archive and run payload helpers.
+
+import fs from "fs-extra";
+import path from "node:path";
+
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { SQSClient } from "@aws-sdk/client-sqs";
+import { LambdaClient } from "@aws-sdk/client-lambda";
+import 'dotenv/config';
+
+import { NationalDietApiClient, DietApiError } from '@NationalDietAPIHandler/NationalDietAPIHandler';
+import { RawDataValidationError } from '@NationalDietAPIHandler/validate';
+import { RawArchive } from '@NationalDietAPIHandler/rawArchive';
+import { GeminiClient } from "@llm/geminiClient";
+import { GroqClient } from "@llm/groqClient";
+import { withBudget } from "@llm/middleware";
+import { BudgetManager } from "@llm/limiters";
+import type { UsageSummary } from "@llm/usage";
+import type { ChunkRetryOptions } from "@LLMSummarize/pipeline";
+import type { QualityVerdict } from "@LLMSummarize/quality";
+import type { Cfg as DdbCfg } from '@DynamoDBHandler/storeData';
+import { logger } from '@utils/logger';
+
+import { InMemoryMeetingQueue, SqsMeetingQueue, type MeetingQueue } from './meetingQueue';
+import { createNotifiers } from './notifier';
+
+// AWS SDK setup (supports LocalStack via AWS_ENDPOINT_URL)
+export const region = process.env.AWS_REGION || "ap-northeast-3";
+export const endpoint = process.env.AWS_ENDPOINT_URL;
+export const s3 = new S3Client({ region, ...(endpoint ? { endpoint } : {}) });
+export const lambdaClient = new LambdaClient({ region, ...(endpoint ? { endpoint } : {}) });
+
+function createLlmClient(provider: string, model?: string) {
+  return provider === "groq"
+    ? new GroqClient({
+        apiKey: process.env.GROQ_API_KEY!,
+        model: model || process.env.GROQ_MODEL_NAME || "llama-3.1-70b-versatile",
+        timeoutMs: Number(process.env.GROQ_TIMEOUT_MS ?? process.env.LLM_TIMEOUT_MS ?? 180_000)
+      })
+    : new GeminiClient({
+        apiKey: process.env.GEMINI_API_KEY!,
+        model: model || process.env.GEMINI_MODEL_NAME || "gemini-2.5-pro",
+        timeoutMs: Number(process.env.GEMINI_TIMEOUT_MS ?? process.env.LLM_TIMEOUT_MS ?? 180_000)
+      });
+}
+
+const llmProvider = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+const baseLlm = createLlmClient(llmProvider);
+
+// Optional cross-cutting budgets (prefer these over client-specific)
+const budgetCfg = {
+  rpm: Number(process.env.LLM_BUDGET_RPM ?? 0),
+  rpd: Number(process.env.LLM_BUDGET_RPD ?? 0),
+  tpm: Number(process.env.LLM_BUDGET_TPM ?? 0),
+  strictTpm: (process.env.LLM_BUDGET_TPM_STRICT || "").toLowerCase() === "true",
+};
+const llmBudget = new BudgetManager(budgetCfg);
+const budgetLlm = llmBudget.enabled ? withBudget(baseLlm, { ...budgetCfg, budget: llmBudget }) : baseLlm;
+export const llm = budgetLlm;
+
+// Fallback for chunks that stay unusable after retries: LLM_FALLBACK_PROVIDER selects
+// another client, LLM_FALLBACK_MODEL alone overrides the model on the main client.
+// LLM_BUDGET_* apply to it too: shared with the main client on the same provider,
+// the same limits on a separate budget for another provider's quota.
+const fallbackProvider = (process.env.LLM_FALLBACK_PROVIDER || "").toLowerCase();
+const fallbackModel = process.env.LLM_FALLBACK_MODEL || undefined;
+const fallbackLlm = (() => {
+  if (!fallbackProvider) return undefined;
+  const client = createLlmClient(fallbackProvider, fallbackModel);
+  if (!llmBudget.enabled) return client;
+  const budget = fallbackProvider === llmProvider ? llmBudget : new BudgetManager(budgetCfg);
+  return withBudget(client, { ...budgetCfg, budget });
+})();
+export const chunkFallback: ChunkRetryOptions["fallback"] = fallbackLlm
+  ? { llm: fallbackLlm, model: fallbackModel }
+  : fallbackModel ? { model: fallbackModel } : undefined;
+
+const ddb = new DynamoDBClient({ region, ...(endpoint ? { endpoint } : {}) });
+const doc = DynamoDBDocumentClient.from(ddb, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+export const ddbCfg: DdbCfg = { doc, table_name: process.env.TABLE_NAME || "politopics" };
+
+// National Diet API endpoint
+const national_diet_api_endpoint = process.env.NATIONAL_DIET_API_ENDPOINT || "https://kokkai.ndl.go.jp/api/meeting";
+// Page size per request (the meeting endpoint accepts 1..10)
+export const national_diet_api_max_records = Number(process.env.NATIONAL_DIET_API_MAX_RECORDS || 10);
+// Timeouts / retries / per-host rate limit are read from NATIONAL_DIET_API_* env vars
+export const dietApi = new NationalDietApiClient({ endpoint: national_diet_api_endpoint });
+
+// Raw API responses archive (S3, or OUT_DIR in local mode) for replays without re-fetching
+export const rawArchive = new RawArchive({
+  s3,
+  bucket: process.env.RAW_ARCHIVE_BUCKET,
+  prefix: process.env.RAW_ARCHIVE_PREFIX,
+  localDir: (process.env.APP_ENV || "").toLowerCase() === "local" ? (process.env.OUT_DIR || "out") : undefined,
+});
+
+// Run failure notifications (NOTIFY_WEBHOOK_URL / NOTIFY_SNS_TOPIC_ARN)
+export const notifiers = createNotifiers();
+
+// Fan-out queue for PIPELINE_MODE=queue: SQS when MEETING_QUEUE_URL is set,
+// an in-memory stand-in in local mode (drained by local_invoke), otherwise none
+export const meetingQueue: MeetingQueue | undefined = process.env.MEETING_QUEUE_URL
+  ? new SqsMeetingQueue({
+      queueUrl: process.env.MEETING_QUEUE_URL,
+      sqs: new SQSClient({ region, ...(endpoint ? { endpoint } : {}) }),
+    })
+  : (process.env.APP_ENV || "").toLowerCase() === "local"
+    ? new InMemoryMeetingQueue()
+    : undefined;
+
+// ---- helpers ---------------------------------------------------
+
+/**
+ * Concurrency limit for summarization/storage tasks.
+ * Default: 4 (override with CONCURRENCY env var)
+ */
+export const CONCURRENCY = Number(process.env.CONCURRENCY || 4);
+
+// `verdict` is the quality gate's decision; only "store" (or none, for duplicates) means the article was stored
+export type TaskOk = { ok: true; baseId: string; articleId?: string; usage?: UsageSummary; nonJsonOutputs?: number; verdict?: QualityVerdict };
+export type TaskNg = { ok: false; baseId: string; error: { message: string; stack?: string } };
+export type TaskResult = TaskOk | TaskNg;
+
+/**
+ * Normalize unknown errors to a serializable shape.
+ * DietApiError keeps its status / URL / body so failed fetches are diagnosable from the log.
+ */
+export function serializeError(e: unknown) {
+  if (e instanceof DietApiError) {
+    return { message: e.message, stack: e.stack, name: e.name, status: e.status, url: e.url, body: e.body };
+  }
+  if (e instanceof RawDataValidationError) {
+    return { message: e.message, stack: e.stack, name: e.name, payload: e.payload };
+  }
+  if (e instanceof Error) return { message: e.message, stack: e.stack };
+  return { message: String(e) };
+}
+
+/**
+ * Run async tasks with a maximum concurrency limit.
+ */
+export async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results = new Array<T>(tasks.length);
+  let next = 0;
+  const workers = Array(Math.min(limit, tasks.length))
+    .fill(0)
+    .map(async () => {
+      while (true) {
+        const i = next++;
+        if (i >= tasks.length) break;
+        results[i] = await tasks[i]();
+      }
+    });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Run history lives in DynamoDB (run record + meeting items); payloads too large
+ * for an item go to ERROR_BUCKET under runs/<runId>/ (OUT_DIR/runs/<runId>/ in local mode).
+ */
+export const RUN_PAYLOAD_INLINE_BYTES = Number(process.env.RUN_PAYLOAD_INLINE_BYTES || 64 * 1024);
+
+export const payloadBytes = (payload: unknown) => Buffer.byteLength(JSON.stringify(payload) ?? "");
+
+/** Write a large run payload (best-effort); returns its S3 key or local path. */
+export async function putRunPayload(runId: string, name: string, payload: unknown): Promise<string | undefined> {
+  const key = `runs/${runId}/${name}.json`;
+
+  if ((process.env.APP_ENV || "").toLowerCase() === "local") {
+    const filePath = path.join(process.env.OUT_DIR || "out", key);
+    try {
+      await fs.outputJson(filePath, payload, { spaces: 2 });
+      logger.info("Wrote run payload", { runId, path: filePath });
+      return filePath;
+    } catch (e) {
+      logger.error("Failed to write local run payload", { runId, path: filePath, error: e });
+      return undefined;
+    }
+  }
+
+  const bucket = process.env.ERROR_BUCKET;
+  if (!bucket) return undefined;
+  try {
+    await s3.send(new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: JSON.stringify(payload, null, 2),
+      ContentType: "application/json",
+    }));
+    logger.info("Wrote run payload", { runId, path: `s3://${bucket}/${key}` });
+    return key;
+  } catch (e) {
+    logger.error("Failed to write run payload to S3", { runId, path: `s3://${bucket}/${key}`, error: e });
+    return undefined;
+  }
+}
+
+/** Run-state writes are best-effort: a checkpoint failure must not fail the meeting itself. */
+export async function tryRunState(what: string, runId: string, fn: () => Promise<unknown>) {
+  try { await fn(); }
+  catch (e) { logger.warn(`Failed to ${what}`, { runId, error: e }); }
+}
@@ -0,0 +1,115 @@
+import type { Context, SQSBatchResponse, SQSEvent } from "aws-lambda";
+
+import type { MeetingState, RunRecord } from "@DynamoDBHandler/runState";
+
+// Run state kept in memory; counts come from the real runCounts
+jest.mock("@DynamoDBHandler/runState", () => {
+  const actual = jest.requireActual("@DynamoDBHandler/runState");
+  const meetings = new Map<string, MeetingState>();
+  const runs = new Map<string, Partial<RunRecord>>();
+  return {
+    runCounts: actual.runCounts,
+    meetings,
+    runs,
+    getMeetingState: jest.fn(async (_cfg: unknown, _runId: string, issueID: string) => meetings.get(issueID)),
+    setMeetingStatus: jest.fn(async (_cfg: unknown, _runId: string, issueID: string, status: string, extra = {}) => {
+      meetings.set(issueID, { ...meetings.get(issueID)!, status, ...extra } as MeetingState);
+    }),
+    listMeetingStates: jest.fn(async () => [...meetings.values()]),
+    getRun: jest.fn(async (_cfg: unknown, runId: string) => runs.get(runId)),
+    closeRun: jest.fn(async (_cfg: unknown, runId: string, patch: Partial<RunRecord>) => {
+      if (runs.get(runId)?.status === "completed") return false;
+      runs.set(runId, { ...runs.get(runId), ...patch, status: "completed" });
+      return true;
+    }),
+    saveChunkCheckpoint: jest.fn(),
+    loadChunkCheckpoints: jest.fn(async () => []),
+    clearChunkCheckpoints: jest.fn(async () => 0),
+  };
+});
+jest.mock("@LLMSummarize/pipeline", () => ({ processMeeting: jest.fn() }));
+jest.mock("@LLMSummarize/quality", () => ({
+  assessQuality: () => ({ score: 1, verdict: "store", checks: {}, issues: [] }),
+}));
+jest.mock("@DynamoDBHandler/storeData", () => ({
+  ...jest.requireActual("@DynamoDBHandler/storeData"),
+  __esModule: true,
+  default: jest.fn(async () => "A1"),
+}));
+jest.mock("@services/notifier", () => ({
+  ...jest.requireActual("@services/notifier"),
+  notifyAll: jest.fn(async () => undefined),
+}));
+jest.mock("@services/meetingWorker", () => ({
+  ...jest.requireActual("@services/meetingWorker"),
+  loadMeetingRecord: jest.fn(async (issueID: string) => ({ issueID, speechRecord: [] })),
+}));
+
+import { handler } from "./sqs_handler";
+import { processMeeting } from "@LLMSummarize/pipeline";
+import { notifyAll } from "@services/notifier";
+
+const { meetings, runs } = jest.requireMock("@DynamoDBHandler/runState") as {
+  meetings: Map<string, MeetingState>;
+  runs: Map<string, Partial<RunRecord>>;
+};
+
+/** One SQS delivery of the M1 message, as the event source mapping sends it. */
+const deliver = async (receiveCount: number) => {
+  const event = {
+    Records: [{
+      messageId: `m-${receiveCount}`,
+      body: JSON.stringify({ runId: "r1", issueID: "M1", date: "2025-05-28" }),
+      attributes: { ApproximateReceiveCount: String(receiveCount) },
+    }],
+  } as unknown as SQSEvent;
+  return (await handler(event, {} as Context, () => undefined)) as SQSBatchResponse;
+};
+
+// MEETING_QUEUE_MAX_RECEIVE is unset: the third delivery is the last
+describe("sqs_handler redelivery", () => {
+  beforeEach(() => {
+    meetings.clear();
+    runs.clear();
+    meetings.set("M1", { issueID: "M1", date: "2025-05-28", status: "pending", updatedAt: "" });
+    runs.set("r1", { runId: "r1", status: "running", eventSource: "apigw", startedAt: "2025-05-28T00:00:00.000Z" });
+    (processMeeting as jest.Mock).mockReset();
+    (notifyAll as jest.Mock).mockClear();
+  });
+
+  test("a failed delivery leaves the meeting retrying and the run open until a later one stores it", async () => {
+    (processMeeting as jest.Mock)
+      .mockRejectedValueOnce(new Error("LLM timeout"))
+      .mockResolvedValueOnce({ usage: undefined, raw_outputs: [] });
+
+    const first = await deliver(1);
+    expect(first.batchItemFailures).toEqual([{ itemIdentifier: "m-1" }]);
+    expect(meetings.get("M1")).toMatchObject({
+      status: "retrying", attempts: 1, stage: "processMeeting", error: { message: "LLM timeout" },
+    });
+    expect(runs.get("r1")?.status).toBe("running");
+
+    const second = await deliver(2);
+    expect(second.batchItemFailures).toEqual([]);
+    expect(meetings.get("M1")).toMatchObject({ status: "stored", articleId: "A1" });
+    expect(runs.get("r1")).toMatchObject({ status: "completed", counts: { stored: 1, failed: 0, pending: 0 } });
+    expect(notifyAll).not.toHaveBeenCalled();
+  });
+
+  test("the last delivery marks the meeting failed, closes the run and sends the failure notification", async () => {
+    (processMeeting as jest.Mock).mockRejectedValue(new Error("LLM timeout"));
+
+    await deliver(3);
+    expect(meetings.get("M1")).toMatchObject({ status: "failed", attempts: 3 });
+    expect(runs.get("r1")).toMatchObject({ status: "completed", counts: { stored: 0, failed: 1, pending: 0 } });
+    expect(notifyAll).toHaveBeenCalledTimes(1);
+    expect((notifyAll as jest.Mock).mock.calls[0][1]).toMatchObject({
+      runId: "r1", status: "completed_with_failures", eventSource: "apigw", stored: 0, failed: 1,
+      failedIssueIDs: ["M1"], topErrors: [{ message: "LLM timeout", count: 1 }],
+    });
+
+    // A duplicate delivery after the run closed does not notify again
+    await deliver(3);
+    expect(notifyAll).toHaveBeenCalledTimes(1);
+  });
+});
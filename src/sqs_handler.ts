@@ -0,0 +1,84 @@
+import type { SQSBatchItemFailure, SQSEvent, SQSHandler } from 'aws-lambda';
+
+import { getMeetingState } from '@DynamoDBHandler/runState';
+import { parseMeetingMessage, type MeetingMessage } from '@services/meetingQueue';
+import {
+  processAndStoreMeeting, loadMeetingRecord, finalizeRunIfDone, markMeetingFailed, isLastDelivery, type MeetingDelivery,
+} from '@services/meetingWorker';
+import { ddbCfg, serializeError, tryRunState, type TaskResult } from '@services/runtime';
+import { logger } from '@utils/logger';
+import { metrics } from '@utils/metrics';
+import { tracer } from '@utils/tracing';
+
+/** Deliveries before the redrive policy dead-letters a message (terraform sets both from one variable). */
+const MAX_RECEIVE_COUNT = Math.max(1, Number(process.env.MEETING_QUEUE_MAX_RECEIVE ?? 3));
+
+/**
+ * Process one fanned-out meeting. Idempotent under SQS at-least-once delivery:
+ * a meeting already stored for the run is acknowledged without work, and
+ * checkpointed chunks / reduce results from an earlier attempt are reused.
+ * A failure before the last delivery leaves the meeting retrying, so the run
+ * stays open until SQS has given up on it; without `delivery` every attempt is the last.
+ */
+export async function consumeMeetingMessage(msg: MeetingMessage, delivery?: MeetingDelivery): Promise<TaskResult> {
+  const { runId, issueID, date } = msg;
+
+  const prior = await getMeetingState(ddbCfg, runId, issueID);
+  if (prior?.status === "stored") {
+    logger.info("Meeting already stored; skipping duplicate delivery", { runId, meetingId: issueID });
+    metrics.put("DuplicateDeliveries", 1);
+    return { ok: true, baseId: issueID, articleId: prior.articleId };
+  }
+
+  let result: TaskResult;
+  try {
+    const rec = await loadMeetingRecord(issueID, date);
+    result = await processAndStoreMeeting(rec, runId, prior, delivery);
+  } catch (e) {
+    const err = serializeError(e);
+    logger.error("Meeting failed", { runId, meetingId: issueID, stage: "loadMeetingRecord", attempts: delivery?.receiveCount, error: e });
+    await markMeetingFailed(runId, issueID, "loadMeetingRecord", err, delivery);
+    result = { ok: false, baseId: issueID, error: err };
+  }
+
+  if (!result.ok) metrics.put(isLastDelivery(delivery) ? "MeetingsFailed" : "MeetingsRetrying", 1);
+  else if (!result.verdict || result.verdict === "store") metrics.put("MeetingsStored", 1);
+  await tryRunState("finalize run", runId, () => finalizeRunIfDone(runId));
+  return result;
+}
+
+/**
+ * SQS consumer entrypoint (partial batch responses).
+ * - Failed meetings, and meetings the quality gate requeued, are reported in
+ *   batchItemFailures so SQS redelivers them; after maxReceiveCount the redrive
+ *   policy moves them to the dead-letter queue. `ApproximateReceiveCount` tells
+ *   the consumer which delivery is the last one.
+ * - Malformed messages are reported too, so they end up in the DLQ for inspection.
+ */
+export const handler: SQSHandler = async (event: SQSEvent) => {
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  // One meeting at a time; parallelism comes from the event source mapping
+  try {
+    for (const record of event.Records) {
+      let msg: MeetingMessage;
+      try {
+        msg = parseMeetingMessage(record.body);
+      } catch (e) {
+        logger.error("Malformed SQS message", { messageId: record.messageId, error: e });
+        metrics.put("MalformedMessages", 1);
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+        continue;
+      }
+
+      const receiveCount = Number(record.attributes?.ApproximateReceiveCount) || 1;
+      const res = await consumeMeetingMessage(msg, { receiveCount, maxReceiveCount: MAX_RECEIVE_COUNT });
+      if (!res.ok || res.verdict === "requeue") batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  } finally {
+    metrics.flush();
+    await tracer.flush();
+  }
+
+  return { batchItemFailures };
+};
@@ -1,5 +1,7 @@
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 
+import { logger } from "./logger";
+
 const region = process.env.AWS_REGION || "ap-northeast-3";
 const endpoint = process.env.AWS_ENDPOINT_URL; // LocalStack対応
 const s3 = new S3Client({ region, ...(endpoint ? { endpoint } : {}) });
@@ -25,7 +27,7 @@ export async function saveErrorToS3(params: {
   const bucket = process.env.ERROR_BUCKET;
   const prefix = process.env.ERROR_PREFIX || "error"; // /error
   if (!bucket) {
-    console.warn("[errorSink] ERROR_BUCKET 未設定のため保存スキップ");
+    logger.warn("ERROR_BUCKET 未設定のため保存スキップ", { component: "errorSink" });
     return;
   }
 
@@ -55,6 +57,6 @@ export async function saveErrorToS3(params: {
     })
   );
 
-  console.error(`[errorSink] saved to s3://${bucket}/${key}`);
+  logger.info("Saved LLM error payload", { component: "errorSink", path: `s3://${bucket}/${key}` });
   return { bucket, key };
 }
\ No newline at end of file
@@ -3,6 +3,8 @@ import path from "node:path";
 import type { LLMUsage } from "@llm/LLMClient";
 import type { ChunkLLMResult, ReduceLLMResult } from "@LLMSummarize/pipeline";
 
+import { logger } from "./logger";
+
 function outRoot() {
   return process.env.OUT_DIR || "out";
 }
@@ -53,7 +55,7 @@ export async function saveChunkCache(params: {
     await fs.writeJson(file, body, { spaces: 2 });
     // keep logs quiet by default
   } catch (e) {
-    console.warn(`[llmCache] Failed to save chunk cache: ${params.meetingId}#${params.chunkIndex}`, e);
+    logger.warn("Failed to save chunk cache", { component: "llmCache", meetingId: params.meetingId, chunkIndex: params.chunkIndex, error: e });
   }
 }
 
@@ -75,7 +77,7 @@ export async function saveReduceCache(params: {
     };
     await fs.writeJson(file, body, { spaces: 2 });
   } catch (e) {
-    console.warn(`[llmCache] Failed to save reduce cache: ${params.meetingId}`, e);
+    logger.warn("Failed to save reduce cache", { component: "llmCache", meetingId: params.meetingId, error: e });
   }
 }
 
@@ -118,7 +120,7 @@ export async function writeCombinedMeetingCache(params: {
 
     await fs.writeJson(outFile, body, { spaces: 2 });
   } catch (e) {
-    console.warn(`[llmCache] Failed to write combined cache: ${params.meetingId}`, e);
+    logger.warn("Failed to write combined cache", { component: "llmCache", meetingId: params.meetingId, error: e });
   }
 }
 
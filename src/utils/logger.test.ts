@@ -0,0 +1,60 @@
+import { createLogger, parseLogLevel, type LogLevel } from "@utils/logger";
+
+function capture(level: LogLevel = "debug") {
+  const lines: Array<Record<string, any>> = [];
+  let t = Date.parse("2025-06-01T00:00:00Z");
+  const logger = createLogger({
+    level,
+    now: () => t,
+    sink: (line) => lines.push(JSON.parse(line)),
+  });
+  return { logger, lines, advance: (ms: number) => { t += ms; } };
+}
+
+describe("logger", () => {
+  test("parses LOG_LEVEL values with a fallback", () => {
+    expect(parseLogLevel("WARN")).toBe("warn");
+    expect(parseLogLevel("verbose")).toBe("info");
+    expect(parseLogLevel(undefined, "error")).toBe("error");
+  });
+
+  test("drops entries below the threshold", () => {
+    const { logger, lines } = capture("warn");
+    logger.debug("d");
+    logger.info("i");
+    logger.warn("w");
+    logger.error("e");
+    expect(lines.map((l) => l.level)).toEqual(["warn", "error"]);
+  });
+
+  test("children carry correlation context and time their own scope", () => {
+    const { logger, lines, advance } = capture();
+    const run = logger.child({ runId: "R1" });
+    advance(1000);
+    const chunk = run.child({ meetingId: "M1", chunkIndex: 2, phase: "chunk" });
+    advance(250);
+    chunk.info("Chunk done", { attempt: 1, skipped: undefined });
+    run.info("Run done");
+
+    expect(lines[0]).toEqual({
+      time: "2025-06-01T00:00:01.250Z", level: "info", msg: "Chunk done",
+      runId: "R1", meetingId: "M1", chunkIndex: 2, phase: "chunk", elapsedMs: 250, attempt: 1,
+    });
+    expect(lines[1]).toMatchObject({ msg: "Run done", runId: "R1", elapsedMs: 1250 });
+    expect(lines[1].meetingId).toBeUndefined();
+  });
+
+  test("serializes errors and survives unserializable fields", () => {
+    const { logger, lines } = capture();
+    const err = Object.assign(new Error("rate limited"), { status: 429 });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    logger.error("LLM call failed", { error: err });
+    logger.warn("odd", { circular });
+
+    expect(lines[0].error).toMatchObject({ name: "Error", message: "rate limited", status: 429 });
+    expect(typeof lines[0].error.stack).toBe("string");
+    expect(lines[1]).toMatchObject({ msg: "odd", circular: "[unserializable]" });
+  });
+});
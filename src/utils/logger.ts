@@ -0,0 +1,110 @@
+// Structured JSON-lines logger.
+//
+// One line per entry on stdout, e.g.
+//   {"time":"…","level":"warn","msg":"Chunk LLM call returned non-JSON","runId":"…","meetingId":"…","chunkIndex":3,"phase":"chunk","elapsedMs":5123}
+// so CloudWatch Logs Insights can filter by runId / meetingId / phase.
+//
+// - LOG_LEVEL (debug | info | warn | error, default info) sets the threshold.
+// - child(context) adds correlation fields; elapsedMs is measured from the
+//   child's creation (a run logger times the run, a meeting logger the meeting).
+// - Error values in fields are serialized as { name, message, stack }.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogContext {
+  runId?: string;
+  meetingId?: string;
+  chunkIndex?: number;
+  phase?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  readonly context: LogContext;
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+  /** Logger with extra context; its elapsedMs starts now. */
+  child(context: LogContext): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;                             // default LOG_LEVEL or "info"
+  context?: LogContext;
+  sink?: (line: string, level: LogLevel) => void; // default: stdout
+  now?: () => number;
+}
+
+export function parseLogLevel(value: string | undefined, fallback: LogLevel = "info"): LogLevel {
+  const v = (value || "").toLowerCase();
+  return v in LEVELS ? (v as LogLevel) : fallback;
+}
+
+function serializeValue(v: unknown): unknown {
+  if (v instanceof Error) {
+    const any = v as any;
+    return { name: v.name, message: v.message, stack: v.stack, ...(any.status != null ? { status: any.status } : {}) };
+  }
+  return v;
+}
+
+const stdoutSink = (line: string) => { process.stdout.write(line + "\n"); };
+
+class JsonLogger implements Logger {
+  private readonly startedAt: number;
+
+  constructor(
+    readonly context: LogContext,
+    private readonly level: LogLevel,
+    private readonly sink: (line: string, level: LogLevel) => void,
+    private readonly now: () => number
+  ) {
+    this.startedAt = now();
+  }
+
+  private write(level: LogLevel, msg: string, fields?: Record<string, unknown>) {
+    if (LEVELS[level] < LEVELS[this.level]) return;
+    const entry: Record<string, unknown> = {
+      time: new Date(this.now()).toISOString(),
+      level,
+      msg,
+      ...this.context,
+      elapsedMs: this.now() - this.startedAt,
+    };
+    for (const [k, v] of Object.entries(fields ?? {})) {
+      if (v !== undefined) entry[k] = serializeValue(v);
+    }
+    let line: string;
+    try {
+      line = JSON.stringify(entry);
+    } catch {
+      // Circular / BigInt fields: keep the entry, drop the fields
+      line = JSON.stringify({ ...entry, ...Object.fromEntries(Object.keys(fields ?? {}).map((k) => [k, "[unserializable]"])) });
+    }
+    this.sink(line, level);
+  }
+
+  debug(msg: string, fields?: Record<string, unknown>) { this.write("debug", msg, fields); }
+  info(msg: string, fields?: Record<string, unknown>) { this.write("info", msg, fields); }
+  warn(msg: string, fields?: Record<string, unknown>) { this.write("warn", msg, fields); }
+  error(msg: string, fields?: Record<string, unknown>) { this.write("error", msg, fields); }
+
+  child(context: LogContext): Logger {
+    return new JsonLogger({ ...this.context, ...context }, this.level, this.sink, this.now);
+  }
+}
+
+export function createLogger(opts: LoggerOptions = {}): Logger {
+  return new JsonLogger(
+    opts.context ?? {},
+    opts.level ?? parseLogLevel(process.env.LOG_LEVEL),
+    opts.sink ?? stdoutSink,
+    opts.now ?? Date.now
+  );
+}
+
+/** Process-wide root logger; derive run / meeting loggers with child(). */
+export const logger: Logger = createLogger();
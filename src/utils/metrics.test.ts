@@ -0,0 +1,67 @@
+import { EmfMetrics, InMemoryMetrics, NoopMetrics, createMetrics } from "@utils/metrics";
+
+describe("metrics", () => {
+  test("EMF groups values by dimension set and writes them on flush", () => {
+    const lines: string[] = [];
+    const m = new EmfMetrics({ namespace: "Test", sink: (l) => lines.push(l), now: () => 1_700_000_000_000 });
+    m.put("LLMLatency", 800, "Milliseconds", { Provider: "gemini", Operation: "generate" });
+    m.put("LLMLatency", 1200, "Milliseconds", { Operation: "generate", Provider: "gemini" });
+    m.put("MeetingsStored", 3);
+    expect(lines).toHaveLength(0);
+
+    m.flush();
+    const entries = lines.map((l) => JSON.parse(l));
+    expect(entries).toEqual([
+      {
+        _aws: {
+          Timestamp: 1_700_000_000_000,
+          CloudWatchMetrics: [{
+            Namespace: "Test",
+            Dimensions: [["Provider", "Operation"]],
+            Metrics: [{ Name: "LLMLatency", Unit: "Milliseconds" }],
+          }],
+        },
+        Provider: "gemini",
+        Operation: "generate",
+        LLMLatency: [800, 1200],
+      },
+      {
+        _aws: {
+          Timestamp: 1_700_000_000_000,
+          CloudWatchMetrics: [{ Namespace: "Test", Dimensions: [[]], Metrics: [{ Name: "MeetingsStored", Unit: "Count" }] }],
+        },
+        MeetingsStored: 3,
+      },
+    ]);
+
+    m.flush();
+    expect(lines).toHaveLength(2); // buffer emptied
+  });
+
+  test("EMF flushes a group once a metric reaches 100 values", () => {
+    const lines: string[] = [];
+    const m = new EmfMetrics({ sink: (l) => lines.push(l) });
+    for (let i = 0; i < 101; i++) m.put("Chunks", 1);
+    m.put("Ignored", Number.NaN);
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).Chunks).toHaveLength(100);
+    m.flush();
+    expect(JSON.parse(lines[1]).Chunks).toBe(1);
+    expect(lines).toHaveLength(2);
+  });
+
+  test("in-memory recorder filters by name and dimensions", () => {
+    const m = new InMemoryMetrics();
+    m.put("LLMRetries", 1, "Count", { Provider: "groq" });
+    m.put("LLMRetries", 2, "Count", { Provider: "gemini" });
+    expect(m.sum("LLMRetries")).toBe(3);
+    expect(m.values("LLMRetries", { Provider: "groq" })).toEqual([1]);
+  });
+
+  test("EMF is enabled in Lambda or by METRICS_ENABLED", () => {
+    expect(createMetrics({})).toBeInstanceOf(NoopMetrics);
+    expect(createMetrics({ AWS_LAMBDA_FUNCTION_NAME: "fn" })).toBeInstanceOf(EmfMetrics);
+    expect(createMetrics({ AWS_LAMBDA_FUNCTION_NAME: "fn", METRICS_ENABLED: "false" })).toBeInstanceOf(NoopMetrics);
+    expect(createMetrics({ METRICS_ENABLED: "true" })).toBeInstanceOf(EmfMetrics);
+  });
+});
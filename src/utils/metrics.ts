@@ -0,0 +1,120 @@
+// Metrics in CloudWatch Embedded Metric Format (EMF).
+//
+// EMF metrics are JSON log lines that CloudWatch turns into metrics, so the
+// Lambdas need no PutMetricData permission or extra API calls:
+//   {"_aws":{"Timestamp":…,"CloudWatchMetrics":[{"Namespace":"PoliTopics","Dimensions":[["Provider"]],
+//     "Metrics":[{"Name":"LLMLatency","Unit":"Milliseconds"}]}]},"Provider":"gemini","LLMLatency":[812,1034]}
+//
+// - Values are buffered per dimension set and written on flush() (entry points
+//   flush before returning) or when a metric reaches 100 values (the EMF limit).
+// - METRICS_ENABLED (default: on inside Lambda, off elsewhere) selects EMF or no-op;
+//   METRICS_NAMESPACE sets the namespace (default PoliTopics).
+// - InMemoryMetrics keeps every value for assertions in tests.
+
+export type MetricUnit = "Count" | "Milliseconds" | "Seconds" | "Bytes" | "None";
+export type Dimensions = Record<string, string>;
+
+export interface MetricDatum {
+  name: string;
+  value: number;
+  unit: MetricUnit;
+  dimensions: Dimensions;
+}
+
+export interface Metrics {
+  /** Record one value; dimensions split the metric (keep them low-cardinality). */
+  put(name: string, value: number, unit?: MetricUnit, dimensions?: Dimensions): void;
+  /** Write buffered values. */
+  flush(): void;
+}
+
+export class NoopMetrics implements Metrics {
+  put() { /* disabled */ }
+  flush() { /* disabled */ }
+}
+
+export class InMemoryMetrics implements Metrics {
+  readonly data: MetricDatum[] = [];
+
+  put(name: string, value: number, unit: MetricUnit = "Count", dimensions: Dimensions = {}) {
+    this.data.push({ name, value, unit, dimensions });
+  }
+
+  flush() { /* nothing buffered */ }
+
+  /** Values of a metric whose dimensions include `dimensions`. */
+  values(name: string, dimensions: Dimensions = {}): number[] {
+    return this.data
+      .filter((d) => d.name === name && Object.entries(dimensions).every(([k, v]) => d.dimensions[k] === v))
+      .map((d) => d.value);
+  }
+
+  sum(name: string, dimensions?: Dimensions): number {
+    return this.values(name, dimensions).reduce((a, b) => a + b, 0);
+  }
+}
+
+const MAX_VALUES_PER_METRIC = 100;
+
+type Group = { dimensions: Dimensions; metrics: Map<string, { unit: MetricUnit; values: number[] }> };
+
+export class EmfMetrics implements Metrics {
+  private readonly namespace: string;
+  private readonly sink: (line: string) => void;
+  private readonly now: () => number;
+  private readonly groups = new Map<string, Group>();
+
+  constructor(opts: { namespace?: string; sink?: (line: string) => void; now?: () => number } = {}) {
+    this.namespace = opts.namespace ?? (process.env.METRICS_NAMESPACE || "PoliTopics");
+    this.sink = opts.sink ?? ((line) => { process.stdout.write(line + "\n"); });
+    this.now = opts.now ?? Date.now;
+  }
+
+  put(name: string, value: number, unit: MetricUnit = "Count", dimensions: Dimensions = {}) {
+    if (!Number.isFinite(value)) return;
+    const key = JSON.stringify(Object.entries(dimensions).sort(([a], [b]) => a.localeCompare(b)));
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { dimensions: { ...dimensions }, metrics: new Map() };
+      this.groups.set(key, group);
+    }
+    let metric = group.metrics.get(name);
+    if (!metric) {
+      metric = { unit, values: [] };
+      group.metrics.set(name, metric);
+    }
+    metric.values.push(value);
+    if (metric.values.length >= MAX_VALUES_PER_METRIC) this.flushGroup(key, group);
+  }
+
+  flush() {
+    for (const [key, group] of [...this.groups]) this.flushGroup(key, group);
+  }
+
+  private flushGroup(key: string, group: Group) {
+    this.groups.delete(key);
+    if (!group.metrics.size) return;
+    const entry: Record<string, unknown> = {
+      _aws: {
+        Timestamp: this.now(),
+        CloudWatchMetrics: [{
+          Namespace: this.namespace,
+          Dimensions: [Object.keys(group.dimensions)],
+          Metrics: [...group.metrics].map(([Name, m]) => ({ Name, Unit: m.unit })),
+        }],
+      },
+      ...group.dimensions,
+    };
+    for (const [name, m] of group.metrics) entry[name] = m.values.length === 1 ? m.values[0] : m.values;
+    this.sink(JSON.stringify(entry));
+  }
+}
+
+export function createMetrics(env: NodeJS.ProcessEnv = process.env): Metrics {
+  const flag = (env.METRICS_ENABLED || "").toLowerCase();
+  const enabled = flag ? ["1", "true", "yes", "on"].includes(flag) : !!env.AWS_LAMBDA_FUNCTION_NAME;
+  return enabled ? new EmfMetrics({ namespace: env.METRICS_NAMESPACE || "PoliTopics" }) : new NoopMetrics();
+}
+
+/** Process-wide recorder used when none is injected. */
+export const metrics: Metrics = createMetrics();
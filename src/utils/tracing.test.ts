@@ -0,0 +1,90 @@
+import os from "node:os";
+import path from "node:path";
+import fs from "fs-extra";
+
+import { FileSpanExporter, InMemorySpanExporter, Tracer, createTracer, toOtlpRequest } from "@utils/tracing";
+
+function setup() {
+  const exporter = new InMemorySpanExporter();
+  let t = 1_000;
+  const tracer = new Tracer(exporter, { now: () => (t += 5) });
+  return { exporter, tracer };
+}
+
+describe("tracing", () => {
+  test("nests spans across awaits and exports them on flush", async () => {
+    const { exporter, tracer } = setup();
+    await tracer.withSpan("run", { runId: "R1" }, async () => {
+      await Promise.all([0, 1].map((i) =>
+        tracer.withSpan("chunk", { chunkIndex: i }, async (span) => {
+          await new Promise((r) => setTimeout(r, 1));
+          await tracer.withSpan("llm.generateObject", { "llm.attempt": 1 }, async () => undefined);
+          span.setAttribute("nonJson", false);
+        })
+      ));
+    });
+    expect(exporter.spans).toHaveLength(0);
+    await tracer.flush();
+
+    const byName = (name: string) => exporter.spans.filter((s) => s.name === name);
+    const [run] = byName("run");
+    const chunks = byName("chunk");
+    const calls = byName("llm.generateObject");
+    expect(run.parentSpanId).toBeUndefined();
+    expect(chunks.map((c) => c.parentSpanId)).toEqual([run.spanId, run.spanId]);
+    expect(calls.map((c) => c.parentSpanId).sort()).toEqual(chunks.map((c) => c.spanId).sort());
+    expect(new Set(exporter.spans.map((s) => s.traceId))).toEqual(new Set([run.traceId]));
+    expect(chunks[0].attributes).toMatchObject({ nonJson: false });
+    expect(run.endTimeMs).toBeGreaterThan(run.startTimeMs);
+    expect(run.status).toEqual({ code: "ok" });
+  });
+
+  test("records errors and rethrows", async () => {
+    const { exporter, tracer } = setup();
+    await expect(tracer.withSpan("store", {}, async () => { throw new Error("ddb down"); })).rejects.toThrow("ddb down");
+    await tracer.flush();
+    expect(exporter.spans[0].status).toEqual({ code: "error", message: "ddb down" });
+    expect(exporter.spans[0].events[0]).toMatchObject({ name: "exception", attributes: { "exception.message": "ddb down" } });
+  });
+
+  test("encodes OTLP JSON", () => {
+    const req = toOtlpRequest([{
+      traceId: "a".repeat(32), spanId: "b".repeat(16), name: "llm.generate",
+      startTimeMs: 1_700_000_000_000, endTimeMs: 1_700_000_000_250,
+      attributes: { "llm.model": "gemini-2.5-pro", "llm.total_tokens": 1200, ratio: 0.5, ok: true },
+      events: [], status: { code: "ok" },
+    }], "svc");
+    const span = req.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(req.resourceSpans[0].resource.attributes).toEqual([{ key: "service.name", value: { stringValue: "svc" } }]);
+    expect(span.startTimeUnixNano).toBe("1700000000000000000");
+    expect(span.attributes).toEqual([
+      { key: "llm.model", value: { stringValue: "gemini-2.5-pro" } },
+      { key: "llm.total_tokens", value: { intValue: 1200 } },
+      { key: "ratio", value: { doubleValue: 0.5 } },
+      { key: "ok", value: { boolValue: true } },
+    ]);
+    expect(span.status).toEqual({ code: 1 });
+  });
+
+  test("file exporter appends one span per line", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "traces-"));
+    const file = path.join(dir, "nested", "traces.jsonl");
+    const tracer = new Tracer(new FileSpanExporter(file));
+    await tracer.withSpan("fetch", { source: "api" }, async () => undefined);
+    await tracer.flush();
+    await tracer.withSpan("store", {}, async () => undefined);
+    await tracer.flush();
+
+    const lines = (await fs.readFile(file, "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.name)).toEqual(["fetch", "store"]);
+    expect(typeof lines[0].durationMs).toBe("number");
+    await fs.remove(dir);
+  });
+
+  test("exporter is chosen from the environment", async () => {
+    const none = createTracer({});
+    await none.withSpan("x", {}, async () => undefined);
+    await expect(none.flush()).resolves.toBeUndefined();
+    expect(createTracer({ TRACE_EXPORTER: "file", OUT_DIR: "/tmp/none" })).toBeInstanceOf(Tracer);
+  });
+});
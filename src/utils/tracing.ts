@@ -0,0 +1,269 @@
+// Lightweight tracing with OpenTelemetry-shaped spans.
+//
+// - withSpan(name, attributes, fn) runs fn inside a span; spans started inside it
+//   (across awaits, via AsyncLocalStorage) become its children, so the Diet API,
+//   LLM and DynamoDB spans nest under the run / meeting / chunk spans without
+//   threading a parent through every call.
+// - Finished spans are buffered and exported on flush() (entry points flush before
+//   returning) or once 512 spans are buffered.
+// - TRACE_EXPORTER selects the exporter:
+//     otlp — OTLP/HTTP JSON to OTEL_EXPORTER_OTLP_ENDPOINT (+ "/v1/traces"),
+//            headers from OTEL_EXPORTER_OTLP_HEADERS ("k=v,k2=v2")
+//     file — one JSON span per line appended to TRACE_FILE (default out/traces.jsonl)
+//     none — spans are dropped (default unless OTEL_EXPORTER_OTLP_ENDPOINT is set)
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import crypto from "node:crypto";
+import path from "node:path";
+import fs from "fs-extra";
+
+import { logger } from "./logger";
+
+export type AttributeValue = string | number | boolean | string[] | number[];
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface SpanEvent {
+  name: string;
+  timeMs: number;
+  attributes?: Record<string, AttributeValue>;
+}
+
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: Record<string, AttributeValue>;
+  events: SpanEvent[];
+  status: { code: "unset" | "ok" | "error"; message?: string };
+}
+
+export interface SpanExporter {
+  export(spans: SpanRecord[]): Promise<void>;
+}
+
+const randomHex = (bytes: number) => crypto.randomBytes(bytes).toString("hex");
+
+function compact(attributes: Attributes = {}): Record<string, AttributeValue> {
+  const out: Record<string, AttributeValue> = {};
+  for (const [k, v] of Object.entries(attributes)) if (v !== undefined) out[k] = v;
+  return out;
+}
+
+export class Span {
+  readonly spanId = randomHex(8);
+  private readonly attributes: Record<string, AttributeValue>;
+  private readonly events: SpanEvent[] = [];
+  private readonly startTimeMs: number;
+  private status: SpanRecord["status"] = { code: "unset" };
+  private ended = false;
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    readonly traceId: string,
+    readonly parentSpanId: string | undefined,
+    attributes?: Attributes
+  ) {
+    this.attributes = compact(attributes);
+    this.startTimeMs = tracer.now();
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined) {
+    if (value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: Attributes) {
+    Object.assign(this.attributes, compact(attributes));
+    return this;
+  }
+
+  addEvent(name: string, attributes?: Attributes) {
+    this.events.push({ name, timeMs: this.tracer.now(), attributes: compact(attributes) });
+    return this;
+  }
+
+  /** Mark the span failed and attach the error as an "exception" event. */
+  recordError(e: unknown) {
+    const err = e instanceof Error ? e : new Error(String(e));
+    this.status = { code: "error", message: err.message };
+    this.addEvent("exception", { "exception.type": err.name, "exception.message": err.message, "exception.stacktrace": err.stack });
+    return this;
+  }
+
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+    this.tracer.onEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      startTimeMs: this.startTimeMs,
+      endTimeMs: this.tracer.now(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status.code === "unset" ? { code: "ok" } : this.status,
+    });
+  }
+}
+
+const activeSpans = new AsyncLocalStorage<Span>();
+
+export class Tracer {
+  private buffer: SpanRecord[] = [];
+  private readonly maxBuffered: number;
+  readonly now: () => number;
+
+  constructor(private readonly exporter?: SpanExporter, opts: { now?: () => number; maxBuffered?: number } = {}) {
+    this.now = opts.now ?? Date.now;
+    this.maxBuffered = opts.maxBuffered ?? 512;
+  }
+
+  /** The span of the enclosing withSpan call, if any. */
+  activeSpan(): Span | undefined {
+    return activeSpans.getStore();
+  }
+
+  /** Start a span (child of the active span unless `parent` is given); call end() when done. */
+  startSpan(name: string, attributes?: Attributes, parent: Span | undefined = this.activeSpan()): Span {
+    return new Span(this, name, parent?.traceId ?? randomHex(16), parent?.spanId, attributes);
+  }
+
+  /** Run fn inside a new span, ending it (and recording any error) when fn settles. */
+  async withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, attributes);
+    try {
+      return await activeSpans.run(span, () => fn(span));
+    } catch (e) {
+      span.recordError(e);
+      throw e;
+    } finally {
+      span.end();
+    }
+  }
+
+  /** @internal called by Span.end() */
+  onEnd(record: SpanRecord) {
+    if (!this.exporter) return;
+    this.buffer.push(record);
+    if (this.buffer.length >= this.maxBuffered) void this.flush();
+  }
+
+  /** Export buffered spans; export failures are logged, never thrown. */
+  async flush(): Promise<void> {
+    if (!this.exporter || !this.buffer.length) return;
+    const spans = this.buffer;
+    this.buffer = [];
+    try {
+      await this.exporter.export(spans);
+    } catch (e) {
+      logger.warn("Failed to export spans", { component: "tracing", spans: spans.length, error: e });
+    }
+  }
+}
+
+// ==========================
+// Exporters
+// ==========================
+export class InMemorySpanExporter implements SpanExporter {
+  readonly spans: SpanRecord[] = [];
+  async export(spans: SpanRecord[]) { this.spans.push(...spans); }
+}
+
+/** Appends one JSON span per line, for offline inspection (jq, scripts). */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {}
+
+  async export(spans: SpanRecord[]) {
+    await fs.ensureDir(path.dirname(this.filePath));
+    await fs.appendFile(this.filePath, spans.map((s) => JSON.stringify({
+      ...s,
+      durationMs: s.endTimeMs - s.startTimeMs,
+    }) + "\n").join(""));
+  }
+}
+
+function otlpValue(v: AttributeValue): Record<string, unknown> {
+  if (Array.isArray(v)) return { arrayValue: { values: (v as AttributeValue[]).map(otlpValue) } };
+  if (typeof v === "boolean") return { boolValue: v };
+  if (typeof v === "number") return Number.isInteger(v) ? { intValue: v } : { doubleValue: v };
+  return { stringValue: v };
+}
+
+const otlpAttributes = (attrs: Record<string, AttributeValue> = {}) =>
+  Object.entries(attrs).map(([key, value]) => ({ key, value: otlpValue(value) }));
+
+const toNanos = (ms: number) => (BigInt(Math.round(ms)) * 1_000_000n).toString();
+
+/** OTLP/HTTP JSON encoding of one export request. */
+export function toOtlpRequest(spans: SpanRecord[], serviceName: string) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: otlpAttributes({ "service.name": serviceName }) },
+      scopeSpans: [{
+        scope: { name: "politopics" },
+        spans: spans.map((s) => ({
+          traceId: s.traceId,
+          spanId: s.spanId,
+          ...(s.parentSpanId ? { parentSpanId: s.parentSpanId } : {}),
+          name: s.name,
+          kind: 1, // SPAN_KIND_INTERNAL
+          startTimeUnixNano: toNanos(s.startTimeMs),
+          endTimeUnixNano: toNanos(s.endTimeMs),
+          attributes: otlpAttributes(s.attributes),
+          events: s.events.map((e) => ({ name: e.name, timeUnixNano: toNanos(e.timeMs), attributes: otlpAttributes(e.attributes) })),
+          status: s.status.code === "error" ? { code: 2, message: s.status.message } : { code: 1 },
+        })),
+      }],
+    }],
+  };
+}
+
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private readonly url: string;
+
+  constructor(private readonly opts: { endpoint: string; headers?: Record<string, string>; serviceName?: string; timeoutMs?: number }) {
+    this.url = opts.endpoint.replace(/\/$/, "").replace(/(\/v1\/traces)?$/, "/v1/traces");
+  }
+
+  async export(spans: SpanRecord[]) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...(this.opts.headers ?? {}) },
+      body: JSON.stringify(toOtlpRequest(spans, this.opts.serviceName ?? "politopics-c")),
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 5_000),
+    });
+    if (!res.ok) throw new Error(`OTLP export failed: ${res.status} ${res.statusText}`);
+  }
+}
+
+function parseHeaders(value?: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const pair of (value || "").split(",")) {
+    const i = pair.indexOf("=");
+    if (i > 0) out[pair.slice(0, i).trim()] = decodeURIComponent(pair.slice(i + 1).trim());
+  }
+  return out;
+}
+
+export function createTracer(env: NodeJS.ProcessEnv = process.env): Tracer {
+  const kind = (env.TRACE_EXPORTER || (env.OTEL_EXPORTER_OTLP_ENDPOINT ? "otlp" : "none")).toLowerCase();
+  if (kind === "file") {
+    return new Tracer(new FileSpanExporter(env.TRACE_FILE || path.join(env.OUT_DIR || "out", "traces.jsonl")));
+  }
+  if (kind === "otlp" && env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return new Tracer(new OtlpHttpSpanExporter({
+      endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      headers: parseHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+      serviceName: env.OTEL_SERVICE_NAME || "politopics-c",
+    }));
+  }
+  return new Tracer();
+}
+
+/** Process-wide tracer. */
+export const tracer: Tracer = createTracer();
@@ -27,7 +27,10 @@ data "aws_iam_policy_document" "ddb_doc" {
   statement {
     effect = "Allow"
     actions = [
+      "dynamodb:GetItem",
       "dynamodb:PutItem",
+      "dynamodb:UpdateItem",
+      "dynamodb:Query",
       "dynamodb:BatchWriteItem",
     ]
     resources = [
@@ -48,11 +51,11 @@ resource "aws_iam_role_policy_attachment" "ddb_attach" {
 }
 
 #############################################
-# S3 policy for error/success logs (bucket must exist)
+# S3 policy for error payloads and large run payloads (bucket must exist)
 #############################################
 data "aws_iam_policy_document" "s3_doc" {
   statement {
-    sid    = "AllowWriteToErrorAndSuccessPrefixes"
+    sid    = "AllowWriteToErrorAndRunPrefixes"
     effect = "Allow"
     actions = [
       "s3:PutObject",
@@ -60,9 +63,26 @@ data "aws_iam_policy_document" "s3_doc" {
     ]
     resources = [
       "${aws_s3_bucket.logs.arn}/error/*",
-      "${aws_s3_bucket.logs.arn}/success/*",
+      "${aws_s3_bucket.logs.arn}/runs/*",
     ]
   }
+
+  statement {
+    sid    = "AllowRawArchiveReadWrite"
+    effect = "Allow"
+    actions = [
+      "s3:PutObject",
+      "s3:GetObject",
+    ]
+    resources = ["${aws_s3_bucket.raw_archive.arn}/raw/*"]
+  }
+
+  statement {
+    sid       = "AllowRawArchiveList"
+    effect    = "Allow"
+    actions   = ["s3:ListBucket"]
+    resources = [aws_s3_bucket.raw_archive.arn]
+  }
 }
 
 resource "aws_iam_policy" "s3_policy" {
@@ -75,6 +95,83 @@ resource "aws_iam_role_policy_attachment" "s3_attach" {
   policy_arn = aws_iam_policy.s3_policy.arn
 }
 
+#############################################
+# Self-invoke (POST /run hands the run to an async invocation)
+#############################################
+data "aws_iam_policy_document" "invoke_self_doc" {
+  statement {
+    sid     = "AllowAsyncSelfInvoke"
+    effect  = "Allow"
+    actions = ["lambda:InvokeFunction"]
+    # Built from the fixed name to avoid a dependency cycle with the function
+    resources = ["arn:aws:lambda:${data.aws_region.current.name}:${data.aws_caller_identity.current.account_id}:function:politopics-c"]
+  }
+}
+
+resource "aws_iam_policy" "invoke_self_policy" {
+  name   = "${local.name}-invoke-self-policy"
+  policy = data.aws_iam_policy_document.invoke_self_doc.json
+}
+
+resource "aws_iam_role_policy_attachment" "invoke_self_attach" {
+  role       = aws_iam_role.lambda_role.name
+  policy_arn = aws_iam_policy.invoke_self_policy.arn
+}
+
+#############################################
+# Lambda environment (shared by all functions)
+#############################################
+locals {
+  lambda_env = {
+    # Node.js runtime tuning
+    NODE_OPTIONS                        = "--enable-source-maps"
+    AWS_NODEJS_CONNECTION_REUSE_ENABLED = "1"
+
+    # Single DynamoDB table (new)
+    POLITOPICS_TABLE_NAME = aws_dynamodb_table.politopics.name
+
+    # Error logging sink
+    ERROR_BUCKET = aws_s3_bucket.logs.bucket
+
+    # Raw National Diet API archive (replay with source=archive)
+    RAW_ARCHIVE_BUCKET = aws_s3_bucket.raw_archive.bucket
+
+    # Secrets and config (passed via TF vars)
+    LLM_PROVIDER               = var.llm_provider
+    GEMINI_API_KEY             = var.gemini_api_key
+    GROQ_API_KEY               = var.groq_api_key
+    NATIONAL_DIET_API_ENDPOINT = var.national_diet_api_endpoint
+    RUN_API_KEY                = var.run_api_key
+
+    # LLM configuration
+    GEMINI_MODEL_NAME       = var.gemini_model_name
+    GROQ_MODEL_NAME         = var.groq_model_name
+    CHAR_THRESHOLD          = var.char_threshhold
+    GEMINI_BURST_LIMIT      = var.llm_burst
+    LLM_CHUNK_CONCURRENCY   = var.llm_chunk_concurrency
+    LLM_RPS                 = var.llm_rps
+    LLM_REDUCE_CONCURRENCY  = var.llm_reduce_concurrency
+    LLM_PRICE_TABLE         = var.llm_price_table
+    LLM_FALLBACK_PROVIDER   = var.llm_fallback_provider
+    LLM_FALLBACK_MODEL      = var.llm_fallback_model
+    QUALITY_REVIEW_BELOW    = var.quality_review_below
+    QUALITY_REQUEUE_BELOW   = var.quality_requeue_below
+    LOG_LEVEL               = var.log_level
+    OTEL_EXPORTER_OTLP_ENDPOINT = var.otlp_endpoint
+
+    # Queue mode consumer: the last delivery before the DLQ marks a meeting failed
+    MEETING_QUEUE_MAX_RECEIVE = var.meeting_queue_max_receive_count
+
+    # Run failure notifications
+    NOTIFY_SNS_TOPIC_ARN = aws_sns_topic.run_alerts.arn
+    NOTIFY_WEBHOOK_URL   = var.notify_webhook_url
+
+    # Optional date filters
+    FROM_DATE  = var.from_date
+    UNTIL_DATE = var.until_date
+  }
+}
+
 #############################################
 # Lambda function (fixed name: politopics-c)
 #############################################
@@ -93,39 +190,19 @@ resource "aws_lambda_function" "handler" {
   memory_size   = 256
   architectures = ["arm64"]
 
-  # Environment variables
+  # Environment variables (shared with the SQS consumer, see sqs.tf)
   environment {
-    variables = {
-      # Node.js runtime tuning
-      NODE_OPTIONS                        = "--enable-source-maps"
-      AWS_NODEJS_CONNECTION_REUSE_ENABLED = "1"
-
-      # Single DynamoDB table (new)
-      POLITOPICS_TABLE_NAME = aws_dynamodb_table.politopics.name
-
-      # Error logging sink
-      ERROR_BUCKET = aws_s3_bucket.logs.bucket
-
-      # Secrets and config (passed via TF vars)
-      LLM_PROVIDER               = var.llm_provider
-      GEMINI_API_KEY             = var.gemini_api_key
-      GROQ_API_KEY               = var.groq_api_key
-      NATIONAL_DIET_API_ENDPOINT = var.national_diet_api_endpoint
-      RUN_API_KEY                = var.run_api_key
-
-      # LLM configuration
-      GEMINI_MODEL_NAME       = var.gemini_model_name
-      GROQ_MODEL_NAME         = var.groq_model_name
-      CHAR_THRESHOLD          = var.char_threshhold
-      GEMINI_BURST_LIMIT      = var.llm_burst
-      LLM_CHUNK_CONCURRENCY   = var.llm_chunk_concurrency
-      LLM_RPS                 = var.llm_rps
-      LLM_REDUCE_CONCURRENCY  = var.llm_reduce_concurrency
-
-      # Optional date filters
-      FROM_DATE  = var.from_date
-      UNTIL_DATE = var.until_date
-    }
+    variables = merge(local.lambda_env, {
+      # Queue mode producer: one message per meeting
+      MEETING_QUEUE_URL = aws_sqs_queue.meetings.url
+      PIPELINE_MODE     = var.pipeline_mode
+
+      # Resume: a queued/running run idle longer than a consumer invocation was abandoned
+      RUN_STALE_AFTER_SECONDS = var.meeting_consumer_timeout + 60
+
+      # HTTP API keys (RUN_API_KEY remains the bootstrap admin key)
+      PUBLIC_READ_API = tostring(var.public_read_api)
+    })
   }
 
   tags = local.tags
@@ -164,7 +241,8 @@ resource "aws_apigatewayv2_api" "http" {
 
   cors_configuration {
     allow_origins = ["*"]
-    allow_methods = ["GET", "POST"]
+    allow_methods = ["GET", "POST", "DELETE"]
+    allow_headers = ["content-type", "x-api-key"]
   }
 
   tags = local.tags
@@ -186,6 +264,46 @@ resource "aws_apigatewayv2_route" "post_run" {
   target    = "integrations/${aws_apigatewayv2_integration.lambda.id}"
 }
 
+# GET routes: reads + run status (x-api-key and scopes checked in the handler)
+locals {
+  read_routes = [
+    "GET /runs",
+    "GET /runs/{runId}",
+    "GET /articles",
+    "GET /articles/{id}",
+    "GET /categories/{name}",
+    "GET /persons/{name}",
+    "GET /keywords/{kw}",
+    "GET /sessions/{n}",
+    "GET /houses/{h}",
+    "GET /meetings/{m}",
+  ]
+}
+
+resource "aws_apigatewayv2_route" "read" {
+  for_each  = toset(local.read_routes)
+  api_id    = aws_apigatewayv2_api.http.id
+  route_key = each.value
+  target    = "integrations/${aws_apigatewayv2_integration.lambda.id}"
+}
+
+# API key management (admin scope, checked in the handler)
+locals {
+  admin_routes = [
+    "GET /apikeys",
+    "POST /apikeys",
+    "POST /apikeys/{keyId}/rotate",
+    "DELETE /apikeys/{keyId}",
+  ]
+}
+
+resource "aws_apigatewayv2_route" "admin" {
+  for_each  = toset(local.admin_routes)
+  api_id    = aws_apigatewayv2_api.http.id
+  route_key = each.value
+  target    = "integrations/${aws_apigatewayv2_integration.lambda.id}"
+}
+
 # Default stage (auto deploy)
 resource "aws_apigatewayv2_stage" "default" {
   api_id      = aws_apigatewayv2_api.http.id
@@ -206,3 +324,27 @@ resource "aws_lambda_permission" "allow_apigw" {
   # Depend on stage so the execution ARN shape is settled (route may be imported).
   depends_on = [aws_apigatewayv2_stage.default]
 }
+
+resource "aws_lambda_permission" "allow_apigw_read" {
+  statement_id  = "AllowReadFromAPIGatewayV2"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_apigatewayv2_api.http.execution_arn}/${aws_apigatewayv2_stage.default.name}/GET/*"
+
+  depends_on = [aws_apigatewayv2_stage.default]
+}
+
+resource "aws_lambda_permission" "allow_apigw_admin" {
+  for_each = {
+    AllowApiKeysPostFromAPIGatewayV2   = "POST/apikeys*"
+    AllowApiKeysDeleteFromAPIGatewayV2 = "DELETE/apikeys/*"
+  }
+  statement_id  = each.key
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_apigatewayv2_api.http.execution_arn}/${aws_apigatewayv2_stage.default.name}/${each.value}"
+
+  depends_on = [aws_apigatewayv2_stage.default]
+}
@@ -6,6 +6,10 @@ output "log_bucket" {
   value = aws_s3_bucket.logs.bucket
 }
 
+output "raw_archive_bucket" {
+  value = aws_s3_bucket.raw_archive.bucket
+}
+
 output "function_name" {
   value = aws_lambda_function.handler.function_name
 }
@@ -13,3 +17,15 @@ output "function_name" {
 output "api_url" {
   value = aws_apigatewayv2_api.http.api_endpoint
 }
+
+output "consumer_function_name" {
+  value = aws_lambda_function.consumer.function_name
+}
+
+output "meeting_queue_url" {
+  value = aws_sqs_queue.meetings.url
+}
+
+output "meeting_dlq_url" {
+  value = aws_sqs_queue.meetings_dlq.url
+}
@@ -25,3 +25,17 @@ resource "aws_s3_bucket_lifecycle_configuration" "logs" {
     }
   }
 }
+
+# Raw National Diet API records (replayable archive). No expiration: this is the source of truth for re-summarizing.
+resource "aws_s3_bucket" "raw_archive" {
+  bucket = "politopics-raw-archive-${data.aws_caller_identity.current.account_id}-${data.aws_region.current.name}"
+  tags   = local.tags
+}
+
+resource "aws_s3_bucket_versioning" "raw_archive" {
+  bucket = aws_s3_bucket.raw_archive.id
+
+  versioning_configuration {
+    status = "Enabled"
+  }
+}
@@ -0,0 +1,35 @@
+#############################################
+# Run failure notifications
+#   politopics-c publishes a summary when a run finishes with failures
+#   or fails as a whole; subscribe e-mail / chat integrations to the topic.
+#############################################
+resource "aws_sns_topic" "run_alerts" {
+  name = "${local.name}-run-alerts"
+  tags = local.tags
+}
+
+resource "aws_sns_topic_subscription" "run_alerts_email" {
+  for_each  = toset(var.notify_emails)
+  topic_arn = aws_sns_topic.run_alerts.arn
+  protocol  = "email"
+  endpoint  = each.value
+}
+
+data "aws_iam_policy_document" "sns_doc" {
+  statement {
+    sid       = "AllowPublishRunAlerts"
+    effect    = "Allow"
+    actions   = ["sns:Publish"]
+    resources = [aws_sns_topic.run_alerts.arn]
+  }
+}
+
+resource "aws_iam_policy" "sns_policy" {
+  name   = "${local.name}-sns-policy"
+  policy = data.aws_iam_policy_document.sns_doc.json
+}
+
+resource "aws_iam_role_policy_attachment" "sns_attach" {
+  role       = aws_iam_role.lambda_role.name
+  policy_arn = aws_iam_policy.sns_policy.arn
+}
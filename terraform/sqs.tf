@@ -0,0 +1,92 @@
+#############################################
+# SQS fan-out (PIPELINE_MODE=queue)
+#   politopics-c enqueues one message per meeting;
+#   politopics-c-consumer summarizes + stores each meeting.
+#############################################
+resource "aws_sqs_queue" "meetings_dlq" {
+  name                      = "${local.name}-meetings-dlq"
+  message_retention_seconds = 1209600 # 14 days
+  tags                      = local.tags
+}
+
+resource "aws_sqs_queue" "meetings" {
+  name = "${local.name}-meetings"
+
+  # Must exceed the consumer timeout so in-flight meetings are not redelivered
+  visibility_timeout_seconds = var.meeting_consumer_timeout + 60
+  message_retention_seconds  = 345600 # 4 days
+
+  redrive_policy = jsonencode({
+    deadLetterTargetArn = aws_sqs_queue.meetings_dlq.arn
+    maxReceiveCount     = var.meeting_queue_max_receive_count
+  })
+
+  tags = local.tags
+}
+
+#############################################
+# SQS permissions (producer + consumer share the Lambda role)
+#############################################
+data "aws_iam_policy_document" "sqs_doc" {
+  statement {
+    sid       = "AllowEnqueueMeetings"
+    effect    = "Allow"
+    actions   = ["sqs:SendMessage"]
+    resources = [aws_sqs_queue.meetings.arn]
+  }
+
+  statement {
+    sid    = "AllowConsumeMeetings"
+    effect = "Allow"
+    actions = [
+      "sqs:ReceiveMessage",
+      "sqs:DeleteMessage",
+      "sqs:GetQueueAttributes",
+      "sqs:ChangeMessageVisibility",
+    ]
+    resources = [aws_sqs_queue.meetings.arn]
+  }
+}
+
+resource "aws_iam_policy" "sqs_policy" {
+  name   = "${local.name}-sqs-policy"
+  policy = data.aws_iam_policy_document.sqs_doc.json
+}
+
+resource "aws_iam_role_policy_attachment" "sqs_attach" {
+  role       = aws_iam_role.lambda_role.name
+  policy_arn = aws_iam_policy.sqs_policy.arn
+}
+
+#############################################
+# Consumer Lambda (same package, sqs_handler.handler)
+#############################################
+resource "aws_lambda_function" "consumer" {
+  function_name = "politopics-c-consumer"
+  role          = aws_iam_role.lambda_role.arn
+  runtime       = "nodejs22.x"
+  handler       = "sqs_handler.handler"
+
+  filename         = var.lambda_zip_path
+  source_code_hash = filebase64sha256(var.lambda_zip_path)
+
+  timeout       = var.meeting_consumer_timeout
+  memory_size   = 256
+  architectures = ["arm64"]
+
+  # Caps parallel meetings (and therefore LLM load)
+  reserved_concurrent_executions = var.meeting_consumer_concurrency
+
+  environment {
+    variables = local.lambda_env
+  }
+
+  tags = local.tags
+}
+
+resource "aws_lambda_event_source_mapping" "meetings" {
+  event_source_arn        = aws_sqs_queue.meetings.arn
+  function_name           = aws_lambda_function.consumer.arn
+  batch_size              = 1
+  function_response_types = ["ReportBatchItemFailures"]
+}
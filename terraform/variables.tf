@@ -72,7 +72,13 @@ variable "until_date" {
 variable "run_api_key" {
   type        = string
   sensitive   = true
-  description = "API key for POST /run (validated against x-api-key header)"
+  description = "Bootstrap admin API key (x-api-key header); use it to create scoped keys via POST /apikeys"
+}
+
+variable "public_read_api" {
+  type        = bool
+  default     = false
+  description = "Serve the read routes without an API key (otherwise the articles:read scope is required)"
 }
 
 variable "char_threshhold" {
@@ -102,6 +108,61 @@ variable "llm_reduce_concurrency" {
   description = "Concurrency for LLM reduce processing"
 }
 
+variable "llm_price_table" {
+  type        = string
+  default     = ""
+  description = "JSON price table for cost accounting: {\"<model>\": {\"inputPerMTok\": 1.25, \"outputPerMTok\": 10}} (USD per 1M tokens)"
+}
+
+variable "llm_fallback_provider" {
+  type        = string
+  default     = ""
+  description = "Provider (gemini | groq) tried last for chunks whose output stays unusable; empty disables it"
+}
+
+variable "llm_fallback_model" {
+  type        = string
+  default     = ""
+  description = "Fallback model for unusable chunks (on llm_provider when llm_fallback_provider is empty)"
+}
+
+variable "quality_review_below" {
+  type        = string
+  default     = "0.8"
+  description = "Quality gate: articles scoring below this are held for review instead of stored"
+}
+
+variable "quality_requeue_below" {
+  type        = string
+  default     = "0.5"
+  description = "Quality gate: articles scoring below this are summarized again"
+}
+
+variable "log_level" {
+  type        = string
+  default     = "info"
+  description = "Structured log threshold: debug | info | warn | error"
+}
+
+variable "notify_webhook_url" {
+  type        = string
+  default     = ""
+  sensitive   = true
+  description = "Webhook (e.g. Slack incoming webhook) notified when a run has failures"
+}
+
+variable "notify_emails" {
+  type        = list(string)
+  default     = []
+  description = "E-mail addresses subscribed to the run-alerts SNS topic"
+}
+
+variable "otlp_endpoint" {
+  type        = string
+  default     = ""
+  description = "OTLP/HTTP collector endpoint for trace export (empty disables tracing export)"
+}
+
 variable "reduce_group_size" {
   type       = number
   default    = 3
@@ -112,3 +173,27 @@ variable "reduce_concurrency" {
   default    = 1
   description = "Concurrency for reduce processing"
 }
+
+variable "pipeline_mode" {
+  type        = string
+  default     = "inline"
+  description = "inline: summarize in the run Lambda; queue: fan out one SQS message per meeting"
+}
+
+variable "meeting_queue_max_receive_count" {
+  type        = number
+  default     = 3
+  description = "Deliveries before a meeting message moves to the dead-letter queue"
+}
+
+variable "meeting_consumer_timeout" {
+  type        = number
+  default     = 900
+  description = "Timeout (seconds) of the SQS consumer Lambda"
+}
+
+variable "meeting_consumer_concurrency" {
+  type        = number
+  default     = 2
+  description = "Reserved concurrency of the SQS consumer Lambda"
+}